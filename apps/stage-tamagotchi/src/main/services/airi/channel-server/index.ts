@@ -59,6 +59,8 @@ export async function setupServerChannel() {
           log.withError(error).error('Error closing WebSocket server')
         }
       }
+
+      await app.close()
     })
 
     log.log('@proj-airi/server-runtime started on ws://localhost:6121')
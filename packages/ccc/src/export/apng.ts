@@ -1 +1,33 @@
-export function exportToAPNG() {}
+import type { Card } from '../define'
+
+import { exportToPNG } from './png'
+
+/**
+ * APNGs announce their animation in an acTL chunk, which has to come before the first IDAT.
+ */
+function isAPNG(png: Uint8Array): boolean {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  const typeOf = (offset: number) => String.fromCharCode(...png.subarray(offset + 4, offset + 8))
+
+  // Chunks start right after the 8 byte signature: length, type, data, CRC
+  for (let offset = 8; offset + 8 <= png.byteLength; offset += view.getUint32(offset) + 12) {
+    const type = typeOf(offset)
+    if (type === 'acTL')
+      return true
+    if (type === 'IDAT')
+      return false
+  }
+
+  return false
+}
+
+/**
+ * Exports card data by embedding it as metadata in an animated PNG image
+ */
+export function exportToAPNG(data: Card, apng: Uint8Array): Uint8Array {
+  if (!isAPNG(apng))
+    throw new TypeError('Invalid APNG')
+
+  // tEXt chunks don't affect the animation, so this is the same as for still images
+  return exportToPNG(data, apng)
+}
@@ -37,6 +37,7 @@ function createCardData(data: Card): CharacterCardV3['data'] {
     post_history_instructions: data.postHistoryInstructions ?? '',
     mes_example: formatMessageExample(data.messageExample),
     tags: data.tags ?? [],
+    character_book: data.characterBook,
     extensions: createExtensions(data),
   }
 }
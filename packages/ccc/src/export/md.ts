@@ -1 +1,42 @@
-export function exportToMD() {}
+import type { Card } from '../define'
+
+import { content, h, p } from '../utils/markdown'
+
+function section(title: string, text: string | undefined) {
+  return text?.trim() ? content(h(2, title), text.trim()) : undefined
+}
+
+/**
+ * Exports card data as a human readable Markdown document
+ */
+export function exportToMD(data: Card): string {
+  const title = data.nickname ? `${data.name} (${data.nickname})` : data.name
+  const meta = p([
+    `Version ${data.version}`,
+    data.creator ? `by ${data.creator}` : '',
+    data.tags?.length ? `· ${data.tags.map(tag => `\`${tag}\``).join(' ')}` : '',
+  ].filter(Boolean))
+
+  const greetings = data.greetings?.filter(greeting => greeting.trim()) ?? []
+  const lorebook = data.characterBook?.entries.filter(entry => entry.enabled) ?? []
+
+  return `${content(...[
+    h(1, title),
+    meta,
+    section('Creator Notes', data.notes),
+    section('Description', data.description),
+    section('Personality', data.personality),
+    section('Scenario', data.scenario),
+    section('System Prompt', data.systemPrompt),
+    section('Post History Instructions', data.postHistoryInstructions),
+    greetings.length > 0
+      ? content(h(2, 'Greetings'), ...greetings.map((greeting, index) => content(h(3, index === 0 ? 'First Message' : `Alternate ${index}`), greeting)))
+      : undefined,
+    data.messageExample?.length
+      ? content(h(2, 'Message Examples'), ...data.messageExample.map(example => example.map(message => `> ${message.replaceAll('\n', '\n> ')}`).join('\n>\n')))
+      : undefined,
+    lorebook.length > 0
+      ? content(h(2, 'Lorebook'), ...lorebook.map(entry => content(h(3, entry.name || entry.keys.join(', ')), `Keys: ${entry.keys.map(key => `\`${key}\``).join(', ')}`, entry.content)))
+      : undefined,
+  ].filter((block): block is string => !!block))}\n`
+}
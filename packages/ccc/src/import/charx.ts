@@ -0,0 +1,32 @@
+import type { ImportedAsset, ImportedCard } from './json'
+
+import JSZip from 'jszip'
+
+import { importFromJSON } from './json'
+
+const EMBEDDED_URI_PREFIX = 'embeded://'
+
+/**
+ * Imports a CharX archive, a zip with the V3 card in `card.json` and the assets
+ * it references through `embeded://` URIs.
+ *
+ * @see {@link https://github.com/kwaroran/character-card-spec-v3/blob/main/SPEC_V3.md#charx}
+ */
+export async function importFromCharX(charx: Uint8Array | ArrayBuffer | Blob): Promise<ImportedCard> {
+  const zip = await JSZip.loadAsync(charx)
+
+  const cardFile = zip.file('card.json')
+  if (!cardFile)
+    throw new TypeError('No card.json found in CharX')
+
+  const imported = importFromJSON(JSON.parse(await cardFile.async('string')))
+  const assets = await Promise.all(imported.assets.map(async (asset): Promise<ImportedAsset> => {
+    if (!asset.uri.startsWith(EMBEDDED_URI_PREFIX))
+      return asset
+
+    const file = zip.file(asset.uri.slice(EMBEDDED_URI_PREFIX.length))
+    return file ? { ...asset, data: await file.async('uint8array') } : asset
+  }))
+
+  return { ...imported, assets }
+}
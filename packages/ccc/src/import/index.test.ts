@@ -0,0 +1,160 @@
+import JSZip from 'jszip'
+
+import { addMetadata } from 'meta-png'
+import { describe, expect, it } from 'vitest'
+
+import { importCard, importFromCharX, importFromJSON, importFromPNG } from '.'
+import { seraphina } from '../../test/fixture/seraphina'
+import { exportToAPNG, exportToJSON, exportToMD, exportToPNG } from '../export'
+
+function chunk(type: string, data: number[] = []) {
+  const length = [24, 16, 8, 0].map(shift => (data.length >>> shift) & 0xFF)
+  // CRC is not checked by anything here
+  return [...length, ...new TextEncoder().encode(type), ...data, 0, 0, 0, 0]
+}
+
+const signature = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]
+
+function png(...chunks: number[][]) {
+  return new Uint8Array([
+    ...signature,
+    ...chunk('IHDR', Array.from<number>({ length: 13 }).fill(0)),
+    ...chunks.flat(),
+    ...chunk('IDAT'),
+    ...chunk('IEND'),
+  ])
+}
+
+function encode(json: unknown) {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(json))))
+}
+
+const v2 = {
+  spec: 'chara_card_v2',
+  spec_version: '2.0',
+  data: {
+    name: 'Seraphina',
+    description: 'A guardian of the forest.',
+    personality: 'caring',
+    scenario: '',
+    first_mes: 'You are awake!',
+    mes_example: '<START>\n{{user}}: Hi\n<BOT>: Hello\nhow are you?',
+    alternate_greetings: ['Welcome back.'],
+    creator_notes: '',
+    system_prompt: '',
+    post_history_instructions: '',
+    tags: ['fantasy'],
+    creator: 'OtisAlejandro',
+    character_version: '1.0',
+    extensions: {},
+  },
+}
+
+describe('importFromJSON', () => {
+  it('migrates V2 cards to V3', () => {
+    const { card, assets } = importFromJSON(v2)
+
+    expect(card).toMatchObject({
+      name: 'Seraphina',
+      version: '1.0',
+      greetings: ['You are awake!', 'Welcome back.'],
+      greetingsGroupOnly: [],
+      messageExample: [['{{user}}: Hi', '{{char}}: Hello\nhow are you?']],
+      tags: ['fantasy'],
+    })
+    expect(assets).toEqual([{ type: 'icon', uri: 'ccdefault:', name: 'main', ext: 'png' }])
+  })
+
+  it('migrates flat V1 cards', () => {
+    const { card } = importFromJSON({ name: 'Old', description: 'd', personality: 'p', scenario: 's', first_mes: 'hi', mes_example: '' })
+
+    expect(card).toMatchObject({ name: 'Old', description: 'd', greetings: ['hi'], messageExample: [] })
+  })
+
+  it('rejects unknown specs', () => {
+    expect(() => importFromJSON({ spec: 'something_else', data: {} })).toThrow(TypeError)
+  })
+
+  it('round trips exported cards', () => {
+    const { card } = importFromJSON(exportToJSON(seraphina))
+
+    expect(card.name).toBe(seraphina.name)
+    expect(card.greetings).toEqual(seraphina.greetings)
+    expect(card.messageExample).toEqual(seraphina.messageExample)
+  })
+})
+
+describe('importFromPNG', () => {
+  it('reads cards written by exportToPNG', () => {
+    const { card, assets } = importFromPNG(exportToPNG(seraphina, png()))
+
+    expect(card.name).toBe('Seraphina')
+    expect(assets[0].data).toBeInstanceOf(Uint8Array)
+  })
+
+  it('falls back to the V2 chara chunk', () => {
+    const { card } = importFromPNG(addMetadata(png(), 'chara', encode(v2)))
+
+    expect(card.description).toBe('A guardian of the forest.')
+  })
+
+  it('prefers ccv3 over chara', () => {
+    const withBoth = addMetadata(addMetadata(png(), 'chara', encode(v2)), 'ccv3', encode({ ...v2, spec: 'chara_card_v3', data: { ...v2.data, name: 'V3' } }))
+
+    expect(importFromPNG(withBoth).card.name).toBe('V3')
+  })
+
+  it('throws without a card', () => {
+    expect(() => importFromPNG(png())).toThrow('No character card found in PNG')
+  })
+})
+
+describe('importFromCharX', () => {
+  it('loads card.json and embedded assets', async () => {
+    const zip = new JSZip()
+    zip.file('card.json', JSON.stringify({
+      ...v2,
+      spec: 'chara_card_v3',
+      spec_version: '3.0',
+      data: {
+        ...v2.data,
+        assets: [
+          { type: 'icon', uri: 'embeded://assets/icon/images/main.png', name: 'main', ext: 'png' },
+          { type: 'background', uri: 'https://example.com/bg.png', name: 'bg', ext: 'png' },
+        ],
+      },
+    }))
+    zip.file('assets/icon/images/main.png', new Uint8Array([1, 2, 3]))
+
+    const { card, assets } = await importFromCharX(await zip.generateAsync({ type: 'uint8array' }))
+
+    expect(card.name).toBe('Seraphina')
+    expect(assets[0].data).toEqual(new Uint8Array([1, 2, 3]))
+    expect(assets[1].data).toBeUndefined()
+  })
+})
+
+describe('importCard', () => {
+  it('tells formats apart by content', async () => {
+    expect((await importCard(new TextEncoder().encode(JSON.stringify(v2)))).card.name).toBe('Seraphina')
+    expect((await importCard(exportToPNG(seraphina, png()))).card.name).toBe('Seraphina')
+  })
+})
+
+describe('exporters', () => {
+  it('only embeds into animated PNGs', () => {
+    expect(() => exportToAPNG(seraphina, png())).toThrow('Invalid APNG')
+
+    const apng = exportToAPNG(seraphina, png(chunk('acTL', [0, 0, 0, 1, 0, 0, 0, 0])))
+    expect(importFromPNG(apng).card.name).toBe('Seraphina')
+  })
+
+  it('renders cards as Markdown', () => {
+    const md = exportToMD(importFromJSON(v2).card)
+
+    expect(md).toContain('# Seraphina\n\nVersion 1.0 by OtisAlejandro · `fantasy`')
+    expect(md).toContain('## Description\n\nA guardian of the forest.')
+    expect(md).toContain('### Alternate 1\n\nWelcome back.')
+    expect(md).toContain('> {{char}}: Hello\n> how are you?')
+  })
+})
@@ -0,0 +1,32 @@
+import type { ImportedCard } from './json'
+
+import { importFromCharX } from './charx'
+import { importFromJSON } from './json'
+import { importFromPNG } from './png'
+
+export { importFromCharX } from './charx'
+export { cardFromV3, type ImportedAsset, type ImportedCard, importFromJSON, migrateToV3 } from './json'
+export { importFromAPNG, importFromPNG } from './png'
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]
+const ZIP_SIGNATURE = [0x50, 0x4B, 0x03, 0x04]
+
+function startsWith(bytes: Uint8Array, signature: number[]) {
+  return signature.every((byte, index) => bytes[index] === byte)
+}
+
+/**
+ * Imports a character card from a JSON, PNG, APNG or CharX file, telling them apart by content.
+ */
+export async function importCard(file: Uint8Array | ArrayBuffer | Blob): Promise<ImportedCard> {
+  const bytes = file instanceof Uint8Array
+    ? file
+    : new Uint8Array(file instanceof ArrayBuffer ? file : await file.arrayBuffer())
+
+  if (startsWith(bytes, PNG_SIGNATURE))
+    return importFromPNG(bytes)
+  if (startsWith(bytes, ZIP_SIGNATURE))
+    return importFromCharX(bytes)
+
+  return importFromJSON(JSON.parse(new TextDecoder().decode(bytes)))
+}
@@ -0,0 +1,137 @@
+import type { Card } from '../define'
+import type { Message } from '../define/types/mes_example'
+import type { Asset } from '../export/types/assets'
+import type { CharacterCardV3 } from '../export/types/character_card_v3'
+import type { Data } from '../export/types/data'
+
+export interface ImportedAsset extends Asset {
+  /**
+   * Content of assets embedded in the imported file, missing for remote or default ones.
+   */
+  data?: Uint8Array
+}
+
+export interface ImportedCard {
+  card: Card
+  assets: ImportedAsset[]
+}
+
+/**
+ * Assets every card has when it does not declare any.
+ * @see {@link https://github.com/kwaroran/character-card-spec-v3/blob/main/SPEC_V3.md#assets}
+ */
+const DEFAULT_ASSETS: Asset[] = [{ type: 'icon', uri: 'ccdefault:', name: 'main', ext: 'png' }]
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Fills in what V3 added on top of V1 and V2 data.
+ */
+function migrateData(data: Record<string, any>): Data {
+  return {
+    ...data,
+    name: data.name ?? '',
+    description: data.description ?? '',
+    personality: data.personality ?? '',
+    scenario: data.scenario ?? '',
+    first_mes: data.first_mes ?? '',
+    mes_example: data.mes_example ?? '',
+    alternate_greetings: data.alternate_greetings ?? [],
+    character_book: data.character_book,
+    character_version: data.character_version ?? '1.0.0',
+    creator: data.creator ?? '',
+    creator_notes: data.creator_notes ?? '',
+    extensions: data.extensions ?? {},
+    post_history_instructions: data.post_history_instructions ?? '',
+    system_prompt: data.system_prompt ?? '',
+    tags: data.tags ?? [],
+    group_only_greetings: data.group_only_greetings ?? [],
+    assets: data.assets ?? DEFAULT_ASSETS,
+  }
+}
+
+/**
+ * Migrates V1, V2 and V3 character cards to V3.
+ */
+export function migrateToV3(json: unknown): CharacterCardV3 {
+  if (!isRecord(json))
+    throw new TypeError('Invalid character card: not an object')
+
+  // V2 and V3 wrap everything in `data`, V1 is flat
+  if (json.spec === 'chara_card_v3' || json.spec === 'chara_card_v2') {
+    if (!isRecord(json.data))
+      throw new TypeError(`Invalid character card: ${json.spec} without data`)
+
+    return { spec: 'chara_card_v3', spec_version: '3.0', data: migrateData(json.data) }
+  }
+
+  if (json.spec != null)
+    throw new TypeError(`Unsupported character card spec: ${json.spec}`)
+  if (typeof json.name !== 'string')
+    throw new TypeError('Invalid character card: missing name')
+
+  return { spec: 'chara_card_v3', spec_version: '3.0', data: migrateData(json) }
+}
+
+/**
+ * Parses `mes_example` into conversations, lines without a speaker continue the previous message.
+ */
+function parseMessageExample(mesExample: string): Message[][] {
+  return mesExample
+    .replaceAll('<BOT>', '{{char}}')
+    .replaceAll('<USER>', '{{user}}')
+    .split(/^<START>\s*$/m)
+    .map((example) => {
+      const messages: Message[] = []
+      for (const line of example.split('\n')) {
+        if (line.startsWith('{{char}}:') || line.startsWith('{{user}}:'))
+          messages.push(line as Message)
+        else if (messages.length > 0 && line.trim())
+          messages[messages.length - 1] = `${messages[messages.length - 1]}\n${line}` as Message
+      }
+
+      return messages
+    })
+    .filter(messages => messages.length > 0)
+}
+
+/**
+ * Converts a V3 character card into a Card, the inverse of `exportToJSON`.
+ */
+export function cardFromV3(card: CharacterCardV3): Card {
+  const { data } = card
+
+  return {
+    name: data.name,
+    nickname: data.nickname,
+    version: data.character_version || '1.0.0',
+    description: data.description,
+    creator: data.creator,
+    notes: data.creator_notes,
+    notesMultilingual: data.creator_notes_multilingual,
+    personality: data.personality,
+    scenario: data.scenario,
+    greetings: [data.first_mes, ...data.alternate_greetings],
+    greetingsGroupOnly: data.group_only_greetings,
+    systemPrompt: data.system_prompt,
+    postHistoryInstructions: data.post_history_instructions,
+    messageExample: parseMessageExample(data.mes_example),
+    tags: data.tags,
+    characterBook: data.character_book,
+    extensions: data.extensions,
+  }
+}
+
+/**
+ * Imports a V1, V2 or V3 character card from its JSON.
+ */
+export function importFromJSON(json: unknown): ImportedCard {
+  const card = migrateToV3(json)
+
+  return {
+    card: cardFromV3(card),
+    assets: card.data.assets ?? [],
+  }
+}
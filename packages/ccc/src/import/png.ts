@@ -0,0 +1,35 @@
+import type { ImportedCard } from './json'
+
+import { getMetadata } from 'meta-png'
+
+import { importFromJSON } from './json'
+
+/**
+ * Decodes the base64 encoded UTF-8 JSON character cards are stored as in tEXt chunks.
+ */
+function decodeCardData(encoded: string): unknown {
+  const bytes = Uint8Array.from(atob(encoded), char => char.charCodeAt(0))
+  return JSON.parse(new TextDecoder().decode(bytes))
+}
+
+/**
+ * Imports a character card embedded in a PNG or APNG image, the `ccv3` chunk takes
+ * precedence over the `chara` chunk V2 cards are stored in. The image itself becomes
+ * the main icon asset.
+ */
+export function importFromPNG(png: Uint8Array): ImportedCard {
+  const encoded = getMetadata(png, 'ccv3') ?? getMetadata(png, 'chara')
+  if (!encoded)
+    throw new TypeError('No character card found in PNG')
+
+  const imported = importFromJSON(decodeCardData(encoded))
+  const assets = imported.assets.map(asset =>
+    asset.type === 'icon' && asset.name === 'main' && asset.uri === 'ccdefault:'
+      ? { ...asset, data: png }
+      : asset,
+  )
+
+  return { ...imported, assets }
+}
+
+export { importFromPNG as importFromAPNG }
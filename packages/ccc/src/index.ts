@@ -1,3 +1,6 @@
 export * from './define'
 export * from './export'
+export * from './import'
+export * from './lorebook'
+export * from './macros'
 export * from './utils'
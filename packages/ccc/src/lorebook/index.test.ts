@@ -0,0 +1,85 @@
+import type { CharacterBook, CharacterBookEntry } from '../export/types/character_book'
+
+import { describe, expect, it } from 'vitest'
+
+import { activateLorebook, matchLorebookEntry } from '.'
+
+function entry(overrides: Partial<CharacterBookEntry> & Pick<CharacterBookEntry, 'content'>): CharacterBookEntry {
+  return {
+    enabled: true,
+    extensions: {},
+    insertion_order: 0,
+    keys: [],
+    ...overrides,
+  }
+}
+
+function book(entries: CharacterBookEntry[], overrides: Partial<CharacterBook> = {}): CharacterBook {
+  return { entries, extensions: {}, ...overrides }
+}
+
+const contentsOf = (entries: CharacterBookEntry[]) => entries.map(entry => entry.content)
+
+describe('matchLorebookEntry', () => {
+  it('matches keys case insensitively by default', () => {
+    expect(matchLorebookEntry(entry({ content: '', keys: ['Eldoria'] }), 'the forest of eldoria')).toBe(true)
+    expect(matchLorebookEntry(entry({ content: '', keys: ['Eldoria'], case_sensitive: true }), 'the forest of eldoria')).toBe(false)
+  })
+
+  it('requires a secondary key for selective entries', () => {
+    const selective = entry({ content: '', keys: ['forest'], secondary_keys: ['night', 'dark'], selective: true })
+
+    expect(matchLorebookEntry(selective, 'a walk in the forest')).toBe(false)
+    expect(matchLorebookEntry(selective, 'the forest at night')).toBe(true)
+  })
+})
+
+describe('activateLorebook', () => {
+  it('activates constant entries and entries matched within the scan depth', () => {
+    const activated = activateLorebook(book([
+      entry({ content: 'Always', constant: true }),
+      entry({ content: 'Beasts roam the forest.', keys: ['beast'] }),
+      entry({ content: 'Seraphina heals.', keys: ['heal'] }),
+    ], { scan_depth: 1 }), ['Can you heal me?', 'A beast attacked me.'])
+
+    expect(contentsOf(activated.beforeChar)).toEqual(['Always', 'Beasts roam the forest.'])
+  })
+
+  it('skips disabled entries', () => {
+    const activated = activateLorebook(book([entry({ content: 'Off', keys: ['forest'], enabled: false })]), ['forest'])
+
+    expect(activated.beforeChar).toEqual([])
+  })
+
+  it('scans the content of activated entries when recursive', () => {
+    const entries = [
+      entry({ content: 'Eldoria is guarded by Seraphina.', keys: ['Eldoria'] }),
+      entry({ content: 'Seraphina is a forest guardian.', keys: ['Seraphina'], insertion_order: 1 }),
+    ]
+
+    expect(contentsOf(activateLorebook(book(entries), ['Tell me about Eldoria']).beforeChar)).toEqual(['Eldoria is guarded by Seraphina.'])
+    expect(contentsOf(activateLorebook(book(entries, { recursive_scanning: true }), ['Tell me about Eldoria']).beforeChar))
+      .toEqual(['Eldoria is guarded by Seraphina.', 'Seraphina is a forest guardian.'])
+  })
+
+  it('drops the lowest priority entries when over budget', () => {
+    const activated = activateLorebook(book([
+      entry({ content: 'aaaa', keys: ['x'], priority: 1, insertion_order: 0 }),
+      entry({ content: 'bbbb', keys: ['x'], priority: 3, insertion_order: 1 }),
+      entry({ content: 'cccc', keys: ['x'], priority: 2, insertion_order: 2 }),
+    ], { token_budget: 2 }), ['x'], { countTokens: text => text.length / 4 })
+
+    expect(contentsOf(activated.beforeChar)).toEqual(['bbbb', 'cccc'])
+  })
+
+  it('splits entries by position in insertion order', () => {
+    const activated = activateLorebook(book([
+      entry({ content: 'after', keys: ['x'], position: 'after_char', insertion_order: 2 }),
+      entry({ content: 'before 2', keys: ['x'], insertion_order: 1 }),
+      entry({ content: 'before 1', keys: ['x'], position: 'before_char', insertion_order: 0 }),
+    ]), ['x'])
+
+    expect(contentsOf(activated.beforeChar)).toEqual(['before 1', 'before 2'])
+    expect(contentsOf(activated.afterChar)).toEqual(['after'])
+  })
+})
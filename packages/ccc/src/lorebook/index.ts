@@ -0,0 +1,115 @@
+import type { CharacterBook, CharacterBookEntry } from '../export/types/character_book'
+
+export interface LorebookActivationOptions {
+  /**
+   * How many of the most recent messages are scanned for keys.
+   * @default book.scan_depth ?? 4
+   */
+  scanDepth?: number
+  /**
+   * Tokens all activated entries may take together.
+   * @default book.token_budget ?? Infinity
+   */
+  tokenBudget?: number
+  /**
+   * Whether the content of activated entries is scanned for keys too.
+   * @default book.recursive_scanning ?? false
+   */
+  recursive?: boolean
+  /**
+   * Rounds of recursive scanning, only applies when `recursive` is on.
+   * @default 3
+   */
+  maxRecursion?: number
+  /**
+   * @default about 4 characters per token
+   */
+  countTokens?: (text: string) => number
+}
+
+export interface ActivatedLorebook {
+  /**
+   * Entries to place before the character definitions, in insertion order.
+   */
+  beforeChar: CharacterBookEntry[]
+  /**
+   * Entries to place after the character definitions, in insertion order.
+   */
+  afterChar: CharacterBookEntry[]
+}
+
+function includesKey(text: string, key: string, caseSensitive: boolean) {
+  if (!key)
+    return false
+
+  return caseSensitive
+    ? text.includes(key)
+    : text.toLowerCase().includes(key.toLowerCase())
+}
+
+/**
+ * Whether the entry is triggered by the text, entries marked `selective` need a match
+ * from both `keys` and `secondary_keys`.
+ */
+export function matchLorebookEntry(entry: CharacterBookEntry, text: string): boolean {
+  const caseSensitive = entry.case_sensitive ?? false
+  if (!entry.keys.some(key => includesKey(text, key, caseSensitive)))
+    return false
+
+  if (entry.selective && entry.secondary_keys?.length)
+    return entry.secondary_keys.some(key => includesKey(text, key, caseSensitive))
+
+  return true
+}
+
+function byInsertionOrder(a: CharacterBookEntry, b: CharacterBookEntry) {
+  return a.insertion_order - b.insertion_order
+}
+
+/**
+ * Scans the most recent messages for the keys of the book's entries and returns the entries
+ * to inject into the prompt. Constant entries are always activated, when the token budget
+ * is exceeded entries with the lowest priority are dropped first.
+ * `history` holds the texts of the chat messages, oldest first.
+ */
+export function activateLorebook(book: CharacterBook | undefined, history: string[], options?: LorebookActivationOptions): ActivatedLorebook {
+  if (!book)
+    return { beforeChar: [], afterChar: [] }
+
+  const scanDepth = options?.scanDepth ?? book.scan_depth ?? 4
+  const tokenBudget = options?.tokenBudget ?? book.token_budget ?? Number.POSITIVE_INFINITY
+  const recursive = options?.recursive ?? book.recursive_scanning ?? false
+  const maxRecursion = recursive ? options?.maxRecursion ?? 3 : 0
+  const countTokens = options?.countTokens ?? (text => Math.ceil(text.length / 4))
+
+  const candidates = book.entries.filter(entry => entry.enabled && entry.content)
+  const activated = new Set(candidates.filter(entry => entry.constant))
+
+  let scanText = scanDepth > 0 ? history.slice(-scanDepth).join('\n') : ''
+  for (let round = 0; round <= maxRecursion && scanText; round++) {
+    const matched = candidates.filter(entry => !activated.has(entry) && matchLorebookEntry(entry, scanText))
+    matched.forEach(entry => activated.add(entry))
+
+    // Only newly activated entries can trigger further ones
+    scanText = matched.map(entry => entry.content).join('\n')
+  }
+
+  const kept: CharacterBookEntry[] = []
+  let used = 0
+  const byPriority = [...activated].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0) || byInsertionOrder(a, b))
+  for (const entry of byPriority) {
+    const tokens = countTokens(entry.content)
+    if (used + tokens > tokenBudget)
+      continue
+
+    kept.push(entry)
+    used += tokens
+  }
+
+  kept.sort(byInsertionOrder)
+
+  return {
+    beforeChar: kept.filter(entry => (entry.position ?? 'before_char') === 'before_char'),
+    afterChar: kept.filter(entry => entry.position === 'after_char'),
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+
+import { renderMacros } from '.'
+
+const context = {
+  user: 'Neko',
+  char: 'Airi',
+  now: () => new Date('2025-01-02T09:41:00Z'),
+  random: () => 0.5,
+}
+
+describe('renderMacros', () => {
+  it('replaces names, including the legacy placeholders', () => {
+    expect(renderMacros('{{char}}: Hi {{user}}! <BOT> greets <USER>.', context)).toBe('Airi: Hi Neko! Airi greets Neko.')
+  })
+
+  it('is case insensitive about macro names', () => {
+    expect(renderMacros('{{User}} and {{CHAR}}', context)).toBe('Neko and Airi')
+  })
+
+  it('renders dates and times', () => {
+    expect(renderMacros('{{isodate}} {{isotime}}', context)).toBe('2025-01-02 09:41')
+    expect(renderMacros('{{weekday}}', { ...context, locale: 'en-US' })).toBe(new Date('2025-01-02T09:41:00Z').toLocaleDateString('en-US', { weekday: 'long' }))
+  })
+
+  it('picks random options in both syntaxes', () => {
+    expect(renderMacros('{{random::a::b::c}}', context)).toBe('b')
+    expect(renderMacros('{{random:a, b, c}}', context)).toBe('b')
+  })
+
+  it('keeps picks stable for the same seed', () => {
+    const template = 'I feel {{pick::happy::sad::sleepy::hungry}} and {{pick::happy::sad::sleepy::hungry}}'
+    const first = renderMacros(template, { ...context, random: Math.random, seed: 'chat-1' })
+
+    expect(renderMacros(template, { ...context, random: Math.random, seed: 'chat-1' })).toBe(first)
+  })
+
+  it('rolls dice', () => {
+    expect(renderMacros('{{roll:d20}}', context)).toBe('11')
+    expect(renderMacros('{{roll:2d6+1}}', context)).toBe('9')
+    expect(renderMacros('{{roll:nope}}', context)).toBe('{{roll:nope}}')
+  })
+
+  it('sets and reads variables', () => {
+    const variables: Record<string, string> = {}
+
+    expect(renderMacros('{{setvar::mood::calm}}{{getvar::mood}}', { ...context, variables })).toBe('calm')
+    expect(renderMacros('{{setvar::count::1}}{{addvar::count::2}}{{getvar::count}}', { ...context, variables })).toBe('3')
+    expect(variables).toEqual({ mood: 'calm', count: '3' })
+  })
+
+  it('renders nested macros inside out and keeps unknown ones', () => {
+    expect(renderMacros('{{random::{{user}}::{{user}}}} {{unknown}}{{// hidden}}', context)).toBe('Neko {{unknown}}')
+  })
+})
@@ -0,0 +1,174 @@
+export interface MacroContext {
+  /**
+   * Replaces `{{user}}` and `<USER>`.
+   */
+  user: string
+  /**
+   * Replaces `{{char}}` and `<BOT>`.
+   */
+  char: string
+  /**
+   * Read and written by `{{getvar}}`, `{{setvar}}` and `{{addvar}}`, keep the same object
+   * across renders for variables to persist through a chat.
+   */
+  variables?: Record<string, string>
+  /**
+   * Makes `{{pick}}` stable, the same seed and template always pick the same option.
+   * `{{pick}}` behaves like `{{random}}` without one.
+   */
+  seed?: string
+  /**
+   * Locale of `{{date}}`, `{{time}}` and `{{weekday}}`.
+   */
+  locale?: string
+  /**
+   * @default () => new Date()
+   */
+  now?: () => Date
+  /**
+   * @default Math.random
+   */
+  random?: () => number
+}
+
+type MacroHandler = (args: string[], context: Required<Omit<MacroContext, 'seed' | 'locale'>> & MacroContext, offset: number) => string | undefined
+
+// Enough for macros nested a few levels deep, e.g. `{{random::{{user}}::{{char}}}}`
+const MAX_PASSES = 8
+
+function hashOf(text: string) {
+  // FNV-1a, good enough to spread picks
+  let hash = 0x811C9DC5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hash >>> 0
+}
+
+/**
+ * `{{random::a::b}}` and `{{pick::a::b}}` separate options with `::`, the legacy
+ * `{{random:a,b}}` form with commas.
+ */
+function optionsOf(args: string[]) {
+  return args.length === 1 ? args[0].split(',') : args
+}
+
+/**
+ * Rolls dice in `NdM+K` notation, `20` is short for `1d20`.
+ */
+function roll(formula: string, random: () => number): string | undefined {
+  const match = formula.trim().match(/^(?:(\d*)d)?(\d+)([+-]\d+)?$/i)
+  if (!match)
+    return undefined
+
+  const count = Math.min(Number(match[1] || 1), 100)
+  const sides = Number(match[2])
+  if (sides < 1)
+    return undefined
+
+  let total = Number(match[3] ?? 0)
+  for (let i = 0; i < count; i++)
+    total += Math.floor(random() * sides) + 1
+
+  return String(total)
+}
+
+const handlers: Record<string, MacroHandler> = {
+  'user': (_, context) => context.user,
+  'char': (_, context) => context.char,
+  'newline': () => '\n',
+  'date': (_, context) => context.now().toLocaleDateString(context.locale, { year: 'numeric', month: 'long', day: 'numeric' }),
+  'time': (_, context) => context.now().toLocaleTimeString(context.locale, { hour: '2-digit', minute: '2-digit' }),
+  'weekday': (_, context) => context.now().toLocaleDateString(context.locale, { weekday: 'long' }),
+  'isodate': (_, context) => context.now().toISOString().slice(0, 10),
+  'isotime': (_, context) => context.now().toISOString().slice(11, 16),
+  'random': (args, context) => {
+    const options = optionsOf(args)
+    return options[Math.floor(context.random() * options.length)]?.trim()
+  },
+  'pick': (args, context, offset) => {
+    const options = optionsOf(args)
+    const index = context.seed != null
+      ? hashOf(`${context.seed}:${offset}:${args.join('::')}`) % options.length
+      : Math.floor(context.random() * options.length)
+
+    return options[index]?.trim()
+  },
+  'roll': (args, context) => roll(args.join(':'), context.random),
+  'getvar': ([name], context) => context.variables[name?.trim()] ?? '',
+  'setvar': ([name, ...value], context) => {
+    context.variables[name?.trim()] = value.join('::')
+    return ''
+  },
+  'addvar': ([name, ...value], context) => {
+    const key = name?.trim()
+    const current = context.variables[key] ?? ''
+    const increment = value.join('::')
+
+    context.variables[key] = current !== '' && !Number.isNaN(Number(current)) && !Number.isNaN(Number(increment))
+      ? String(Number(current) + Number(increment))
+      : current + increment
+    return ''
+  },
+  '//': () => '',
+}
+
+/**
+ * Splits `name::arg::arg` or the legacy `name:arg` into the macro name and its arguments.
+ */
+function parseMacro(body: string): [name: string, args: string[]] {
+  if (body.startsWith('//'))
+    return ['//', []]
+
+  const separator = body.match(/::|:/)
+  if (!separator || separator.index == null)
+    return [body.trim().toLowerCase(), []]
+
+  const name = body.slice(0, separator.index).trim().toLowerCase()
+  const rest = body.slice(separator.index + separator[0].length)
+  return [name, separator[0] === '::' ? rest.split('::') : [rest]]
+}
+
+/**
+ * Renders the macros of character cards, as supported by most frontends: `{{user}}`,
+ * `{{char}}`, `{{date}}`, `{{time}}`, `{{weekday}}`, `{{random::a::b}}`, `{{pick::a::b}}`,
+ * `{{roll:d20}}`, `{{setvar::name::value}}`, `{{getvar::name}}`, `{{addvar::name::1}}`,
+ * `{{newline}}` and `{{// comments}}`. Innermost macros are rendered first, unknown ones are kept.
+ *
+ * @example
+ * ```ts
+ * renderMacros('{{char}}: Hi {{user}}, it is {{time}}.', { user: 'Neko', char: 'Airi' })
+ * // 'Airi: Hi Neko, it is 09:41.'
+ * ```
+ */
+export function renderMacros(template: string, context: MacroContext): string {
+  if (!template)
+    return template
+
+  const resolved = {
+    ...context,
+    variables: context.variables ?? {},
+    now: context.now ?? (() => new Date()),
+    random: context.random ?? Math.random,
+  }
+
+  let text = template
+    .replaceAll('<USER>', context.user)
+    .replaceAll('<BOT>', context.char)
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const rendered = text.replace(/\{\{([^{}]*)\}\}/g, (macro, body: string, offset: number) => {
+      const [name, args] = parseMacro(body)
+      return handlers[name]?.(args, resolved, offset) ?? macro
+    })
+
+    if (rendered === text)
+      break
+
+    text = rendered
+  }
+
+  return text
+}
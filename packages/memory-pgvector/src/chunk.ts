@@ -0,0 +1,73 @@
+export interface ChunkOptions {
+  /**
+   * Upper bound of characters per chunk.
+   * @default 800
+   */
+  maxLength?: number
+  /**
+   * Characters carried over from the end of the previous chunk,
+   * whole sentences only, so recalled chunks keep a bit of their surroundings.
+   * @default 120
+   */
+  overlap?: number
+}
+
+const sentenceBoundary = /(?<=[.!?。！？\n])\s*/u
+
+function hardSplit(sentence: string, maxLength: number) {
+  const parts: string[] = []
+  for (let i = 0; i < sentence.length; i += maxLength)
+    parts.push(sentence.slice(i, i + maxLength))
+
+  return parts
+}
+
+/**
+ * Splits a turn into sentence aligned chunks of at most `maxLength` characters,
+ * sentences longer than that are cut at `maxLength`.
+ */
+export function chunkText(text: string, options?: ChunkOptions): string[] {
+  const maxLength = options?.maxLength ?? 800
+  const overlap = Math.min(options?.overlap ?? 120, Math.floor(maxLength / 2))
+
+  const sentences = text
+    .split(sentenceBoundary)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+    .flatMap(sentence => sentence.length > maxLength ? hardSplit(sentence, maxLength) : [sentence])
+
+  const chunks: string[] = []
+  let current: string[] = []
+  let currentLength = 0
+  let carried = 0
+
+  for (const sentence of sentences) {
+    const length = sentence.length + (current.length > 0 ? 1 : 0)
+    if (current.length > carried && currentLength + length > maxLength) {
+      chunks.push(current.join(' '))
+
+      // Carry the trailing sentences that fit in the overlap budget
+      const tail: string[] = []
+      let tailLength = 0
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (tailLength + current[i].length + 1 + sentence.length > Math.min(overlap + sentence.length, maxLength))
+          break
+
+        tail.unshift(current[i])
+        tailLength += current[i].length + 1
+      }
+
+      current = tail
+      currentLength = tailLength
+      carried = tail.length
+    }
+
+    current.push(sentence)
+    currentLength += sentence.length + (current.length > 1 ? 1 : 0)
+  }
+
+  if (current.length > carried)
+    chunks.push(current.join(' '))
+
+  return chunks
+}
@@ -0,0 +1,40 @@
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core'
+
+import { sql } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/postgres-js'
+
+import * as schema from './schema'
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>
+
+export function initDb(connectionString: string) {
+  return drizzle(connectionString, { schema })
+}
+
+/**
+ * Creates the pgvector extension, the table and its indexes when missing,
+ * so the module works against an empty database without a separate migration step.
+ */
+export async function migrate(db: Database) {
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS memory_chunks (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      turn_id text NOT NULL DEFAULT '',
+      chunk_index integer NOT NULL DEFAULT 0,
+      role text NOT NULL DEFAULT '',
+      source text NOT NULL DEFAULT '',
+      content text NOT NULL DEFAULT '',
+      created_at bigint NOT NULL DEFAULT 0,
+      content_vector_1536 vector(1536),
+      content_vector_1024 vector(1024),
+      content_vector_768 vector(768)
+    )
+  `)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS memory_chunks_turn_id_index ON memory_chunks (turn_id)`)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS memory_chunks_content_vector_1536_index ON memory_chunks USING hnsw (content_vector_1536 vector_cosine_ops)`)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS memory_chunks_content_vector_1024_index ON memory_chunks USING hnsw (content_vector_1024 vector_cosine_ops)`)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS memory_chunks_content_vector_768_index ON memory_chunks USING hnsw (content_vector_768 vector_cosine_ops)`)
+}
+
+export { schema }
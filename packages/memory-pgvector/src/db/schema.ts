@@ -0,0 +1,19 @@
+import { bigint, index, integer, pgTable, text, uuid, vector } from 'drizzle-orm/pg-core'
+
+export const memoryChunksTable = pgTable('memory_chunks', {
+  id: uuid().primaryKey().defaultRandom(),
+  turn_id: text().notNull().default(''),
+  chunk_index: integer().notNull().default(0),
+  role: text().notNull().default(''),
+  source: text().notNull().default(''),
+  content: text().notNull().default(''),
+  created_at: bigint({ mode: 'number' }).notNull().default(0).$defaultFn(() => Date.now()),
+  content_vector_1536: vector({ dimensions: 1536 }),
+  content_vector_1024: vector({ dimensions: 1024 }),
+  content_vector_768: vector({ dimensions: 768 }),
+}, table => [
+  index('memory_chunks_turn_id_index').on(table.turn_id),
+  index('memory_chunks_content_vector_1536_index').using('hnsw', table.content_vector_1536.op('vector_cosine_ops')),
+  index('memory_chunks_content_vector_1024_index').using('hnsw', table.content_vector_1024.op('vector_cosine_ops')),
+  index('memory_chunks_content_vector_768_index').using('hnsw', table.content_vector_768.op('vector_cosine_ops')),
+])
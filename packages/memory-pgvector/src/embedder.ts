@@ -0,0 +1,34 @@
+import { embedMany } from '@xsai/embed'
+
+/**
+ * Turns texts into vectors, one per input and in the same order.
+ */
+export type Embedder = (input: string[]) => Promise<number[][]>
+
+export interface EmbeddingConfig {
+  baseURL: string
+  apiKey?: string
+  model: string
+  /**
+   * Must be one of the vector columns of `memory_chunks`.
+   */
+  dimension: EmbeddingDimension
+}
+
+export type EmbeddingDimension = 768 | 1024 | 1536
+
+export function createEmbedder(config: EmbeddingConfig): Embedder {
+  return async (input) => {
+    if (input.length === 0)
+      return []
+
+    const res = await embedMany({
+      baseURL: config.baseURL,
+      apiKey: config.apiKey,
+      model: config.model,
+      input,
+    })
+
+    return res.embeddings
+  }
+}
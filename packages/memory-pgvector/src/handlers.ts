@@ -0,0 +1,153 @@
+import type { Client } from '@proj-airi/server-sdk'
+
+import type { Database } from './db'
+import type { Embedder, EmbeddingConfig } from './embedder'
+import type { MemoryStore, RecalledMemory, RecallOptions } from './memory'
+
+import { useLogg } from '@guiiai/logg'
+import { ContextUpdateStrategy } from '@proj-airi/server-sdk'
+import { nanoid } from 'nanoid'
+
+import { initDb, migrate } from './db'
+import { createEmbedder } from './embedder'
+import { createMemoryStore } from './memory'
+
+export interface MemoryPgvectorConfig {
+  connectionString: string
+  embedding: EmbeddingConfig
+  recall?: RecallOptions
+}
+
+export interface MemoryHandlersOptions {
+  /**
+   * Opens the database a configuration points to, Postgres by default.
+   */
+  connect?: (connectionString: string) => { db: Database, close: () => Promise<void> }
+  /**
+   * @default createEmbedder
+   */
+  createEmbedder?: (config: EmbeddingConfig) => Embedder
+}
+
+function connectPostgres(connectionString: string) {
+  const db = initDb(connectionString)
+  return { db, close: () => db.$client.end() }
+}
+
+function messageContentToText(content: unknown): string {
+  if (typeof content === 'string')
+    return content
+  if (Array.isArray(content))
+    return content.map(part => part?.type === 'text' ? part.text : '').join('')
+
+  return ''
+}
+
+function memoriesToContextText(memories: RecalledMemory[]) {
+  const lines = memories.map((memory) => {
+    const at = new Date(memory.createdAt).toISOString()
+    return `- [${at}] ${memory.role} (${memory.source}): ${memory.content}`
+  })
+
+  return ['Relevant memories from earlier conversations:', ...lines].join('\n')
+}
+
+/**
+ * Remembers the inputs and replies going through the server, and sends the memories
+ * recalled for every input as a context update. Nothing happens until `module:configure`
+ * brings a database and an embedding model.
+ */
+export function registerMemoryHandlers(client: Client<MemoryPgvectorConfig>, options: MemoryHandlersOptions = {}) {
+  const log = useLogg('memory-pgvector').useGlobalConfig()
+  const connect = options.connect ?? connectPostgres
+  const embedderOf = options.createEmbedder ?? createEmbedder
+
+  let store: MemoryStore | undefined
+  let recallOptions: MemoryPgvectorConfig['recall']
+  let closeDb: (() => Promise<void>) | undefined
+
+  client.onEvent('module:configure', async (event) => {
+    const config = event.data.config
+    if (!config?.connectionString || !config.embedding) {
+      log.warn('Ignoring configuration without connectionString or embedding')
+      return
+    }
+
+    try {
+      const { db, close } = connect(config.connectionString)
+      // Keep the previous connection on failure, but don't leak the new one
+      await migrate(db).catch(async (err) => {
+        await close()
+        throw err
+      })
+
+      await closeDb?.()
+      store = createMemoryStore({ db, embed: embedderOf(config.embedding), dimension: config.embedding.dimension })
+      recallOptions = config.recall
+      closeDb = close
+
+      log.log('Configured')
+    }
+    catch (err) {
+      log.withError(err).error('Failed to configure')
+    }
+  })
+
+  client.onEvent('input:text', async (event) => {
+    if (!store) {
+      log.warn('Received input:text before being configured, skipping')
+      return
+    }
+
+    const text = event.data.text
+    const turnId = nanoid()
+
+    try {
+      // Recall before remembering, otherwise the input itself would be the best match
+      const memories = await store.recall(text, recallOptions)
+      if (memories.length > 0) {
+        const id = nanoid()
+        client.send({
+          type: 'context:update',
+          data: {
+            id,
+            contextId: 'memory-pgvector:recall',
+            lane: 'memory',
+            strategy: ContextUpdateStrategy.ReplaceSelf,
+            text: memoriesToContextText(memories),
+            metadata: { turnId, memoryIds: memories.map(memory => memory.id) },
+          },
+        })
+      }
+
+      await store.remember({ turnId, role: 'user', source: event.source, content: text })
+    }
+    catch (err) {
+      log.withError(err).error('Failed to process input:text')
+    }
+  })
+
+  client.onEvent('output:gen-ai:chat:complete', async (event) => {
+    if (!store) {
+      log.warn('Received output:gen-ai:chat:complete before being configured, skipping')
+      return
+    }
+
+    const text = messageContentToText(event.data.message.content)
+    if (!text.trim())
+      return
+
+    try {
+      await store.remember({ role: 'assistant', source: event.source, content: text })
+    }
+    catch (err) {
+      log.withError(err).error('Failed to process output:gen-ai:chat:complete')
+    }
+  })
+
+  return {
+    close: async () => {
+      await closeDb?.()
+    },
+  }
+}
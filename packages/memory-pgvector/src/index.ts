@@ -1,24 +1,36 @@
+import type { MemoryPgvectorConfig } from './handlers'
+
 import process from 'node:process'
 
 import { Format, LogLevel, setGlobalFormat, setGlobalLogLevel } from '@guiiai/logg'
 import { Client } from '@proj-airi/server-sdk'
 import { runUntilSignal } from '@proj-airi/server-sdk/utils/node'
 
+import { registerMemoryHandlers } from './handlers'
+
+export type { MemoryPgvectorConfig } from './handlers'
+
 setGlobalFormat(Format.Pretty)
 setGlobalLogLevel(LogLevel.Log)
 
 async function main() {
-  const client = new Client<{ connectionString: string }>({
+  const client = new Client<MemoryPgvectorConfig>({
     name: 'memory-pgvector',
+    consumes: ['module:configure', 'input:text', 'output:gen-ai:chat:complete'],
+    emits: ['context:update'],
   })
 
-  client.onEvent('module:configure', (_event) => {
-  })
+  const handlers = registerMemoryHandlers(client)
 
   runUntilSignal()
 
-  process.on('SIGINT', () => client.close())
-  process.on('SIGTERM', () => client.close())
+  async function shutdown() {
+    client.close()
+    await handlers.close()
+  }
+
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
 }
 
 main()
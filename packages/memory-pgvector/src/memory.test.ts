@@ -0,0 +1,190 @@
+import type { Client } from '@proj-airi/server-sdk'
+import type { Mock } from 'vitest'
+
+import type { Database } from './db'
+import type { Embedder } from './embedder'
+import type { MemoryHandlersOptions, MemoryPgvectorConfig } from './handlers'
+
+import { PGlite } from '@electric-sql/pglite'
+import { vector } from '@electric-sql/pglite/vector'
+import { drizzle } from 'drizzle-orm/pglite'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { chunkText } from './chunk'
+import { migrate, schema } from './db'
+import { registerMemoryHandlers } from './handlers'
+import { createMemoryStore } from './memory'
+
+/**
+ * Hashes every word into one of 768 buckets, texts sharing words end up close to each other.
+ */
+const fakeEmbed: Embedder = async input => input.map((text) => {
+  const embedding = Array.from<number>({ length: 768 }).fill(0)
+  for (const word of text.toLowerCase().match(/\w+/g) ?? []) {
+    let hash = 0
+    for (const char of word)
+      hash = (hash * 31 + char.charCodeAt(0)) % 768
+
+    embedding[hash] += 1
+  }
+
+  const norm = Math.hypot(...embedding) || 1
+  return embedding.map(value => value / norm)
+})
+
+function createMockClient() {
+  const listeners = new Map<string, (event: any) => void | Promise<void>>()
+
+  return {
+    send: vi.fn(),
+    onEvent: vi.fn((type: string, listener: (event: any) => void) => listeners.set(type, listener)),
+    dispatch: async (type: string, data: unknown) => listeners.get(type)?.({ type, data, source: 'stage-web' }),
+  }
+}
+
+function sentOf(client: ReturnType<typeof createMockClient>, type: string) {
+  return client.send.mock.calls.map(([event]) => event).filter(event => event.type === type).map(event => event.data)
+}
+
+describe('chunkText', () => {
+  it('keeps short text as a single chunk', () => {
+    expect(chunkText('Hello there. How are you?')).toEqual(['Hello there. How are you?'])
+  })
+
+  it('splits on sentences without exceeding maxLength', () => {
+    const text = 'One sentence here. Another sentence there. A third one follows. And the last one.'
+    const chunks = chunkText(text, { maxLength: 45, overlap: 0 })
+
+    expect(chunks).toEqual([
+      'One sentence here. Another sentence there.',
+      'A third one follows. And the last one.',
+    ])
+  })
+
+  it('carries trailing sentences as overlap', () => {
+    const chunks = chunkText('Aaaa. Bbbb. Cccc. Dddd.', { maxLength: 12, overlap: 6 })
+
+    expect(chunks).toEqual(['Aaaa. Bbbb.', 'Bbbb. Cccc.', 'Cccc. Dddd.'])
+  })
+
+  it('cuts sentences longer than maxLength', () => {
+    expect(chunkText('abcdefghij', { maxLength: 4, overlap: 0 })).toEqual(['abcd', 'efgh', 'ij'])
+  })
+})
+
+describe('createMemoryStore', () => {
+  let client: PGlite
+  let db: Database
+
+  beforeAll(async () => {
+    client = new PGlite({ extensions: { vector } })
+    db = drizzle(client, { schema })
+    await migrate(db)
+  })
+
+  afterAll(async () => {
+    await client.close()
+  })
+
+  it('remembers turns and recalls the most similar ones', async () => {
+    const store = createMemoryStore({ db, embed: fakeEmbed, dimension: 768 })
+
+    await store.remember({ role: 'user', source: 'stage-web', content: 'My cat is called Mochi and she loves tuna.' })
+    await store.remember({ role: 'assistant', source: 'stage-web', content: 'The weather in Paris is rainy today.' })
+    const { turnId } = await store.remember({ role: 'user', source: 'discord', content: 'I play the piano every evening.' })
+
+    const memories = await store.recall('what does my cat Mochi love', { threshold: 0.1 })
+
+    expect(memories.length).toBeGreaterThan(0)
+    expect(memories[0]).toMatchObject({
+      role: 'user',
+      source: 'stage-web',
+      content: 'My cat is called Mochi and she loves tuna.',
+    })
+    expect(memories[0].similarity).toBeGreaterThan(0.1)
+    expect(memories.every(memory => memory.turnId !== turnId)).toBe(true)
+  })
+
+  it('respects threshold and limit', async () => {
+    const store = createMemoryStore({ db, embed: fakeEmbed, dimension: 768 })
+    const { turnId } = await store.remember({ role: 'user', source: 'stage-web', content: 'Piano lessons start on Monday.' })
+
+    expect(await store.recall('quantum chromodynamics', { threshold: 0.5 })).toEqual([])
+    expect(await store.recall('piano', { threshold: 0.1, limit: 1 })).toHaveLength(1)
+
+    const included = await store.recall('piano lessons', { threshold: 0.1 })
+    expect(included[0]).toMatchObject({ turnId, content: 'Piano lessons start on Monday.' })
+  })
+
+  it('stores one row per chunk', async () => {
+    const store = createMemoryStore({ db, embed: fakeEmbed, dimension: 768, chunk: { maxLength: 20, overlap: 0 } })
+    const result = await store.remember({ role: 'assistant', source: 'stage-web', content: 'First part here. Second part there.' })
+
+    expect(result.chunks).toBe(2)
+  })
+})
+
+describe('registerMemoryHandlers', () => {
+  const configure = { config: { connectionString: 'postgres://memory', embedding: { baseURL: 'http://localhost/v1/', model: 'fake', dimension: 768 }, recall: { threshold: 0.1 } } }
+
+  let pg: PGlite
+  let db: Database
+  let client: ReturnType<typeof createMockClient>
+  let connect: Mock<NonNullable<MemoryHandlersOptions['connect']>>
+
+  beforeEach(() => {
+    pg = new PGlite({ extensions: { vector } })
+    db = drizzle(pg, { schema })
+    client = createMockClient()
+    connect = vi.fn(() => ({ db, close: async () => {} }))
+    registerMemoryHandlers(client as unknown as Client<MemoryPgvectorConfig>, { connect, createEmbedder: () => fakeEmbed })
+  })
+
+  afterEach(async () => {
+    await pg.close()
+  })
+
+  it('does nothing before being configured', async () => {
+    await client.dispatch('module:configure', { config: { connectionString: 'postgres://memory' } })
+    await client.dispatch('input:text', { text: 'My cat is called Mochi.' })
+
+    expect(connect).not.toHaveBeenCalled()
+    expect(client.send).not.toHaveBeenCalled()
+  })
+
+  it('creates the tables of the configured database', async () => {
+    await client.dispatch('module:configure', configure)
+
+    expect(connect).toHaveBeenCalledWith('postgres://memory')
+    expect(await db.select().from(schema.memoryChunksTable)).toEqual([])
+  })
+
+  it('remembers replies and inputs, and recalls memories before remembering the input', async () => {
+    await client.dispatch('module:configure', configure)
+    await client.dispatch('output:gen-ai:chat:complete', { message: { role: 'assistant', content: [{ type: 'text', text: 'Mochi the cat loves tuna.' }] } })
+    await client.dispatch('output:gen-ai:chat:complete', { message: { role: 'assistant', content: '  ' } })
+
+    await client.dispatch('input:text', { text: 'What does Mochi the cat love?' })
+
+    const [update] = sentOf(client, 'context:update')
+    expect(sentOf(client, 'context:update')).toHaveLength(1)
+    expect(update).toMatchObject({ contextId: 'memory-pgvector:recall', lane: 'memory', metadata: { memoryIds: [expect.any(String)] } })
+    expect(update.text).toContain('assistant (stage-web): Mochi the cat loves tuna.')
+    expect(update.text).not.toContain('What does Mochi the cat love?')
+
+    const rows = await db.select().from(schema.memoryChunksTable)
+    expect(rows.map(row => [row.role, row.content])).toEqual([
+      ['assistant', 'Mochi the cat loves tuna.'],
+      ['user', 'What does Mochi the cat love?'],
+    ])
+    expect(rows[1].turn_id).toBe(update.metadata.turnId)
+  })
+
+  it('sends no context update when nothing is recalled', async () => {
+    await client.dispatch('module:configure', configure)
+    await client.dispatch('input:text', { text: 'Hello there' })
+
+    expect(client.send).not.toHaveBeenCalled()
+    expect(await db.select().from(schema.memoryChunksTable)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,130 @@
+import type { SQL } from 'drizzle-orm'
+
+import type { ChunkOptions } from './chunk'
+import type { Database } from './db'
+import type { Embedder, EmbeddingDimension } from './embedder'
+
+import { and, cosineDistance, desc, gt, isNotNull, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+
+import { chunkText } from './chunk'
+import { memoryChunksTable } from './db/schema'
+
+export interface MemoryTurn {
+  /**
+   * Identifies the turn all of its chunks belong to, generated when omitted.
+   */
+  turnId?: string
+  role: 'user' | 'assistant'
+  /**
+   * Name of the module the turn came from.
+   */
+  source: string
+  content: string
+}
+
+export interface RecalledMemory {
+  id: string
+  turnId: string
+  role: string
+  source: string
+  content: string
+  createdAt: number
+  similarity: number
+}
+
+export interface RecallOptions {
+  /**
+   * @default 5
+   */
+  limit?: number
+  /**
+   * Minimum cosine similarity for a chunk to be recalled.
+   * @default 0.5
+   */
+  threshold?: number
+}
+
+export interface MemoryStoreOptions {
+  db: Database
+  embed: Embedder
+  dimension: EmbeddingDimension
+  chunk?: ChunkOptions
+}
+
+export interface MemoryStore {
+  remember: (turn: MemoryTurn) => Promise<{ turnId: string, chunks: number }>
+  recall: (query: string, options?: RecallOptions) => Promise<RecalledMemory[]>
+}
+
+function vectorColumnOf(dimension: EmbeddingDimension) {
+  switch (dimension) {
+    case 1536:
+      return memoryChunksTable.content_vector_1536
+    case 1024:
+      return memoryChunksTable.content_vector_1024
+    case 768:
+      return memoryChunksTable.content_vector_768
+    default:
+      throw new Error(`Unsupported embedding dimension: ${dimension}`)
+  }
+}
+
+export function createMemoryStore(options: MemoryStoreOptions): MemoryStore {
+  const { db, embed, dimension } = options
+  const vectorColumn = vectorColumnOf(dimension)
+
+  return {
+    async remember(turn) {
+      const turnId = turn.turnId ?? nanoid()
+      const chunks = chunkText(turn.content, options.chunk)
+      if (chunks.length === 0)
+        return { turnId, chunks: 0 }
+
+      const embeddings = await embed(chunks)
+      const createdAt = Date.now()
+
+      await db
+        .insert(memoryChunksTable)
+        .values(chunks.map((content, index) => ({
+          turn_id: turnId,
+          chunk_index: index,
+          role: turn.role,
+          source: turn.source,
+          content,
+          created_at: createdAt,
+          [vectorColumn.name]: embeddings[index],
+        })))
+
+      return { turnId, chunks: chunks.length }
+    },
+
+    async recall(query, recallOptions) {
+      if (!query.trim())
+        return []
+
+      const [embedding] = await embed([query])
+      const similarity: SQL<number> = sql<number>`(1 - (${cosineDistance(vectorColumn, embedding)}))`
+
+      const rows = await db
+        .select({
+          id: memoryChunksTable.id,
+          turnId: memoryChunksTable.turn_id,
+          role: memoryChunksTable.role,
+          source: memoryChunksTable.source,
+          content: memoryChunksTable.content,
+          createdAt: memoryChunksTable.created_at,
+          similarity: sql<number>`${similarity}`.mapWith(Number).as('similarity'),
+        })
+        .from(memoryChunksTable)
+        .where(and(
+          isNotNull(vectorColumn),
+          gt(similarity, recallOptions?.threshold ?? 0.5),
+        ))
+        .orderBy(desc(sql`similarity`))
+        .limit(recallOptions?.limit ?? 5)
+
+      return rows
+    },
+  }
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // PGlite boots a whole Postgres in WASM
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+})
@@ -0,0 +1,99 @@
+import type { RecordedPeer, WebSocketEvent, WebSocketEvents } from '@proj-airi/server-shared/types'
+import type { H3 } from 'h3'
+
+import type { AuthenticatedPeer, ModuleStats } from '../types'
+
+import { WebSocketEventSource } from '@proj-airi/server-shared/types'
+import { HTTPError, readBody } from 'h3'
+
+import { tokensMatch } from '../auth'
+
+export interface AdminRoutesContext {
+  /**
+   * Bearer token required for every request, the API is disabled when empty.
+   */
+  token?: string
+  peers: Map<string, AuthenticatedPeer>
+  moduleStats: Map<string, ModuleStats>
+  routeEvent: (event: WebSocketEvent, from: RecordedPeer) => Array<RecordedPeer>
+  configureModule: (data: WebSocketEvents['ui:configure'], source: string, from: RecordedPeer) => string | undefined
+}
+
+// event types handled by the server-runtime itself, they can't be injected into the bus
+const CONTROL_EVENT_TYPES = new Set<string>([
+  'error',
+  'module:authenticate',
+  'module:authenticated',
+  'module:announce',
+  'module:configure',
+  'module:joined',
+  'module:left',
+  'heartbeat:ping',
+  'heartbeat:pong',
+])
+
+const ADMIN_PEER: RecordedPeer = { id: 'admin', name: 'admin' }
+
+/**
+ * Registers the HTTP admin / introspection API:
+ *
+ * - `GET /api/peers` lists connected peers.
+ * - `GET /api/modules/stats` returns message counters per module.
+ * - `POST /api/events` injects an event into the bus, `ui:configure` is forwarded
+ *   as `module:configure` to the targeted module.
+ */
+export function registerAdminRoutes(app: H3, context: AdminRoutesContext) {
+  app.use('/api/**', (event, next) => {
+    if (!context.token) {
+      throw new HTTPError({ status: 403, message: 'the admin API is disabled, set ADMIN_TOKEN to enable it' })
+    }
+    if (!tokensMatch(`Bearer ${context.token}`, event.req.headers.get('authorization'))) {
+      throw new HTTPError({ status: 401, message: 'invalid or missing admin token' })
+    }
+
+    return next()
+  })
+
+  app.get('/api/peers', () => {
+    return {
+      peers: Array.from(context.peers.values()).map(p => ({
+        id: p.peer.id,
+        name: p.name,
+        index: p.index,
+        authenticated: p.authenticated,
+        identity: p.identity?.id,
+        connectedAt: p.connectedAt,
+        lastSeenAt: p.lastSeenAt,
+      })),
+    }
+  })
+
+  app.get('/api/modules/stats', () => {
+    return { modules: Object.fromEntries(context.moduleStats) }
+  })
+
+  app.post('/api/events', async (event) => {
+    const body = await readBody<Partial<WebSocketEvent>>(event)
+    if (!body || typeof body.type !== 'string' || !body.type) {
+      throw new HTTPError({ status: 400, message: 'the field \'type\' must be a non-empty string' })
+    }
+    if (CONTROL_EVENT_TYPES.has(body.type)) {
+      throw new HTTPError({ status: 400, message: `the event type '${body.type}' is handled by the server-runtime and can't be injected` })
+    }
+
+    const source = typeof body.source === 'string' && body.source ? body.source : WebSocketEventSource.Server
+
+    if (body.type === 'ui:configure') {
+      const errorMessage = context.configureModule((body.data ?? {}) as WebSocketEvents['ui:configure'], source, ADMIN_PEER)
+      if (errorMessage) {
+        throw new HTTPError({ status: 400, message: errorMessage })
+      }
+
+      return { delivered: 1 }
+    }
+
+    const delivered = context.routeEvent({ type: body.type, data: body.data, source } as WebSocketEvent, ADMIN_PEER)
+
+    return { delivered: delivered.length, peers: delivered }
+  })
+}
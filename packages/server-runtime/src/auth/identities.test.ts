@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+
+import { canAnnounceAs, canReceive, canSend, findModuleIdentity, tokensMatch, validateModuleIdentities } from './identities'
+
+describe('validateModuleIdentities', () => {
+  it('reads lists and objects holding them', () => {
+    const identities = [{ token: 'a', modules: ['minecraft'] }, { id: 'discord', token: 'b' }]
+
+    expect(validateModuleIdentities(identities)).toEqual([
+      { id: '#0', token: 'a', modules: ['minecraft'], send: undefined, receive: undefined },
+      { id: 'discord', token: 'b', modules: undefined, send: undefined, receive: undefined },
+    ])
+    expect(validateModuleIdentities({ identities })).toHaveLength(2)
+  })
+
+  it('refuses duplicate tokens and malformed lists', () => {
+    expect(() => validateModuleIdentities([{ token: 'a' }, { token: 'a' }])).toThrow('already used by another identity')
+    expect(() => validateModuleIdentities([{ token: '' }])).toThrow('\'token\' must be a non-empty string')
+    expect(() => validateModuleIdentities([{ token: 'a', send: 'spark:notify' }])).toThrow('\'send\' must be an array')
+    expect(() => validateModuleIdentities('a')).toThrow('must be an array')
+  })
+})
+
+describe('tokens', () => {
+  it('matches tokens of any length', () => {
+    expect(tokensMatch('secret', 'secret')).toBe(true)
+    expect(tokensMatch('secret', 'secret-but-longer')).toBe(false)
+    expect(tokensMatch('secret', undefined)).toBe(false)
+  })
+
+  it('finds the identity owning the token', () => {
+    const identities = validateModuleIdentities([{ id: 'minecraft', token: 'a' }, { id: 'discord', token: 'b' }])
+
+    expect(findModuleIdentity(identities, 'b')?.id).toBe('discord')
+    expect(findModuleIdentity(identities, 'c')).toBeUndefined()
+  })
+})
+
+describe('acl', () => {
+  const [minecraft, wildcard] = validateModuleIdentities([
+    { token: 'a', modules: ['minecraft'], send: ['spark:notify'], receive: ['spark:command'] },
+    { token: 'b', modules: ['*'], send: ['*'], receive: ['*'] },
+  ])
+
+  it('restricts identities to their lists', () => {
+    expect(canAnnounceAs(minecraft, 'minecraft')).toBe(true)
+    expect(canAnnounceAs(minecraft, 'discord-bot')).toBe(false)
+    expect(canSend(minecraft, 'spark:notify')).toBe(true)
+    expect(canSend(minecraft, 'input:text')).toBe(false)
+    expect(canReceive(minecraft, 'spark:command')).toBe(true)
+    expect(canReceive(minecraft, 'input:voice')).toBe(false)
+  })
+
+  it('doesn\'t restrict wildcards, omitted lists or the shared token', () => {
+    expect(canAnnounceAs(wildcard, 'discord-bot')).toBe(true)
+    expect(canSend(wildcard, 'input:text')).toBe(true)
+    expect(canReceive(wildcard, 'input:voice')).toBe(true)
+    expect(canSend({ id: 'open', token: 'c' }, 'input:text')).toBe(true)
+    expect(canAnnounceAs(undefined, 'minecraft')).toBe(true)
+  })
+})
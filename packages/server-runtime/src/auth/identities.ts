@@ -0,0 +1,138 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+
+/**
+ * A module identity, authenticating with its own token and restricted
+ * to the module names and event types listed here.
+ *
+ * Omitted lists, or lists containing `'*'`, don't restrict anything.
+ *
+ * @example
+ * {
+ *   "id": "minecraft",
+ *   "token": "<random token>",
+ *   "modules": ["minecraft-bot"],
+ *   "send": ["spark:notify", "spark:emit", "context:update"],
+ *   "receive": ["spark:command", "spark:emit", "context:update"]
+ * }
+ */
+export interface ModuleIdentity {
+  /**
+   * Human readable identifier, used in logs.
+   */
+  id: string
+  token: string
+  /**
+   * Module names this identity may announce itself as.
+   */
+  modules?: Array<string>
+  /**
+   * Event types this identity may send.
+   */
+  send?: Array<string>
+  /**
+   * Event types this identity may receive.
+   */
+  receive?: Array<string>
+}
+
+function validateStringList(value: unknown, field: string, position: number): Array<string> | undefined {
+  if (typeof value === 'undefined') {
+    return undefined
+  }
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.length > 0)) {
+    throw new TypeError(`the field '${field}' must be an array of non-empty strings for identity #${position}`)
+  }
+
+  return value
+}
+
+export function validateModuleIdentities(value: unknown): Array<ModuleIdentity> {
+  const list = (typeof value === 'object' && value !== null && !Array.isArray(value))
+    ? (value as { identities?: unknown }).identities
+    : value
+
+  if (!Array.isArray(list)) {
+    throw new TypeError('module identities must be an array, or an object with an \'identities\' array')
+  }
+
+  const tokens = new Set<string>()
+
+  return list.map((item, position) => {
+    if (typeof item !== 'object' || item === null) {
+      throw new TypeError(`identity #${position} must be an object`)
+    }
+
+    const { id, token, modules, send, receive } = item as Record<string, unknown>
+    if (typeof token !== 'string' || !token) {
+      throw new TypeError(`the field 'token' must be a non-empty string for identity #${position}`)
+    }
+    if (tokens.has(token)) {
+      throw new TypeError(`the field 'token' of identity #${position} is already used by another identity`)
+    }
+
+    tokens.add(token)
+
+    return {
+      id: typeof id === 'string' && id ? id : `#${position}`,
+      token,
+      modules: validateStringList(modules, 'modules', position),
+      send: validateStringList(send, 'send', position),
+      receive: validateStringList(receive, 'receive', position),
+    }
+  })
+}
+
+export function loadModuleIdentities(path: string): Array<ModuleIdentity> {
+  const content = readFileSync(path, 'utf-8')
+
+  try {
+    return validateModuleIdentities(JSON.parse(content))
+  }
+  catch (err) {
+    throw new Error(`failed to load module identities from ${path}: ${err instanceof Error ? err.message : String(err)}`, { cause: err })
+  }
+}
+
+function digestOf(token: string) {
+  return createHash('sha256').update(token).digest()
+}
+
+/**
+ * Compares the tokens in constant time, they're hashed first as `timingSafeEqual`
+ * only compares buffers of the same length.
+ */
+export function tokensMatch(expected: string, token: unknown): boolean {
+  return typeof token === 'string' && timingSafeEqual(digestOf(expected), digestOf(token))
+}
+
+/**
+ * Finds the identity owning the token, every identity is compared so the time taken
+ * doesn't tell which one matched.
+ */
+export function findModuleIdentity(identities: Array<ModuleIdentity>, token: unknown): ModuleIdentity | undefined {
+  let found: ModuleIdentity | undefined
+  for (const identity of identities) {
+    if (tokensMatch(identity.token, token) && !found) {
+      found = identity
+    }
+  }
+
+  return found
+}
+
+function allows(list: Array<string> | undefined, value: string): boolean {
+  return !list || list.includes('*') || list.includes(value)
+}
+
+export function canAnnounceAs(identity: ModuleIdentity | undefined, name: string): boolean {
+  return allows(identity?.modules, name)
+}
+
+export function canSend(identity: ModuleIdentity | undefined, type: string): boolean {
+  return allows(identity?.send, type)
+}
+
+export function canReceive(identity: ModuleIdentity | undefined, type: string): boolean {
+  return allows(identity?.receive, type)
+}
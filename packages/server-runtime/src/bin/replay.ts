@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+import type { RecordedEvent } from '@proj-airi/server-shared/types'
+
+import process, { env } from 'node:process'
+
+import { parseArgs } from 'node:util'
+
+import { Format, LogLevel, setGlobalFormat, setGlobalLogLevel, useLogg } from '@guiiai/logg'
+import { Client } from '@proj-airi/server-sdk'
+import { readRecording, replayRecording } from '@proj-airi/server-sdk/utils/node'
+
+setGlobalFormat(Format.Pretty)
+setGlobalLogLevel(LogLevel.Log)
+
+const log = useLogg('@proj-airi/server-runtime:replay').useGlobalConfig()
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: 'string', default: env.AIRI_WS_URL || `ws://localhost:${env.PORT || 6121}/ws` },
+    token: { type: 'string', default: env.AUTHENTICATION_TOKEN },
+    name: { type: 'string', default: 'replay' },
+    speed: { type: 'string', default: '1' },
+    from: { type: 'string', multiple: true },
+    type: { type: 'string', multiple: true },
+  },
+})
+
+const file = positionals.at(0)
+if (!file) {
+  console.error('Usage: server-runtime-replay <recording.jsonl> [--url ws://localhost:6121/ws] [--token <token>] [--speed 1] [--from <module>...] [--type <event type>...]')
+  process.exit(1)
+}
+
+const speed = Number(values.speed)
+if (!Number.isFinite(speed) || speed < 0) {
+  console.error(`invalid speed '${values.speed}', must be a non-negative number`)
+  process.exit(1)
+}
+
+function filter(entry: RecordedEvent) {
+  if (values.from?.length && !values.from.includes(entry.from.name)) {
+    return false
+  }
+  if (values.type?.length && !values.type.includes(entry.event.type)) {
+    return false
+  }
+
+  return true
+}
+
+async function main() {
+  const client = new Client({ name: values.name, url: values.url, token: values.token })
+
+  log.withFields({ file, url: values.url, speed }).log('replaying recording')
+
+  const count = await replayRecording(client, readRecording(file!), {
+    speed,
+    filter,
+    onEvent: entry => log.withFields({ type: entry.event.type, from: entry.from.name }).debug('replayed event'),
+  })
+
+  log.withFields({ count }).log('replay finished')
+
+  // events replayed before the connection was authenticated are still buffered,
+  // and the close handshake only completes once everything sent has reached the server
+  await client.drain()
+  await client.close()
+  process.exit(0)
+}
+
+main().catch((err) => {
+  log.withError(err).error('replay failed')
+  process.exit(1)
+})
@@ -1,15 +1,28 @@
 #!/usr/bin/env tsx
 
-import { env } from 'node:process'
+import process, { env } from 'node:process'
 
 import { plugin as ws } from 'crossws/server'
 import { serve } from 'h3'
 
-import { app } from '..'
+import { setupApp } from '..'
 
-serve(app, {
+const app = setupApp()
+
+const server = serve(app, {
   // TODO: fix types
   // @ts-expect-error - the .crossws property wasn't extended in types
   plugins: [ws({ resolve: async req => (await app.fetch(req)).crossws })],
   port: env.PORT ? Number(env.PORT) : 6121,
+  // handled below, so the recording is flushed before exiting
+  gracefulShutdown: false,
 })
+
+async function shutdown() {
+  await server.close(true)
+  await app.close()
+  process.exit(0)
+}
+
+process.once('SIGINT', shutdown)
+process.once('SIGTERM', shutdown)
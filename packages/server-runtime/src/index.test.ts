@@ -0,0 +1,380 @@
+import type { Hooks, Message, Peer } from 'crossws'
+
+import { randomUUID } from 'node:crypto'
+import { mkdtemp, readFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { LogLevelString } from '@guiiai/logg'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { setupApp } from '.'
+
+interface ReceivedEvent {
+  type: string
+  data: any
+  source: string
+}
+
+function messageOf(raw: string | Uint8Array): Message {
+  return {
+    rawData: raw,
+    json: () => JSON.parse(raw as string),
+    uint8Array: () => raw as Uint8Array,
+  } as unknown as Message
+}
+
+/**
+ * Runs `setupApp` in-process and connects fake peers straight to its WebSocket hooks.
+ */
+async function createHub(options: Parameters<typeof setupApp>[0] = {}) {
+  const app = setupApp({
+    heartbeat: { interval: 0 },
+    ...options,
+    logger: { app: { level: LogLevelString.Error } },
+  })
+  const hooks = ((await app.fetch(new Request('http://localhost/ws'))) as Response & { crossws: Partial<Hooks> }).crossws
+
+  function connect() {
+    const received: Array<ReceivedEvent> = []
+    const frames: Array<Uint8Array> = []
+    const peer = {
+      id: randomUUID(),
+      remoteAddress: '127.0.0.1',
+      request: new Request('http://localhost/ws'),
+      send: (data: string | Uint8Array) => typeof data === 'string' ? received.push(JSON.parse(data)) : frames.push(data),
+      close: vi.fn(),
+    } as unknown as Peer
+
+    hooks.open!(peer)
+
+    return {
+      peer,
+      received,
+      frames,
+      receivedOf: (type: string) => received.filter(event => event.type === type),
+      send: (type: string, data: unknown = {}) => hooks.message!(peer, messageOf(JSON.stringify({ type, data, source: 'test' }))),
+      sendRaw: (raw: string | Uint8Array) => hooks.message!(peer, messageOf(raw)),
+      announce: (name: string, data: Record<string, unknown> = {}) => hooks.message!(peer, messageOf(JSON.stringify({ type: 'module:announce', data: { name, ...data }, source: name }))),
+      close: () => hooks.close!(peer, {}),
+    }
+  }
+
+  return { app, connect }
+}
+
+describe('setupApp', () => {
+  describe('routing', () => {
+    it('broadcasts events without destinations to every other peer', async () => {
+      const hub = await createHub()
+      const sender = hub.connect()
+      const named = hub.connect()
+      const unnamed = hub.connect()
+      sender.announce('stage-web')
+      named.announce('minecraft')
+
+      sender.send('input:text', { text: 'hello' })
+
+      expect(named.receivedOf('input:text')).toHaveLength(1)
+      expect(unnamed.receivedOf('input:text')).toHaveLength(1)
+      expect(sender.receivedOf('input:text')).toHaveLength(0)
+    })
+
+    it('delivers events with destinations to the named modules only', async () => {
+      const hub = await createHub()
+      const sender = hub.connect()
+      const minecraft = hub.connect()
+      const discord = hub.connect()
+      const unnamed = hub.connect()
+      sender.announce('stage-web')
+      minecraft.announce('minecraft')
+      discord.announce('discord-bot')
+
+      sender.send('spark:command', { id: '1', destinations: ['minecraft'] })
+      sender.send('context:update', { id: '2', destinations: { exclude: ['minecraft'] } })
+
+      expect(minecraft.receivedOf('spark:command')).toHaveLength(1)
+      expect(discord.receivedOf('spark:command')).toHaveLength(0)
+      expect(unnamed.receivedOf('spark:command')).toHaveLength(0)
+
+      expect(minecraft.receivedOf('context:update')).toHaveLength(0)
+      expect(discord.receivedOf('context:update')).toHaveLength(1)
+      expect(unnamed.receivedOf('context:update')).toHaveLength(0)
+    })
+
+    it('delivers alarms of the minecraft bot to the stage', async () => {
+      const hub = await createHub()
+      const minecraft = hub.connect()
+      const stage = hub.connect()
+      const discord = hub.connect()
+      minecraft.announce('minecraft-bot')
+      stage.announce('proj-airi:stage-web')
+      discord.announce('discord-bot')
+
+      // What the bot sends by default, and with AIRI_SPARK_DESTINATIONS set
+      minecraft.send('spark:notify', { id: '1', kind: 'alarm', urgency: 'immediate', headline: 'Died', destinations: [] })
+      minecraft.send('spark:notify', { id: '2', kind: 'alarm', urgency: 'immediate', headline: 'Died', destinations: ['proj-airi:stage-web'] })
+
+      expect(stage.receivedOf('spark:notify').map(event => event.data.id)).toEqual(['1', '2'])
+      expect(discord.receivedOf('spark:notify').map(event => event.data.id)).toEqual(['1'])
+    })
+
+    it('reaches unnamed peers when sending to all', async () => {
+      const hub = await createHub()
+      const sender = hub.connect()
+      const unnamed = hub.connect()
+      sender.announce('stage-web')
+
+      sender.send('spark:notify', { id: '1', destinations: { all: true } })
+
+      expect(unnamed.receivedOf('spark:notify')).toHaveLength(1)
+    })
+  })
+
+  describe('capabilities', () => {
+    it('only delivers declared event types to modules consuming explicitly', async () => {
+      const hub = await createHub()
+      const sender = hub.connect()
+      const memory = hub.connect()
+      const legacy = hub.connect()
+      sender.announce('stage-web')
+      memory.announce('memory-pgvector', { consumes: ['input:text'] })
+      legacy.announce('discord-bot', { possibleEvents: ['input:text'] })
+
+      sender.send('input:text', { text: 'hello' })
+      sender.send('input:voice', {})
+
+      expect(memory.receivedOf('input:text')).toHaveLength(1)
+      expect(memory.receivedOf('input:voice')).toHaveLength(0)
+      expect(legacy.receivedOf('input:text')).toHaveLength(1)
+      expect(legacy.receivedOf('input:voice')).toHaveLength(1)
+    })
+
+    it('answers event types not declared in emits with an error', async () => {
+      const hub = await createHub()
+      const sender = hub.connect()
+      const receiver = hub.connect()
+      sender.announce('telegram-bot', { possibleEvents: ['input:text'], emits: ['input:text'] })
+      receiver.announce('stage-web')
+
+      sender.send('input:text', { text: 'hello' })
+      sender.send('context:update', { id: '1' })
+
+      expect(receiver.receivedOf('input:text')).toHaveLength(1)
+      expect(receiver.receivedOf('context:update')).toHaveLength(0)
+      expect(sender.receivedOf('error')).toEqual([expect.objectContaining({ data: { message: expect.stringContaining('context:update') } })])
+    })
+
+    it('lets modules that only list possibleEvents send anything', async () => {
+      const hub = await createHub()
+      const sender = hub.connect()
+      const receiver = hub.connect()
+      sender.announce('discord-bot', { possibleEvents: ['input:text'] })
+      receiver.announce('stage-web')
+
+      sender.send('spark:emit', { id: '1', eventId: '0', state: 'queued' })
+
+      expect(receiver.receivedOf('spark:emit')).toHaveLength(1)
+      expect(sender.receivedOf('error')).toHaveLength(0)
+    })
+  })
+
+  describe('heartbeat', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('answers pings with pongs', async () => {
+      const hub = await createHub()
+      const peer = hub.connect()
+
+      peer.send('heartbeat:ping', { at: 42 })
+
+      expect(peer.receivedOf('heartbeat:pong')).toEqual([expect.objectContaining({ data: { at: 42 } })])
+    })
+
+    it('removes peers that stopped answering pings', async () => {
+      vi.useFakeTimers()
+      const hub = await createHub({ heartbeat: { interval: 1000, timeout: 3000 } })
+      const observer = hub.connect()
+      const peer = hub.connect()
+      observer.announce('stage-web')
+      peer.announce('minecraft')
+      peer.send('heartbeat:pong', { at: 0 })
+
+      vi.advanceTimersByTime(1000)
+      expect(peer.receivedOf('heartbeat:ping')).toHaveLength(1)
+
+      // the observer keeps answering
+      for (let i = 0; i < 4; i++) {
+        observer.send('heartbeat:pong', { at: Date.now() })
+        vi.advanceTimersByTime(1000)
+      }
+
+      expect(peer.peer.close).toHaveBeenCalledWith(1001, 'heartbeat timeout')
+      expect(observer.peer.close).not.toHaveBeenCalled()
+      expect(observer.receivedOf('module:left')).toEqual([expect.objectContaining({ data: { name: 'minecraft' } })])
+    })
+
+    it('keeps peers that never took part in the heartbeat', async () => {
+      vi.useFakeTimers()
+      const hub = await createHub({ heartbeat: { interval: 1000, timeout: 3000 } })
+      const legacy = hub.connect()
+      legacy.announce('discord-bot')
+
+      vi.advanceTimersByTime(10_000)
+
+      expect(legacy.receivedOf('heartbeat:ping').length).toBeGreaterThan(0)
+      expect(legacy.peer.close).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('presence', () => {
+    it('announces modules joining and leaving', async () => {
+      const hub = await createHub()
+      const minecraft = hub.connect()
+      const stage = hub.connect()
+      minecraft.announce('minecraft', { index: 1 })
+      stage.announce('stage-web')
+
+      // modules already live are listed to the new one
+      expect(stage.receivedOf('module:joined')).toEqual([expect.objectContaining({ data: { name: 'minecraft', index: 1 } })])
+      expect(minecraft.receivedOf('module:joined')).toEqual([expect.objectContaining({ data: { name: 'stage-web' } })])
+
+      minecraft.close()
+
+      expect(stage.receivedOf('module:left')).toEqual([expect.objectContaining({ data: { name: 'minecraft', index: 1 } })])
+    })
+
+    it('doesn\'t announce peers replaced by a newer connection leaving', async () => {
+      const hub = await createHub()
+      const stage = hub.connect()
+      const previous = hub.connect()
+      const current = hub.connect()
+      stage.announce('stage-web')
+      previous.announce('minecraft')
+      current.announce('minecraft')
+
+      previous.close()
+
+      expect(stage.receivedOf('module:left')).toHaveLength(0)
+    })
+  })
+
+  describe('identities', () => {
+    const identities = [
+      { id: 'minecraft', token: 'minecraft-token', modules: ['minecraft'], send: ['spark:notify'], receive: ['spark:command'] },
+      { id: 'stage', token: 'stage-token' },
+    ]
+
+    it('refuses unknown tokens', async () => {
+      const hub = await createHub({ auth: { identities } })
+      const peer = hub.connect()
+
+      peer.send('module:authenticate', { token: 'minecraft-token-but-longer' })
+
+      expect(peer.receivedOf('module:authenticated')).toHaveLength(0)
+      expect(peer.receivedOf('error')).toEqual([expect.objectContaining({ data: { message: 'invalid token' } })])
+    })
+
+    it('holds authenticated modules to their identity', async () => {
+      const hub = await createHub({ auth: { identities } })
+      const minecraft = hub.connect()
+      const stage = hub.connect()
+      minecraft.send('module:authenticate', { token: 'minecraft-token' })
+      stage.send('module:authenticate', { token: 'stage-token' })
+      stage.announce('stage-web')
+
+      minecraft.announce('discord-bot')
+      expect(minecraft.receivedOf('error').at(-1)?.data.message).toContain('not allowed to announce as module \'discord-bot\'')
+
+      minecraft.announce('minecraft')
+      minecraft.send('input:text', { text: 'hello' })
+      minecraft.send('spark:notify', { id: '1' })
+      stage.send('spark:command', { id: '2' })
+      stage.send('input:text', { text: 'hello' })
+
+      expect(minecraft.receivedOf('error').at(-1)?.data.message).toContain('not allowed to send \'input:text\'')
+      expect(stage.receivedOf('input:text')).toHaveLength(0)
+      expect(stage.receivedOf('spark:notify')).toHaveLength(1)
+      expect(minecraft.receivedOf('spark:command')).toHaveLength(1)
+      expect(minecraft.receivedOf('input:text')).toHaveLength(0)
+    })
+  })
+
+  describe('recorder', () => {
+    it('records routed events and flushes them on close', async () => {
+      const path = join(await mkdtemp(join(tmpdir(), 'server-runtime-')), 'recording.jsonl')
+      const hub = await createHub({ recorder: { path } })
+      const sender = hub.connect()
+      const receiver = hub.connect()
+      sender.announce('discord-bot')
+      receiver.announce('stage-web')
+
+      sender.send('input:text', { text: 'hello' })
+      await hub.app.close()
+
+      const lines = (await readFile(path, 'utf-8')).trim().split('\n').map(line => JSON.parse(line))
+      expect(lines).toEqual([expect.objectContaining({
+        from: expect.objectContaining({ name: 'discord-bot' }),
+        to: [expect.objectContaining({ name: 'stage-web' })],
+        event: { type: 'input:text', data: { text: 'hello' }, source: 'test' },
+      })])
+    })
+  })
+
+  describe('admin', () => {
+    function request(hub: Awaited<ReturnType<typeof createHub>>, path: string, init: RequestInit = {}, token = 'admin-token') {
+      return hub.app.fetch(new Request(`http://localhost${path}`, {
+        ...init,
+        headers: { 'authorization': `Bearer ${token}`, 'content-type': 'application/json' },
+      }))
+    }
+
+    it('is disabled without a token', async () => {
+      const hub = await createHub()
+
+      expect((await request(hub, '/api/peers')).status).toBe(403)
+      expect((await request(hub, '/api/events', { method: 'POST', body: JSON.stringify({ type: 'input:text', data: {} }) })).status).toBe(403)
+    })
+
+    it('requires the bearer token', async () => {
+      const hub = await createHub({ admin: { token: 'admin-token' } })
+
+      expect((await request(hub, '/api/peers', {}, 'wrong')).status).toBe(401)
+      expect((await request(hub, '/api/peers')).status).toBe(200)
+    })
+
+    it('lists peers and their stats', async () => {
+      const hub = await createHub({ admin: { token: 'admin-token' } })
+      const sender = hub.connect()
+      const receiver = hub.connect()
+      sender.announce('discord-bot')
+      receiver.announce('stage-web')
+      sender.send('input:text', { text: 'hello' })
+
+      const { peers } = await (await request(hub, '/api/peers')).json() as { peers: Array<{ name: string }> }
+      expect(peers.map(peer => peer.name)).toEqual(['discord-bot', 'stage-web'])
+
+      const { modules } = await (await request(hub, '/api/modules/stats')).json() as { modules: Record<string, unknown> }
+      expect(modules['discord-bot']).toMatchObject({ received: 1, sent: 0 })
+      expect(modules['stage-web']).toMatchObject({ received: 0, sent: 1 })
+    })
+
+    it('injects events into the bus', async () => {
+      const hub = await createHub({ admin: { token: 'admin-token' } })
+      const receiver = hub.connect()
+      receiver.announce('minecraft')
+
+      const response = await request(hub, '/api/events', { method: 'POST', body: JSON.stringify({ type: 'spark:command', data: { id: '1', destinations: ['minecraft'] } }) })
+      expect(await response.json()).toMatchObject({ delivered: 1 })
+      expect(receiver.receivedOf('spark:command')).toEqual([expect.objectContaining({ source: 'proj-airi:server-runtime' })])
+
+      await request(hub, '/api/events', { method: 'POST', body: JSON.stringify({ type: 'ui:configure', data: { moduleName: 'minecraft', config: { username: 'airi' } } }) })
+      expect(receiver.receivedOf('module:configure')).toEqual([expect.objectContaining({ data: { config: { username: 'airi' } } })])
+
+      expect((await request(hub, '/api/events', { method: 'POST', body: JSON.stringify({ type: 'module:authenticated', data: {} }) })).status).toBe(400)
+      expect((await request(hub, '/api/events', { method: 'POST', body: JSON.stringify({ data: {} }) })).status).toBe(400)
+    })
+  })
+})
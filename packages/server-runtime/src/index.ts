@@ -1,12 +1,20 @@
-import type { WebSocketEvent } from '@proj-airi/server-shared/types'
+import type { BinaryFrameHeader } from '@proj-airi/server-shared/binary'
+import type { RecordedPeer, WebSocketEvent, WebSocketEvents } from '@proj-airi/server-shared/types'
 
-import type { AuthenticatedPeer, Peer } from './types'
+import type { ModuleIdentity } from './auth'
+import type { Destinations } from './routing'
+import type { AuthenticatedPeer, ModuleStats, Peer } from './types'
 
 import { availableLogLevelStrings, Format, LogLevelString, logLevelStringToLogLevelMap, useLogg } from '@guiiai/logg'
+import { decodeBinaryFrame, isBinaryFrame } from '@proj-airi/server-shared/binary'
 import { WebSocketEventSource } from '@proj-airi/server-shared/types'
 import { defineWebSocketHandler, H3 } from 'h3'
 
+import { registerAdminRoutes } from './admin'
+import { canAnnounceAs, canReceive, canSend, findModuleIdentity, loadModuleIdentities, tokensMatch } from './auth'
 import { optionOrEnv } from './config'
+import { createRecorder } from './recorder'
+import { canConsume, canEmit, matchesDestinations, resolveCapabilities, resolveDestinations } from './routing'
 
 // pre-stringified responses
 const RESPONSES = {
@@ -14,21 +22,82 @@ const RESPONSES = {
   notAuthenticated: JSON.stringify({ type: 'error', data: { message: 'not authenticated' }, source: WebSocketEventSource.Server } satisfies WebSocketEvent),
 }
 
+function toRecordedPeer(p: AuthenticatedPeer): RecordedPeer {
+  return { id: p.peer.id, name: p.name, index: p.index }
+}
+
 // helper send function
 function send(peer: Peer, event: WebSocketEvent<Record<string, unknown>> | string) {
   peer.send(typeof event === 'string' ? event : JSON.stringify(event))
 }
 
+export interface ServerRuntimeApp extends H3 {
+  /**
+   * Stops the heartbeat and flushes the recording, call it once the server stopped serving.
+   */
+  close: () => Promise<void>
+}
+
 export function setupApp(options?: {
   auth?: {
-    token: string
+    /**
+     * Token shared by every module, grants unrestricted access.
+     */
+    token?: string
+    /**
+     * Per-module identities with their own tokens and ACLs.
+     */
+    identities?: Array<ModuleIdentity>
+    /**
+     * Path to a JSON file holding the per-module identities, see {@link ModuleIdentity}.
+     */
+    identitiesFile?: string
+  }
+  heartbeat?: {
+    /**
+     * How often to ping connected peers, in milliseconds. Set to `0` to disable heartbeats.
+     *
+     * @default 15000
+     */
+    interval?: number
+    /**
+     * How long a peer may stay silent before being considered dead and removed, in milliseconds.
+     * Only applies to peers that have taken part in the heartbeat by sending a ping or pong,
+     * clients predating heartbeats are kept until their socket closes.
+     *
+     * @default 45000
+     */
+    timeout?: number
+  }
+  admin?: {
+    /**
+     * Bearer token required by the HTTP admin API under `/api`, falls back to the
+     * shared authentication token. The API is disabled when neither is set.
+     */
+    token?: string
+  }
+  recorder?: {
+    /**
+     * Path of the JSONL file every routed event gets appended to, see `RecordedEvent`.
+     * Recording is disabled when not set.
+     *
+     * Binary frames (e.g. `input:voice` audio chunks) are not recorded, only the JSON
+     * events announcing them, so replays carry no audio.
+     */
+    path?: string
   }
   logger?: {
     app?: { level?: LogLevelString, format?: Format }
     websocket?: { level?: LogLevelString, format?: Format }
   }
-}): H3 {
+}): ServerRuntimeApp {
   const authToken = optionOrEnv(options?.auth?.token, 'AUTHENTICATION_TOKEN', '')
+  const identitiesFile = optionOrEnv(options?.auth?.identitiesFile, 'AUTHENTICATION_IDENTITIES_FILE')
+  const identities = [
+    ...(options?.auth?.identities ?? []),
+    ...(identitiesFile ? loadModuleIdentities(identitiesFile) : []),
+  ]
+  const authRequired = !!authToken || identities.length > 0
 
   const appLogLevel = optionOrEnv(options?.logger?.app?.level, 'LOG_LEVEL', LogLevelString.Log, { validator: (value): value is LogLevelString => availableLogLevelStrings.includes(value as LogLevelString) })
   const appLogFormat = optionOrEnv(options?.logger?.app?.format, 'LOG_FORMAT', Format.Pretty, { validator: (value): value is Format => Object.values(Format).includes(value as Format) })
@@ -38,12 +107,81 @@ export function setupApp(options?: {
   const appLogger = useLogg('@proj-airi/server-runtime').withLogLevel(logLevelStringToLogLevelMap[appLogLevel]).withFormat(appLogFormat)
   const logger = useLogg('@proj-airi/server-runtime:websocket').withLogLevel(logLevelStringToLogLevelMap[websocketLogLevel]).withFormat(websocketLogFormat)
 
+  const recorderPath = optionOrEnv(options?.recorder?.path, 'RECORDER_FILE')
+  const recorder = recorderPath
+    ? createRecorder(recorderPath, { onError: error => appLogger.withError(error).error('failed to write recording') })
+    : undefined
+  if (recorderPath) {
+    appLogger.withFields({ path: recorderPath }).log('recording routed events')
+  }
+
   const app = new H3({
     onError: error => appLogger.withError(error).error('an error occurred'),
   })
 
+  const heartbeatInterval = options?.heartbeat?.interval ?? 15_000
+  const heartbeatTimeout = options?.heartbeat?.timeout ?? 45_000
+
   const peers = new Map<string, AuthenticatedPeer>()
   const peersByModule = new Map<string, Map<number | undefined, AuthenticatedPeer>>()
+  // kept across reconnects, keyed by module name
+  const moduleStats = new Map<string, ModuleStats>()
+
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+
+  function statsOf(name: string): ModuleStats {
+    let stats = moduleStats.get(name)
+    if (!stats) {
+      stats = { received: 0, sent: 0 }
+      moduleStats.set(name, stats)
+    }
+
+    return stats
+  }
+
+  function countReceived(p: AuthenticatedPeer) {
+    if (!p.name) {
+      return
+    }
+
+    const stats = statsOf(p.name)
+    stats.received++
+    stats.lastActivityAt = Date.now()
+  }
+
+  function countSent(p: AuthenticatedPeer) {
+    if (!p.name) {
+      return
+    }
+
+    const stats = statsOf(p.name)
+    stats.sent++
+    stats.lastActivityAt = Date.now()
+  }
+
+  function sendPresence(to: AuthenticatedPeer, type: 'module:joined' | 'module:left', about: AuthenticatedPeer) {
+    if (!to.authenticated || !canConsume(to, type) || !canReceive(to.identity, type)) {
+      return
+    }
+
+    try {
+      send(to.peer, { type, data: { name: about.name, index: about.index }, source: WebSocketEventSource.Server })
+    }
+    catch (err) {
+      logger.withFields({ peer: to.peer.id, peerName: to.name, type }).withError(err as Error).debug('failed to send presence to peer')
+    }
+  }
+
+  function broadcastPresence(type: 'module:joined' | 'module:left', about: AuthenticatedPeer) {
+    for (const other of peers.values()) {
+      // peers not announced yet get the modules live at that point once they announce
+      if (other === about || !other.name) {
+        continue
+      }
+
+      sendPresence(other, type, about)
+    }
+  }
 
   function registerModulePeer(p: AuthenticatedPeer, name: string, index?: number) {
     if (!peersByModule.has(name)) {
@@ -57,6 +195,7 @@ export function setupApp(options?: {
     }
 
     group.set(index, p)
+    broadcastPresence('module:joined', p)
   }
 
   function unregisterModulePeer(p: AuthenticatedPeer) {
@@ -64,29 +203,237 @@ export function setupApp(options?: {
       return
 
     const group = peersByModule.get(p.name)
-    if (group) {
+    // the slot may already be taken over by a newer peer announcing the same identity
+    if (group && group.get(p.index) === p) {
       group.delete(p.index)
 
       if (group.size === 0) {
         peersByModule.delete(p.name)
       }
+
+      broadcastPresence('module:left', p)
+    }
+  }
+
+  function removePeer(id: string) {
+    const p = peers.get(id)
+    if (!p) {
+      return
+    }
+
+    peers.delete(id)
+    unregisterModulePeer(p)
+
+    if (peers.size === 0) {
+      stopHeartbeat()
     }
   }
 
+  function checkHeartbeats() {
+    const now = Date.now()
+    const ping = JSON.stringify({ type: 'heartbeat:ping', data: { at: now }, source: WebSocketEventSource.Server } satisfies WebSocketEvent)
+
+    for (const [id, p] of peers.entries()) {
+      if (p.heartbeats && now - p.lastSeenAt > heartbeatTimeout) {
+        logger.withFields({ peer: id, peerName: p.name, lastSeenAt: p.lastSeenAt }).log('heartbeat timed out, removing peer')
+        removePeer(id)
+
+        try {
+          p.peer.close?.(1001, 'heartbeat timeout')
+        }
+        catch (err) {
+          logger.withFields({ peer: id, peerName: p.name }).withError(err as Error).debug('failed to close timed out peer')
+        }
+
+        continue
+      }
+
+      try {
+        p.peer.send(ping)
+      }
+      catch (err) {
+        logger.withFields({ peer: id, peerName: p.name }).withError(err as Error).error('failed to send heartbeat to peer, removing peer')
+        removePeer(id)
+      }
+    }
+  }
+
+  function startHeartbeat() {
+    if (heartbeatTimer || heartbeatInterval <= 0) {
+      return
+    }
+
+    heartbeatTimer = setInterval(checkHeartbeats, heartbeatInterval)
+  }
+
+  function stopHeartbeat() {
+    if (!heartbeatTimer) {
+      return
+    }
+
+    clearInterval(heartbeatTimer)
+    heartbeatTimer = undefined
+  }
+
+  /**
+   * Forwards the config of `ui:configure` as `module:configure` to the targeted module.
+   *
+   * @returns an error message when the event is invalid or the module can't be found.
+   */
+  function configureModule(data: WebSocketEvents['ui:configure'], source: string, from: RecordedPeer): string | undefined {
+    const { moduleName, moduleIndex, config } = data
+
+    if (!moduleName || typeof moduleName !== 'string') {
+      return 'the field \'moduleName\' can\'t be empty for event \'ui:configure\''
+    }
+    if (typeof moduleIndex !== 'undefined') {
+      if (!Number.isInteger(moduleIndex) || moduleIndex < 0) {
+        return 'the field \'moduleIndex\' must be a non-negative integer for event \'ui:configure\''
+      }
+    }
+
+    const target = peersByModule.get(moduleName)?.get(moduleIndex)
+    if (!target || !canReceive(target.identity, 'module:configure')) {
+      return 'module not found, it hasn\'t announced itself or the name is incorrect'
+    }
+
+    send(target.peer, {
+      type: 'module:configure',
+      data: { config },
+      // NOTICE: here we will forward the source as-is
+      source,
+    })
+    countSent(target)
+
+    recorder?.record({ timestamp: Date.now(), from, to: [toRecordedPeer(target)], event: { type: 'ui:configure', data, source } })
+  }
+
+  /**
+   * Sends the payload to every peer matching the destinations and capabilities
+   * for the event type, except the sender itself.
+   *
+   * @returns the peers the payload has been delivered to.
+   */
+  function deliver(payload: string | Uint8Array, type: string, destinations: Destinations | undefined, from: RecordedPeer, sender?: AuthenticatedPeer): Array<RecordedPeer> {
+    if (destinations) {
+      logger.withFields({ peer: from.id, peerName: from.name, destinations, type }).debug('routing event to destinations')
+    }
+    else {
+      logger.withFields({ peer: from.id, peerName: from.name, type }).debug('broadcasting event to peers')
+    }
+
+    const delivered: Array<RecordedPeer> = []
+
+    for (const [id, other] of peers.entries()) {
+      if (other === sender) {
+        logger.withFields({ peer: from.id, peerName: from.name, type }).debug('not sending event to self')
+        continue
+      }
+      if (!other.authenticated) {
+        continue
+      }
+      if (destinations && !matchesDestinations(destinations, other.name)) {
+        continue
+      }
+      if (!canConsume(other, type) || !canReceive(other.identity, type)) {
+        continue
+      }
+
+      try {
+        logger.withFields({ fromPeer: from.id, fromPeerName: from.name, toPeer: other.peer.id, toPeerName: other.name, type }).debug('sending event to peer')
+        other.peer.send(payload)
+        countSent(other)
+        delivered.push(toRecordedPeer(other))
+      }
+      catch (err) {
+        logger.withFields({ fromPeer: from.id, fromPeerName: from.name, toPeer: other.peer.id, toPeerName: other.name, type }).withError(err as Error).error('failed to send event to peer, removing peer')
+        logger.withFields({ peer: from.id, peerName: other.name }).debug('removing closed peer')
+        removePeer(id)
+      }
+    }
+
+    return delivered
+  }
+
+  /**
+   * Delivers the event to every peer matching its destinations and capabilities,
+   * except the sender itself.
+   *
+   * @returns the peers the event has been delivered to.
+   */
+  function routeEvent(event: WebSocketEvent, from: RecordedPeer, sender?: AuthenticatedPeer): Array<RecordedPeer> {
+    logger.withFields({ peer: from.id, peerName: from.name, event }).debug('routing event')
+
+    const delivered = deliver(JSON.stringify(event), event.type, resolveDestinations(event.data), from, sender)
+    recorder?.record({ timestamp: Date.now(), from, to: delivered, event })
+
+    return delivered
+  }
+
+  /**
+   * Routes a binary frame as-is, using the type and destinations of its header.
+   * Binary frames are not recorded.
+   */
+  function handleBinaryFrame(p: AuthenticatedPeer, frame: Uint8Array) {
+    let header: BinaryFrameHeader
+    try {
+      header = decodeBinaryFrame(frame).header
+    }
+    catch (err) {
+      send(p.peer, { type: 'error', data: { message: `invalid binary frame, error: ${err instanceof Error ? err.message : String(err)}` }, source: WebSocketEventSource.Server })
+
+      return
+    }
+
+    if (!canSend(p.identity, header.type) || !canEmit(p, header.type)) {
+      send(p.peer, {
+        type: 'error',
+        data: { message: `binary frames of '${header.type}' are not allowed for module '${p.name}'` },
+        source: WebSocketEventSource.Server,
+      })
+
+      return
+    }
+
+    countReceived(p)
+    deliver(frame, header.type, resolveDestinations(header), toRecordedPeer(p), p)
+  }
+
   app.get('/ws', defineWebSocketHandler({
     open: (peer) => {
-      if (authToken) {
-        peers.set(peer.id, { peer, authenticated: false, name: '' })
+      if (authRequired) {
+        peers.set(peer.id, { peer, authenticated: false, name: '', connectedAt: Date.now(), lastSeenAt: Date.now() })
       }
       else {
         peer.send(RESPONSES.authenticated)
-        peers.set(peer.id, { peer, authenticated: true, name: '' })
+        peers.set(peer.id, { peer, authenticated: true, name: '', connectedAt: Date.now(), lastSeenAt: Date.now() })
       }
 
+      startHeartbeat()
+
       logger.withFields({ peer: peer.id, activePeers: peers.size }).log('connected')
     },
     message: (peer, message) => {
       const authenticatedPeer = peers.get(peer.id)
+      if (authenticatedPeer) {
+        authenticatedPeer.lastSeenAt = Date.now()
+      }
+
+      if (typeof message.rawData !== 'string') {
+        const frame = message.uint8Array()
+        if (isBinaryFrame(frame)) {
+          if (!authenticatedPeer?.authenticated) {
+            peer.send(RESPONSES.notAuthenticated)
+
+            return
+          }
+
+          handleBinaryFrame(authenticatedPeer, frame)
+
+          return
+        }
+      }
+
       let event: WebSocketEvent
 
       try {
@@ -107,8 +454,27 @@ export function setupApp(options?: {
       }).debug('received event')
 
       switch (event.type) {
+        case 'heartbeat:ping': {
+          if (authenticatedPeer) {
+            authenticatedPeer.heartbeats = true
+          }
+
+          send(peer, { type: 'heartbeat:pong', data: { at: event.data.at }, source: WebSocketEventSource.Server })
+
+          return
+        }
+
+        case 'heartbeat:pong': {
+          if (authenticatedPeer) {
+            authenticatedPeer.heartbeats = true
+          }
+
+          return
+        }
+
         case 'module:authenticate': {
-          if (authToken && event.data.token !== authToken) {
+          const identity = findModuleIdentity(identities, event.data.token)
+          if (authRequired && !identity && (!authToken || !tokensMatch(authToken, event.data.token))) {
             logger.withFields({ peer: peer.id, peerRemote: peer.remoteAddress, peerRequest: peer.request.url }).log('authentication failed')
             send(peer, {
               type: 'error',
@@ -123,6 +489,11 @@ export function setupApp(options?: {
           const p = peers.get(peer.id)
           if (p) {
             p.authenticated = true
+            p.identity = identity
+
+            if (identity) {
+              logger.withFields({ peer: peer.id, identity: identity.id }).log('authenticated with module identity')
+            }
           }
 
           return
@@ -134,10 +505,20 @@ export function setupApp(options?: {
             return
           }
 
+          const { name, index } = event.data as { name: string, index?: number }
+
+          // re-announcing the same identity (e.g. after authentication) only refreshes capabilities
+          if (p.name && p.name === name && p.index === index && peersByModule.get(name)?.get(index) === p) {
+            const { consumes, emits } = resolveCapabilities(event.data)
+            p.consumes = consumes
+            p.emits = emits
+
+            return
+          }
+
           unregisterModulePeer(p)
 
           // verify
-          const { name, index } = event.data as { name: string, index?: number }
           if (!name || typeof name !== 'string') {
             send(peer, {
               type: 'error',
@@ -158,7 +539,7 @@ export function setupApp(options?: {
               return
             }
           }
-          if (authToken && !p.authenticated) {
+          if (authRequired && !p.authenticated) {
             send(peer, {
               type: 'error',
               data: { message: 'must authenticate before announcing' },
@@ -167,54 +548,60 @@ export function setupApp(options?: {
 
             return
           }
+          if (!canAnnounceAs(p.identity, name)) {
+            logger.withFields({ peer: peer.id, identity: p.identity?.id, name }).log('announce rejected by module identity')
+            send(peer, {
+              type: 'error',
+              data: { message: `the identity '${p.identity?.id}' is not allowed to announce as module '${name}'` },
+              source: WebSocketEventSource.Server,
+            })
+
+            return
+          }
+
+          const { consumes, emits } = resolveCapabilities(event.data)
 
           p.name = name
           p.index = index
+          p.consumes = consumes
+          p.emits = emits
 
           registerModulePeer(p, name, index)
 
+          // let the newly announced module know who is already live
+          for (const group of peersByModule.values()) {
+            for (const other of group.values()) {
+              if (other !== p) {
+                sendPresence(p, 'module:joined', other)
+              }
+            }
+          }
+
           return
         }
 
         case 'ui:configure': {
-          const { moduleName, moduleIndex, config } = event.data
+          const p = peers.get(peer.id)
+          if (!p?.authenticated) {
+            peer.send(RESPONSES.notAuthenticated)
 
-          if (moduleName === '') {
+            return
+          }
+          if (!canSend(p.identity, event.type)) {
             send(peer, {
               type: 'error',
-              data: { message: 'the field \'moduleName\' can\'t be empty for event \'ui:configure\'' },
+              data: { message: `the identity '${p.identity?.id}' is not allowed to send '${event.type}'` },
               source: WebSocketEventSource.Server,
             })
 
             return
           }
-          if (typeof moduleIndex !== 'undefined') {
-            if (!Number.isInteger(moduleIndex) || moduleIndex < 0) {
-              send(peer, {
-                type: 'error',
-                data: { message: 'the field \'moduleIndex\' must be a non-negative integer for event \'ui:configure\'' },
-                source: WebSocketEventSource.Server,
-              })
 
-              return
-            }
-          }
+          countReceived(p)
 
-          const target = peersByModule.get(moduleName)?.get(moduleIndex)
-          if (target) {
-            send(target.peer, {
-              type: 'module:configure',
-              data: { config },
-              // NOTICE: here we will forward the source as-is
-              source: event.source,
-            })
-          }
-          else {
-            send(peer, {
-              type: 'error',
-              data: { message: 'module not found, it hasn\'t announced itself or the name is incorrect' },
-              source: WebSocketEventSource.Server,
-            })
+          const errorMessage = configureModule(event.data, event.source, toRecordedPeer(p))
+          if (errorMessage) {
+            send(peer, { type: 'error', data: { message: errorMessage }, source: WebSocketEventSource.Server })
           }
 
           return
@@ -229,43 +616,52 @@ export function setupApp(options?: {
 
         return
       }
+      if (!canSend(p.identity, event.type)) {
+        logger.withFields({ peer: peer.id, peerName: p.name, identity: p.identity?.id, eventType: event.type }).log('event rejected by module identity')
+        send(peer, {
+          type: 'error',
+          data: { message: `the identity '${p.identity?.id}' is not allowed to send '${event.type}'` },
+          source: WebSocketEventSource.Server,
+        })
 
-      const payload = JSON.stringify(event)
-      logger.withFields({ peer: peer.id, peerName: p.name, event }).debug('broadcasting event to peers')
-
-      for (const [id, other] of peers.entries()) {
-        if (id === peer.id) {
-          logger.withFields({ peer: peer.id, peerName: p.name, event }).debug('not sending event to self')
-          continue
-        }
-
-        try {
-          logger.withFields({ fromPeer: peer.id, fromPeerName: p.name, toPeer: other.peer.id, toPeerName: other.name, event }).debug('sending event to peer')
-          other.peer.send(payload)
-        }
-        catch (err) {
-          logger.withFields({ fromPeer: peer.id, fromPeerName: p.name, toPeer: other.peer.id, toPeerName: other.name, event }).withError(err as Error).error('failed to send event to peer, removing peer')
-          logger.withFields({ peer: peer.id, peerName: other.name }).debug('removing closed peer')
-          peers.delete(id)
+        return
+      }
+      if (!canEmit(p, event.type)) {
+        logger.withFields({ peer: peer.id, peerName: p.name, eventType: event.type }).debug('event type not declared by module')
+        send(peer, {
+          type: 'error',
+          data: { message: `event type '${event.type}' was not declared by module '${p.name}' in 'emits' of 'module:announce'` },
+          source: WebSocketEventSource.Server,
+        })
 
-          unregisterModulePeer(other)
-        }
+        return
       }
+
+      countReceived(p)
+      routeEvent(event, toRecordedPeer(p), p)
     },
     error: (peer, error) => {
       logger.withFields({ peer: peer.id }).withError(error).error('an error occurred')
     },
     close: (peer, details) => {
-      const p = peers.get(peer.id)
-      if (p)
-        unregisterModulePeer(p)
+      removePeer(peer.id)
 
       logger.withFields({ peer: peer.id, peerRemote: peer.remoteAddress, details, activePeers: peers.size }).log('closed')
-      peers.delete(peer.id)
     },
   }))
 
-  return app
-}
+  registerAdminRoutes(app, {
+    token: optionOrEnv(options?.admin?.token, 'ADMIN_TOKEN', authToken),
+    peers,
+    moduleStats,
+    routeEvent,
+    configureModule,
+  })
 
-export const app = setupApp() as H3
+  return Object.assign(app, {
+    async close() {
+      stopHeartbeat()
+      await recorder?.close()
+    },
+  })
+}
@@ -0,0 +1,27 @@
+import type { RecordedEvent } from '@proj-airi/server-shared/types'
+
+import { createWriteStream } from 'node:fs'
+
+export interface Recorder<C = undefined> {
+  record: (entry: RecordedEvent<C>) => void
+  close: () => Promise<void>
+}
+
+/**
+ * Appends every recorded event as one JSON line to the file at `path`.
+ */
+export function createRecorder<C = undefined>(path: string, options?: { onError?: (error: Error) => void }): Recorder<C> {
+  const stream = createWriteStream(path, { flags: 'a', encoding: 'utf-8' })
+  if (options?.onError) {
+    stream.on('error', options.onError)
+  }
+
+  return {
+    record(entry) {
+      stream.write(`${JSON.stringify(entry)}\n`)
+    },
+    close() {
+      return new Promise(resolve => stream.end(resolve))
+    },
+  }
+}
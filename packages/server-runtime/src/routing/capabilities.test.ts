@@ -0,0 +1,21 @@
+import type { WebSocketEvents } from '@proj-airi/server-shared/types'
+
+import { describe, expect, it } from 'vitest'
+
+import { resolveCapabilities } from './capabilities'
+
+describe('resolveCapabilities', () => {
+  it('only restricts what is declared explicitly', () => {
+    expect(resolveCapabilities({ consumes: ['input:text'], emits: ['output:gen-ai:chat:message'] })).toEqual({
+      consumes: new Set(['input:text']),
+      emits: new Set(['output:gen-ai:chat:message']),
+    })
+    expect(resolveCapabilities({ consumes: ['input:text'], emits: [] })).toEqual({ consumes: new Set(['input:text']), emits: undefined })
+  })
+
+  it('keeps possibleEvents advisory', () => {
+    const announce: WebSocketEvents['module:announce'] = { name: 'stage-web', possibleEvents: ['ui:configure'] }
+
+    expect(resolveCapabilities(announce)).toEqual({ consumes: undefined, emits: undefined })
+  })
+})
@@ -0,0 +1,36 @@
+import type { AuthenticatedPeer } from '../types'
+
+export interface Capabilities {
+  consumes?: Set<string>
+  emits?: Set<string>
+}
+
+function toEventTypeSet(value: unknown): Set<string> | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined
+  }
+
+  return new Set(value.filter((item): item is string => typeof item === 'string' && item.length > 0))
+}
+
+/**
+ * Resolves what a module consumes and emits from its `module:announce` payload.
+ *
+ * Only explicit `consumes` and `emits` restrict anything, `possibleEvents` stays advisory
+ * as modules written before capabilities existed only list some of their events there.
+ * Empty or missing declarations leave the direction unrestricted.
+ */
+export function resolveCapabilities(data: { consumes?: unknown, emits?: unknown }): Capabilities {
+  return {
+    consumes: toEventTypeSet(data.consumes),
+    emits: toEventTypeSet(data.emits),
+  }
+}
+
+export function canConsume(peer: AuthenticatedPeer, type: string): boolean {
+  return !peer.consumes || peer.consumes.has(type)
+}
+
+export function canEmit(peer: AuthenticatedPeer, type: string): boolean {
+  return !peer.emits || peer.emits.has(type)
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+
+import { matchesDestinations, resolveDestinations } from './destinations'
+
+describe('resolveDestinations', () => {
+  it('broadcasts events without destinations', () => {
+    expect(resolveDestinations(undefined)).toBeUndefined()
+    expect(resolveDestinations('text')).toBeUndefined()
+    expect(resolveDestinations({ text: 'hello' })).toBeUndefined()
+    expect(resolveDestinations({ destinations: [] })).toBeUndefined()
+    expect(resolveDestinations({ destinations: {} })).toBeUndefined()
+    expect(resolveDestinations({ destinations: [1, 2] })).toBeUndefined()
+  })
+
+  it('reads lists and filters', () => {
+    expect(resolveDestinations({ destinations: ['minecraft', 'discord-bot'] })).toEqual(['minecraft', 'discord-bot'])
+    expect(resolveDestinations({ destinations: { all: true } })).toEqual({ all: true })
+    expect(resolveDestinations({ destinations: { include: ['minecraft'], exclude: 'discord-bot' } })).toEqual({ include: ['minecraft'], exclude: undefined })
+    expect(resolveDestinations({ destinations: { exclude: ['discord-bot'] } })).toEqual({ include: undefined, exclude: ['discord-bot'] })
+  })
+})
+
+describe('matchesDestinations', () => {
+  it('matches lists by module name', () => {
+    expect(matchesDestinations(['minecraft'], 'minecraft')).toBe(true)
+    expect(matchesDestinations(['minecraft'], 'discord-bot')).toBe(false)
+  })
+
+  it('matches include and exclude filters', () => {
+    expect(matchesDestinations({ include: ['minecraft', 'discord-bot'], exclude: ['discord-bot'] }, 'minecraft')).toBe(true)
+    expect(matchesDestinations({ include: ['minecraft', 'discord-bot'], exclude: ['discord-bot'] }, 'discord-bot')).toBe(false)
+    expect(matchesDestinations({ include: ['minecraft'] }, 'telegram-bot')).toBe(false)
+    expect(matchesDestinations({ exclude: ['minecraft'] }, 'telegram-bot')).toBe(true)
+  })
+
+  it('only matches unnamed peers when sending to all', () => {
+    expect(matchesDestinations({ all: true }, '')).toBe(true)
+    expect(matchesDestinations([''], '')).toBe(false)
+    expect(matchesDestinations({ exclude: ['minecraft'] }, '')).toBe(false)
+  })
+})
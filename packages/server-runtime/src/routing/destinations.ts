@@ -0,0 +1,63 @@
+import type { ContextUpdateDestinationFilter } from '@proj-airi/server-shared/types'
+
+export type Destinations = Array<string> | ContextUpdateDestinationFilter
+
+function isStringArray(value: unknown): value is Array<string> {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+/**
+ * Extracts the `destinations` field carried by routable events
+ * (`spark:notify`, `spark:emit`, `spark:command`, `context:update`).
+ *
+ * Returns `undefined` when the event doesn't specify any destination,
+ * in which case the event should be broadcast.
+ */
+export function resolveDestinations(data: unknown): Destinations | undefined {
+  if (typeof data !== 'object' || data === null || !('destinations' in data)) {
+    return undefined
+  }
+
+  const destinations = (data as { destinations?: unknown }).destinations
+  if (isStringArray(destinations)) {
+    return destinations.length > 0 ? destinations : undefined
+  }
+  if (typeof destinations !== 'object' || destinations === null) {
+    return undefined
+  }
+  if ('all' in destinations && destinations.all === true) {
+    return { all: true }
+  }
+
+  const { include, exclude } = destinations as { include?: unknown, exclude?: unknown }
+  if (!isStringArray(include) && !isStringArray(exclude)) {
+    return undefined
+  }
+
+  return {
+    include: isStringArray(include) ? include : undefined,
+    exclude: isStringArray(exclude) ? exclude : undefined,
+  }
+}
+
+/**
+ * Whether a module with the given name is targeted by the destinations.
+ *
+ * Peers that haven't announced themselves (empty name) are never matched.
+ */
+export function matchesDestinations(destinations: Destinations, moduleName: string): boolean {
+  if (Array.isArray(destinations)) {
+    return !!moduleName && destinations.includes(moduleName)
+  }
+  if ('all' in destinations) {
+    return true
+  }
+  if (!moduleName) {
+    return false
+  }
+  if (destinations.include?.length && !destinations.include.includes(moduleName)) {
+    return false
+  }
+
+  return !destinations.exclude?.includes(moduleName)
+}
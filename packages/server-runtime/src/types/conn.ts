@@ -1,3 +1,5 @@
+import type { ModuleIdentity } from '../auth'
+
 export interface Peer {
   /**
    * Unique random [uuid v4](https://developer.mozilla.org/en-US/docs/Glossary/UUID) identifier for the peer.
@@ -6,6 +8,7 @@ export interface Peer {
   send: (data: unknown, options?: {
     compress?: boolean
   }) => number | void | undefined
+  close?: (code?: number, reason?: string) => void
   /**
    * WebSocket lifecycle state (mirrors WebSocket.readyState)
    */
@@ -27,4 +30,42 @@ export enum WebSocketReadyState {
 
 export interface AuthenticatedPeer extends NamedPeer {
   authenticated: boolean
+  /**
+   * Identity matched by the token in `module:authenticate`, `undefined` when
+   * authenticated with the shared token or when authentication is disabled.
+   */
+  identity?: ModuleIdentity
+  /**
+   * Timestamp of when the peer connected.
+   */
+  connectedAt: number
+  /**
+   * Timestamp of the last frame received from the peer, used for heartbeat timeouts.
+   */
+  lastSeenAt: number
+  /**
+   * Whether the peer has sent a `heartbeat:ping` or `heartbeat:pong`, only such peers
+   * are removed on heartbeat timeouts as older clients never answer pings.
+   */
+  heartbeats?: boolean
+  /**
+   * Event types the module declared to consume, `undefined` means everything.
+   */
+  consumes?: Set<string>
+  /**
+   * Event types the module declared to emit, `undefined` means everything.
+   */
+  emits?: Set<string>
+}
+
+export interface ModuleStats {
+  /**
+   * Events received from the module.
+   */
+  received: number
+  /**
+   * Events delivered to the module.
+   */
+  sent: number
+  lastActivityAt?: number
 }
@@ -4,6 +4,7 @@ export default defineConfig({
   entry: {
     'index': 'src/index.ts',
     'bin/run': 'src/bin/run.ts',
+    'bin/replay': 'src/bin/replay.ts',
   },
   target: 'node18',
   outDir: 'dist',
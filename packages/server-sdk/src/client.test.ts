@@ -0,0 +1,256 @@
+import type { WebSocketEvent, WebSocketEvents } from '@proj-airi/server-shared/types'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { Client, RequestError } from './client'
+
+const { FakeWebSocket } = vi.hoisted(() => {
+  class FakeWebSocket {
+    static readonly CONNECTING = 0
+    static readonly OPEN = 1
+    static readonly CLOSING = 2
+    static readonly CLOSED = 3
+    static instances: Array<FakeWebSocket> = []
+
+    readyState = FakeWebSocket.CONNECTING
+    binaryType = 'blob'
+    sent: Array<any> = []
+    onopen: ((event: unknown) => void) | null = null
+    onmessage: ((event: { data: unknown }) => void) | null = null
+    onerror: ((event: unknown) => void) | null = null
+    onclose: ((event: unknown) => void) | null = null
+
+    constructor(readonly url: string) {
+      FakeWebSocket.instances.push(this)
+    }
+
+    send(data: string) {
+      this.sent.push(JSON.parse(data))
+    }
+
+    close() {
+      this.readyState = FakeWebSocket.CLOSED
+      this.onclose?.({})
+    }
+
+    /**
+     * Opens the socket and authenticates it the way the server-runtime does.
+     */
+    accept() {
+      this.readyState = FakeWebSocket.OPEN
+      this.onopen?.({})
+      this.receive({ type: 'module:authenticated', data: { authenticated: true } })
+    }
+
+    receive(event: { type: string, data: unknown, source?: string }) {
+      this.onmessage?.({ data: JSON.stringify({ source: 'proj-airi:server-runtime', ...event }) })
+    }
+
+    sentOf(type: string) {
+      return this.sent.filter(event => event.type === type)
+    }
+  }
+
+  return { FakeWebSocket }
+})
+
+vi.mock('crossws/websocket', () => ({ default: FakeWebSocket }))
+
+function notifyOf(id: string, fields: Partial<WebSocketEvents['spark:notify']> = {}): WebSocketEvent & { type: 'spark:notify' } {
+  return {
+    type: 'spark:notify',
+    data: { id, eventId: id, kind: 'alarm', urgency: 'immediate', headline: 'under attack', destinations: ['stage-web'], ...fields },
+    source: 'minecraft',
+  }
+}
+
+async function connect(client: Client) {
+  void client.connect()
+  await vi.advanceTimersByTimeAsync(0)
+
+  const socket = FakeWebSocket.instances.at(-1)!
+  socket.accept()
+
+  return socket
+}
+
+describe('client', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    FakeWebSocket.instances = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('outbox', () => {
+    it('sends events buffered while offline once authenticated, in order', async () => {
+      const client = new Client({ name: 'minecraft', autoConnect: false, heartbeat: { interval: 0 } })
+      client.send({ type: 'input:text', data: { text: 'one' } })
+      client.send({ type: 'input:text', data: { text: 'two' } })
+
+      const socket = await connect(client)
+
+      expect(socket.sentOf('input:text').map(event => event.data.text)).toEqual(['one', 'two'])
+      expect(socket.sent.findIndex(event => event.type === 'module:announce')).toBeLessThan(socket.sent.findIndex(event => event.type === 'input:text'))
+    })
+
+    it('drops the oldest events beyond the queue size and expired sparks', async () => {
+      const client = new Client({ name: 'minecraft', autoConnect: false, heartbeat: { interval: 0 }, maxQueueSize: 2 })
+      client.send(notifyOf('expiring', { ttlMs: 1000 }))
+      client.send({ type: 'input:text', data: { text: 'one' } })
+      client.send({ type: 'input:text', data: { text: 'two' } })
+      client.send({ type: 'input:text', data: { text: 'three' } })
+      await vi.advanceTimersByTimeAsync(2000)
+
+      const socket = await connect(client)
+
+      expect(socket.sentOf('input:text').map(event => event.data.text)).toEqual(['two', 'three'])
+      expect(socket.sentOf('spark:notify')).toHaveLength(0)
+    })
+
+    it('drains buffered events before closing', async () => {
+      const client = new Client({ name: 'replay', autoConnect: false, heartbeat: { interval: 0 } })
+      client.send({ type: 'input:text', data: { text: 'one' } })
+
+      const drained = client.drain(5000)
+      await vi.advanceTimersByTimeAsync(100)
+      const socket = await connect(client)
+      await vi.advanceTimersByTimeAsync(100)
+      await drained
+
+      expect(socket.sentOf('input:text')).toHaveLength(1)
+
+      await client.close()
+      expect(socket.readyState).toBe(FakeWebSocket.CLOSED)
+    })
+
+    it('gives up draining when the connection never comes', async () => {
+      const client = new Client({ name: 'replay', autoConnect: false, heartbeat: { interval: 0 } })
+      client.send({ type: 'input:text', data: { text: 'one' } })
+
+      const drained = expect(client.drain(1000)).rejects.toThrow('1 events still buffered')
+      await vi.advanceTimersByTimeAsync(1000)
+      await drained
+    })
+  })
+
+  describe('acknowledgements', () => {
+    it('re-sends sparks requiring an ack until a reply to them arrives', async () => {
+      const client = new Client({ name: 'minecraft', autoConnect: false, heartbeat: { interval: 0 }, ackRetryInterval: 1000 })
+      const socket = await connect(client)
+
+      client.send(notifyOf('alarm', { requiresAck: true }))
+      await vi.advanceTimersByTimeAsync(2000)
+      expect(socket.sentOf('spark:notify')).toHaveLength(3)
+
+      // unrelated replies don't count
+      socket.receive({ type: 'spark:emit', data: { id: 'alarm', state: 'done', destinations: [] } })
+      socket.receive({ type: 'spark:emit', data: { id: 'other', eventId: 'other', state: 'done', destinations: [] } })
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(socket.sentOf('spark:notify')).toHaveLength(4)
+
+      socket.receive({ type: 'spark:emit', data: { id: 'alarm:ack', eventId: 'alarm', state: 'queued', destinations: [] } })
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(socket.sentOf('spark:notify')).toHaveLength(4)
+    })
+
+    it('re-sends unacknowledged sparks after reconnecting and gives up once expired', async () => {
+      const onAckExpired = vi.fn()
+      const client = new Client({ name: 'minecraft', autoConnect: false, autoReconnect: false, heartbeat: { interval: 0 }, ackRetryInterval: 1000, onAckExpired })
+
+      client.send(notifyOf('alarm', { requiresAck: true, ttlMs: 3500 }))
+      const socket = await connect(client)
+      expect(socket.sentOf('spark:notify')).toHaveLength(1)
+
+      await vi.advanceTimersByTimeAsync(4000)
+
+      expect(onAckExpired).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ id: 'alarm' }) }))
+      expect(socket.sentOf('spark:notify')).toHaveLength(4)
+    })
+
+    it('acknowledges delivery and drops sparks received twice', async () => {
+      const client = new Client({ name: 'stage-web', autoConnect: false, heartbeat: { interval: 0 } })
+      const listener = vi.fn()
+      client.onEvent('spark:notify', listener)
+      const socket = await connect(client)
+
+      socket.receive(notifyOf('alarm', { requiresAck: true }))
+      socket.receive(notifyOf('alarm', { requiresAck: true }))
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      // the retry means the first acknowledgement may have been lost
+      expect(socket.sentOf('spark:emit')).toEqual([
+        expect.objectContaining({ data: { id: 'alarm:ack', eventId: 'alarm', state: 'queued', destinations: ['minecraft'] } }),
+        expect.objectContaining({ data: { id: 'alarm:ack', eventId: 'alarm', state: 'queued', destinations: ['minecraft'] } }),
+      ])
+    })
+  })
+
+  describe('requests', () => {
+    function commandOf(id: string): WebSocketEvent & { type: 'spark:command' } {
+      return {
+        type: 'spark:command',
+        data: { id, commandId: id, interrupt: false, priority: 'normal', intent: 'action', destinations: ['minecraft'] },
+        source: 'stage-web',
+      }
+    }
+
+    it('resolves with the final reply and reports progress', async () => {
+      const client = new Client({ name: 'stage-web', autoConnect: false, heartbeat: { interval: 0 } })
+      const socket = await connect(client)
+      const onProgress = vi.fn()
+
+      const reply = client.request(commandOf('1'), { onProgress })
+      expect(socket.sentOf('spark:command')).toHaveLength(1)
+
+      socket.receive({ type: 'spark:emit', data: { id: '1:working', eventId: '1', state: 'working', destinations: [] }, source: 'minecraft' })
+      socket.receive({ type: 'spark:emit', data: { id: '2:reply', eventId: '2', state: 'done', destinations: [] }, source: 'minecraft' })
+      socket.receive({ type: 'spark:emit', data: { id: '1:reply', eventId: '1', state: 'done', note: 'mined', destinations: [] }, source: 'minecraft' })
+
+      await expect(reply).resolves.toMatchObject({ data: { eventId: '1', note: 'mined' } })
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ state: 'working' }) }))
+    })
+
+    it('rejects failed replies, timeouts and duplicate ids', async () => {
+      const client = new Client({ name: 'stage-web', autoConnect: false, heartbeat: { interval: 0 } })
+      const socket = await connect(client)
+
+      const dropped = client.request(commandOf('1'))
+      socket.receive({ type: 'spark:emit', data: { id: '1:reply', eventId: '1', state: 'dropped', note: 'no pickaxe', destinations: [] }, source: 'minecraft' })
+      await expect(dropped).rejects.toThrow('ended with state \'dropped\': no pickaxe')
+
+      const timedOut = client.request(commandOf('2'), { timeout: 1000 })
+      const duplicate = client.request(commandOf('2'), { timeout: 5000 })
+      await expect(duplicate).rejects.toThrow('already pending')
+
+      // the timer of the first request is untouched by the duplicate
+      const rejection = expect(timedOut).rejects.toBeInstanceOf(RequestError)
+      await vi.advanceTimersByTimeAsync(1000)
+      await rejection
+    })
+
+    it('answers requests with what the handler returns or throws', async () => {
+      const client = new Client({ name: 'minecraft', autoConnect: false, heartbeat: { interval: 0 } })
+      const socket = await connect(client)
+      client.handle('spark:command', (event) => {
+        if (event.data.id === 'fail')
+          throw new Error('no pickaxe')
+
+        return { note: 'mined' }
+      })
+
+      socket.receive(commandOf('ok'))
+      socket.receive(commandOf('fail'))
+      await vi.advanceTimersByTimeAsync(0)
+
+      const replies = socket.sentOf('spark:emit').map(event => event.data)
+      expect(replies).toHaveLength(2)
+      expect(replies).toEqual(expect.arrayContaining([
+        { id: 'ok:reply', eventId: 'ok', state: 'done', note: 'mined', destinations: ['stage-web'] },
+        { id: 'fail:reply', eventId: 'fail', state: 'dropped', note: 'no pickaxe', destinations: ['stage-web'] },
+      ]))
+    })
+  })
+})
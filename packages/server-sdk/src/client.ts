@@ -1,3 +1,4 @@
+import type { BinaryFrame, BinaryFrameHeader } from '@proj-airi/server-shared/binary'
 import type {
   WebSocketBaseEvent,
   WebSocketEvent,
@@ -9,28 +10,144 @@ import type {
 import WebSocket from 'crossws/websocket'
 
 import { sleep } from '@moeru/std'
+import { decodeBinaryFrame, encodeBinaryFrame } from '@proj-airi/server-shared/binary'
 
 export interface ClientOptions<C = undefined> {
   url?: string
   name: string
+  /**
+   * Event types this module deals with, advisory only.
+   */
   possibleEvents?: Array<keyof WebSocketEvents<C>>
+  /**
+   * Event types this module wants to receive, everything is delivered when not set.
+   */
+  consumes?: Array<keyof WebSocketEvents<C>>
+  /**
+   * Event types this module sends, nothing is refused when not set. The `spark:emit`
+   * replies the client sends on its own (delivery acknowledgements and {@link Client.handle})
+   * are declared along when the module may receive sparks.
+   */
+  emits?: Array<keyof WebSocketEvents<C>>
   token?: string
   onError?: (error: unknown) => void
   onClose?: () => void
   autoConnect?: boolean
   autoReconnect?: boolean
   maxReconnectAttempts?: number
+  heartbeat?: {
+    /**
+     * How often to ping the server, in milliseconds. Set to `0` to disable heartbeats.
+     *
+     * @default 15000
+     */
+    interval?: number
+    /**
+     * How long the server may stay silent before the connection is considered dead
+     * and a reconnect is attempted, in milliseconds.
+     *
+     * @default 45000
+     */
+    timeout?: number
+  }
+  /**
+   * Maximum number of events buffered while disconnected or not yet authenticated,
+   * the oldest events are dropped first. Set to `0` to drop events sent while offline.
+   *
+   * @default 1000
+   */
+  maxQueueSize?: number
+  /**
+   * How often a `spark:notify` with `requiresAck` is re-sent until a `spark:emit` whose
+   * `eventId` is its `id` arrives, in milliseconds. Any state acknowledges it, including
+   * the `queued` reply receiving clients send on delivery.
+   *
+   * @default 5000
+   */
+  ackRetryInterval?: number
+  /**
+   * How long a `spark:notify` with `requiresAck` but without `ttlMs` is retried, in milliseconds.
+   *
+   * @default 60000
+   */
+  ackTimeout?: number
+  /**
+   * Called when a `spark:notify` with `requiresAck` expired before being acknowledged.
+   */
+  onAckExpired?: (event: WebSocketEventOptionalSource<C> & { type: 'spark:notify' }) => void
+}
+
+export type RequestEventType = 'spark:command' | 'spark:notify'
+
+export type RequestReply<C = undefined> = WebSocketBaseEvent<'spark:emit', WebSocketEvents<C>['spark:emit']>
+
+export interface RequestOptions<C = undefined> {
+  /**
+   * How long to wait for the final reply, in milliseconds.
+   *
+   * @default 30000
+   */
+  timeout?: number
+  /**
+   * Called for intermediate replies (`state=queued` or `state=working`).
+   */
+  onProgress?: (reply: RequestReply<C>) => void
+}
+
+export type RequestHandlerResult<C = undefined>
+  = | Partial<Pick<WebSocketEvents<C>['spark:emit'], 'state' | 'note' | 'metadata'>>
+    | void
+
+/**
+ * Rejected by {@link Client.request} when the request timed out, the client was closed,
+ * another request with the same id is pending, or the peer replied with `dropped`,
+ * `blocked` or `expired`.
+ */
+export class RequestError<C = undefined> extends Error {
+  constructor(message: string, readonly reply?: RequestReply<C>) {
+    super(message)
+    this.name = 'RequestError'
+  }
+}
+
+interface PendingRequest<C> {
+  resolve: (reply: RequestReply<C>) => void
+  reject: (error: RequestError<C>) => void
+  onProgress?: (reply: RequestReply<C>) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+interface QueuedEvent<C> {
+  event: WebSocketEventOptionalSource<C>
+  expiresAt?: number
+}
+
+interface PendingAck<C> {
+  event: WebSocketEventOptionalSource<C> & { type: 'spark:notify' }
+  expiresAt: number
 }
 
+// how many received spark ids are remembered for deduplication
+const MAX_SEEN_SPARK_IDS = 1000
+
 export class Client<C = undefined> {
   private connected = false
+  private authenticated = false
   private connecting = false
   private websocket?: WebSocket
   private shouldClose = false
   private connectAttempt?: Promise<void>
   private connectTask?: Promise<void>
-
-  private readonly opts: Required<Omit<ClientOptions<C>, 'token'>> & Pick<ClientOptions<C>, 'token'>
+  private heartbeatTimer?: ReturnType<typeof setInterval>
+  private lastMessageAt = 0
+  private ackTimer?: ReturnType<typeof setInterval>
+  private readonly outbox: Array<QueuedEvent<C>> = []
+  private readonly pendingAcks = new Map<string, PendingAck<C>>()
+  private readonly seenSparkIds = new Set<string>()
+  private readonly pendingRequests = new Map<string, PendingRequest<C>>()
+  private readonly binaryListeners = new Set<(frame: BinaryFrame) => void | Promise<void>>()
+
+  private readonly opts: Required<Omit<ClientOptions<C>, 'token' | 'consumes' | 'emits' | 'heartbeat'>> & Pick<ClientOptions<C>, 'token' | 'consumes' | 'emits' | 'heartbeat'>
   private readonly eventListeners = new Map<
     keyof WebSocketEvents<C>,
     Set<(data: WebSocketBaseEvent<any, any>) => void | Promise<void>>
@@ -45,13 +162,19 @@ export class Client<C = undefined> {
       autoConnect: true,
       autoReconnect: true,
       maxReconnectAttempts: -1,
+      maxQueueSize: 1000,
+      ackRetryInterval: 5000,
+      ackTimeout: 60_000,
+      onAckExpired: () => {},
       ...options,
     }
 
     // Authentication listener is registered once only
     this.onEvent('module:authenticated', async (event) => {
       if (event.data.authenticated) {
+        this.authenticated = true
         this.tryAnnounce()
+        this.flush()
       }
       else {
         await this.retryWithExponentialBackoff(() => this.tryAuthenticate())
@@ -64,6 +187,18 @@ export class Client<C = undefined> {
       }
     })
 
+    this.onEvent('heartbeat:ping', (event) => {
+      this.transmit({ type: 'heartbeat:pong', data: { at: event.data.at } })
+    })
+
+    this.onEvent('spark:emit', (event) => {
+      if (event.data.eventId) {
+        this.acknowledge(event.data.eventId)
+      }
+
+      this.settleRequest(event)
+    })
+
     if (this.opts.autoConnect) {
       void this.connect()
     }
@@ -124,6 +259,7 @@ export class Client<C = undefined> {
       }
 
       const ws = new WebSocket(this.opts.url)
+      ws.binaryType = 'arraybuffer'
       this.websocket = ws
 
       ws.onmessage = this.handleMessageBound
@@ -143,6 +279,9 @@ export class Client<C = undefined> {
           return
         }
 
+        this.stopHeartbeat()
+        this.authenticated = false
+
         if (this.connected) {
           this.connected = false
           this.opts.onClose?.()
@@ -154,6 +293,7 @@ export class Client<C = undefined> {
       ws.onopen = () => {
         settle(() => {
           this.connected = true
+          this.startHeartbeat()
 
           if (this.opts.token)
             this.tryAuthenticate()
@@ -181,19 +321,73 @@ export class Client<C = undefined> {
     return this.connectTask
   }
 
+  private startHeartbeat() {
+    this.stopHeartbeat()
+
+    const { interval = 15_000, timeout = 45_000 } = this.opts.heartbeat ?? {}
+    if (interval <= 0) {
+      return
+    }
+
+    this.lastMessageAt = Date.now()
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > timeout) {
+        this.handleHeartbeatTimeout()
+        return
+      }
+
+      this.transmit({ type: 'heartbeat:ping', data: { at: Date.now() } })
+    }, interval)
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = undefined
+    }
+  }
+
+  private handleHeartbeatTimeout() {
+    const ws = this.websocket
+    this.stopHeartbeat()
+    this.websocket = undefined
+    this.authenticated = false
+
+    if (ws) {
+      // half-open sockets may never deliver the close event, so detach before closing
+      ws.onopen = null
+      ws.onmessage = null
+      ws.onerror = null
+      ws.onclose = null
+      ws.close()
+    }
+    if (this.connected) {
+      this.connected = false
+      this.opts.onClose?.()
+    }
+    if (this.opts.autoReconnect && !this.shouldClose) {
+      void this.tryReconnectWithExponentialBackoff()
+    }
+  }
+
   private tryAnnounce() {
-    this.send({
+    const { consumes, emits } = this.opts
+    const receivesSparks = !consumes?.length || consumes.includes('spark:notify') || consumes.includes('spark:command')
+
+    this.transmit({
       type: 'module:announce',
       data: {
         name: this.opts.name,
         possibleEvents: this.opts.possibleEvents,
+        consumes,
+        emits: emits?.length && receivesSparks && !emits.includes('spark:emit') ? [...emits, 'spark:emit'] : emits,
       },
     })
   }
 
   private tryAuthenticate() {
     if (this.opts.token) {
-      this.send({
+      this.transmit({
         type: 'module:authenticate',
         data: { token: this.opts.token },
       })
@@ -206,8 +400,22 @@ export class Client<C = undefined> {
   }
 
   private async handleMessage(event: MessageEvent) {
+    this.lastMessageAt = Date.now()
+
+    if (typeof event.data !== 'string') {
+      await this.handleBinaryMessage(event.data)
+      return
+    }
+
     try {
       const data = JSON.parse(event.data as string) as WebSocketEvent<C>
+      if (this.isDuplicateSpark(data)) {
+        return
+      }
+      if (data.type === 'spark:notify' && data.data.requiresAck) {
+        this.sendDeliveryAck(data)
+      }
+
       const listeners = this.eventListeners.get(data.type)
       if (!listeners?.size) {
         return
@@ -227,6 +435,35 @@ export class Client<C = undefined> {
     }
   }
 
+  private async handleBinaryMessage(data: ArrayBuffer | ArrayBufferView) {
+    let frame: BinaryFrame
+    try {
+      frame = decodeBinaryFrame(data)
+    }
+    catch (err) {
+      console.error('Failed to decode binary frame:', err)
+      this.opts.onError?.(err)
+      return
+    }
+
+    const executions: Promise<void>[] = []
+    for (const listener of this.binaryListeners) {
+      executions.push(Promise.resolve(listener(frame)))
+    }
+
+    await Promise.allSettled(executions)
+  }
+
+  /**
+   * Listens to binary frames (e.g. audio chunks), match `frame.header.eventId`
+   * against the JSON event announcing them.
+   */
+  onBinary(callback: (frame: BinaryFrame) => void | Promise<void>): () => void {
+    this.binaryListeners.add(callback)
+
+    return () => this.binaryListeners.delete(callback)
+  }
+
   onEvent<E extends keyof WebSocketEvents<C>>(
     event: E,
     callback: (data: WebSocketBaseEvent<E, WebSocketEvents<C>[E]>) => void | Promise<void>,
@@ -259,24 +496,318 @@ export class Client<C = undefined> {
     }
   }
 
+  /**
+   * Sends the event, or buffers it until the connection is (re-)established and authenticated.
+   *
+   * A `spark:notify` with `requiresAck` is re-sent every `ackRetryInterval` until a `spark:emit`
+   * with a matching `eventId` arrives, or until its `ttlMs` (or `ackTimeout`) expires.
+   */
   send(data: WebSocketEventOptionalSource<C>): void {
+    if (data.type === 'spark:notify' && data.data.requiresAck) {
+      this.trackAck(data)
+    }
+
+    if (this.connected && this.authenticated) {
+      this.transmit(data)
+      return
+    }
+    // pending acknowledgements are re-sent on their own once authenticated
+    if (data.type === 'spark:notify' && data.data.requiresAck) {
+      return
+    }
+
+    this.enqueue(data)
+  }
+
+  private transmit(data: WebSocketEventOptionalSource<C>): void {
     if (this.websocket && this.connected) {
       this.websocket.send(JSON.stringify({ source: this.opts.name as WebSocketEventSource | string, ...data } as WebSocketEvent<C>))
     }
   }
 
+  private enqueue(data: WebSocketEventOptionalSource<C>) {
+    if (this.opts.maxQueueSize <= 0) {
+      return
+    }
+
+    const ttlMs = data.type === 'spark:notify' ? data.data.ttlMs : undefined
+    this.outbox.push({ event: data, expiresAt: ttlMs ? Date.now() + ttlMs : undefined })
+
+    if (this.outbox.length > this.opts.maxQueueSize) {
+      this.outbox.splice(0, this.outbox.length - this.opts.maxQueueSize)
+    }
+  }
+
+  private flush() {
+    const now = Date.now()
+
+    while (this.outbox.length && this.connected && this.authenticated) {
+      const { event, expiresAt } = this.outbox.shift()!
+      if (expiresAt && expiresAt <= now) {
+        continue
+      }
+
+      this.transmit(event)
+    }
+
+    for (const pending of this.pendingAcks.values()) {
+      this.transmit(pending.event)
+    }
+  }
+
+  private trackAck(data: WebSocketEventOptionalSource<C> & { type: 'spark:notify' }) {
+    this.pendingAcks.set(data.data.id, {
+      event: data,
+      expiresAt: Date.now() + (data.data.ttlMs ?? this.opts.ackTimeout),
+    })
+
+    if (!this.ackTimer) {
+      this.ackTimer = setInterval(() => this.retryPendingAcks(), this.opts.ackRetryInterval)
+    }
+  }
+
+  private retryPendingAcks() {
+    const now = Date.now()
+
+    for (const [id, pending] of this.pendingAcks.entries()) {
+      if (pending.expiresAt <= now) {
+        this.pendingAcks.delete(id)
+        this.opts.onAckExpired(pending.event)
+
+        continue
+      }
+      if (this.connected && this.authenticated) {
+        this.transmit(pending.event)
+      }
+    }
+
+    if (!this.pendingAcks.size) {
+      this.stopAckTimer()
+    }
+  }
+
+  private acknowledge(eventId: string) {
+    this.pendingAcks.delete(eventId)
+
+    if (!this.pendingAcks.size) {
+      this.stopAckTimer()
+    }
+  }
+
+  private stopAckTimer() {
+    if (this.ackTimer) {
+      clearInterval(this.ackTimer)
+      this.ackTimer = undefined
+    }
+  }
+
+  /**
+   * Retried sparks reuse their `id`, so anything already seen is dropped before reaching listeners.
+   */
+  private isDuplicateSpark(data: WebSocketEvent<C>): boolean {
+    if (data.type !== 'spark:notify' && data.type !== 'spark:emit' && data.type !== 'spark:command') {
+      return false
+    }
+
+    const key = `${data.type}:${data.data.id}`
+    if (this.seenSparkIds.has(key)) {
+      // the previous acknowledgement may have been lost, answer again
+      if (data.type === 'spark:notify' && data.data.requiresAck) {
+        this.sendDeliveryAck(data)
+      }
+
+      return true
+    }
+
+    this.seenSparkIds.add(key)
+    if (this.seenSparkIds.size > MAX_SEEN_SPARK_IDS) {
+      this.seenSparkIds.delete(this.seenSparkIds.values().next().value!)
+    }
+
+    return false
+  }
+
+  /**
+   * Acknowledges the delivery of a `spark:notify` to its sender with `state=queued`,
+   * listeners are still expected to report progress with their own `spark:emit`.
+   */
+  private sendDeliveryAck(data: WebSocketEvent<C> & { type: 'spark:notify' }) {
+    this.transmit({
+      type: 'spark:emit',
+      data: {
+        id: `${data.data.id}:ack`,
+        eventId: data.data.id,
+        state: 'queued',
+        destinations: [data.source],
+      },
+    })
+  }
+
+  /**
+   * Sends a `spark:command` (or `spark:notify`) and resolves with the `spark:emit` reply whose
+   * `eventId` matches the request `id` once it reaches `state=done`.
+   *
+   * @example
+   * const reply = await client.request({
+   *   type: 'spark:command',
+   *   data: { id, commandId, intent: 'action', interrupt: false, priority: 'normal', destinations: ['minecraft'] },
+   * }, { timeout: 10_000 })
+   */
+  request<E extends RequestEventType>(
+    event: WebSocketEventOptionalSource<C> & { type: E },
+    options?: RequestOptions<C>,
+  ): Promise<RequestReply<C>> {
+    const id = event.data.id
+
+    return new Promise<RequestReply<C>>((resolve, reject) => {
+      if (this.pendingRequests.has(id)) {
+        reject(new RequestError(`request '${id}' is already pending, request ids must be unique`))
+        return
+      }
+
+      const timeout = options?.timeout ?? 30_000
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id)
+        reject(new RequestError(`request '${id}' timed out after ${timeout}ms`))
+      }, timeout)
+
+      this.pendingRequests.set(id, { resolve, reject, onProgress: options?.onProgress, timer })
+      this.send(event)
+    })
+  }
+
+  /**
+   * Registers a handler that answers incoming requests, the returned value (or thrown error)
+   * is sent back to the requester as a `spark:emit` referencing the request.
+   *
+   * @returns a function to unregister the handler.
+   */
+  handle<E extends RequestEventType>(
+    type: E,
+    handler: (event: WebSocketBaseEvent<E, WebSocketEvents<C>[E]>) => RequestHandlerResult<C> | Promise<RequestHandlerResult<C>>,
+  ): () => void {
+    const listener = async (event: WebSocketBaseEvent<E, WebSocketEvents<C>[E]>) => {
+      const { id } = event.data as { id: string }
+      let reply: Exclude<RequestHandlerResult<C>, void>
+
+      try {
+        reply = (await handler(event)) || {}
+      }
+      catch (err) {
+        reply = { state: 'dropped', note: err instanceof Error ? err.message : String(err) }
+      }
+
+      this.send({
+        type: 'spark:emit',
+        data: {
+          id: `${id}:reply`,
+          eventId: id,
+          state: reply.state ?? 'done',
+          note: reply.note,
+          metadata: reply.metadata,
+          destinations: [event.source],
+        },
+      })
+    }
+
+    this.onEvent(type, listener)
+
+    return () => this.offEvent(type, listener)
+  }
+
+  private settleRequest(reply: RequestReply<C>) {
+    const id = reply.data.eventId
+    const pending = id ? this.pendingRequests.get(id) : undefined
+    if (!id || !pending) {
+      return
+    }
+
+    switch (reply.data.state) {
+      case 'queued':
+      case 'working':
+        pending.onProgress?.(reply)
+        return
+      case 'done':
+        pending.resolve(reply)
+        break
+      default:
+        pending.reject(new RequestError(`request '${id}' ended with state '${reply.data.state}'${reply.data.note ? `: ${reply.data.note}` : ''}`, reply))
+    }
+
+    clearTimeout(pending.timer)
+    this.pendingRequests.delete(id)
+  }
+
+  /**
+   * Sends a blob as a binary frame, it's dropped when not connected as buffering audio
+   * for later rarely makes sense.
+   *
+   * @example
+   * client.send({ type: 'input:voice', data: { attachment: { id, mimeType: 'audio/opus' } } })
+   * client.sendBinary({ type: 'input:voice', eventId: id, seq: 0, mimeType: 'audio/opus' }, chunk)
+   */
+  sendBinary(header: Omit<BinaryFrameHeader, 'source'>, payload: ArrayBufferLike | ArrayBufferView): void {
+    if (this.connected && this.authenticated) {
+      this.sendRaw(encodeBinaryFrame({ source: this.opts.name, ...header }, payload))
+    }
+  }
+
   sendRaw(data: string | ArrayBufferLike | ArrayBufferView): void {
     if (this.websocket && this.connected) {
       this.websocket.send(data)
     }
   }
 
-  close(): void {
+  /**
+   * Resolves once the events buffered while offline have been sent, e.g. before closing
+   * a short-lived client.
+   *
+   * @param timeout how long to wait for the connection to be (re-)established, in milliseconds.
+   */
+  async drain(timeout = 10_000): Promise<void> {
+    const deadline = Date.now() + timeout
+
+    while (this.outbox.length) {
+      if (Date.now() >= deadline) {
+        throw new Error(`${this.outbox.length} events still buffered after ${timeout}ms`)
+      }
+
+      await sleep(50)
+    }
+  }
+
+  /**
+   * Closes the connection for good. Resolves once the close handshake completed,
+   * by then everything sent before has reached the server.
+   */
+  close(): Promise<void> {
     this.shouldClose = true
-    if (this.websocket) {
-      this.websocket.close()
+    this.stopHeartbeat()
+    this.stopAckTimer()
+    this.authenticated = false
+
+    for (const [id, pending] of this.pendingRequests.entries()) {
+      clearTimeout(pending.timer)
+      pending.reject(new RequestError(`request '${id}' aborted, client is closed`))
+    }
+    this.pendingRequests.clear()
+
+    const ws = this.websocket
+    if (!ws || ws.readyState === WebSocket.CLOSED) {
       this.connected = false
+      return Promise.resolve()
     }
+
+    return new Promise((resolve) => {
+      const onclose = ws.onclose
+      ws.onclose = (event) => {
+        onclose?.call(ws, event)
+        resolve()
+      }
+
+      ws.close()
+      this.connected = false
+    })
   }
 
   private async _reconnectDueToUnauthorized() {
@@ -285,6 +816,7 @@ export class Client<C = undefined> {
 
     const ws = this.websocket
     this.connected = false
+    this.authenticated = false
     if (ws && ws.readyState !== WebSocket.CLOSED && ws.readyState !== WebSocket.CLOSING) {
       ws.close()
     }
@@ -1,3 +1,5 @@
 export * from './client'
+export type { BinaryFrame, BinaryFrameHeader } from '@proj-airi/server-shared/binary'
+export { decodeBinaryFrame, encodeBinaryFrame, isBinaryFrame } from '@proj-airi/server-shared/binary'
 export type * from '@proj-airi/server-shared/types'
 export { ContextUpdateStrategy, WebSocketEventSource } from '@proj-airi/server-shared/types'
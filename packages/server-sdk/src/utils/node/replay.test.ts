@@ -0,0 +1,124 @@
+import type { RecordedEvent } from '@proj-airi/server-shared/types'
+
+import type { Client } from '../../client'
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { readRecording, replayRecording } from './replay'
+
+function entryAt(timestamp: number, text: string, from = 'discord-bot'): RecordedEvent {
+  return {
+    timestamp,
+    from: { id: from, name: from },
+    to: [{ id: 'stage-web', name: 'stage-web' }],
+    event: { type: 'input:text', data: { text }, source: from },
+  }
+}
+
+function createMockClient() {
+  return { send: vi.fn() }
+}
+
+function sentTexts(client: ReturnType<typeof createMockClient>) {
+  return client.send.mock.calls.map(([event]) => event.data.text)
+}
+
+const entries = [entryAt(0, 'first'), entryAt(1000, 'second'), entryAt(3000, 'third', 'telegram-bot')]
+
+describe('readRecording', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'replay-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('reads one entry per line and skips blank ones', async () => {
+    const path = join(dir, 'recording.jsonl')
+    await writeFile(path, `${JSON.stringify(entries[0])}\n\n${JSON.stringify(entries[1])}\r\n`)
+
+    const read: RecordedEvent[] = []
+    for await (const entry of readRecording(path))
+      read.push(entry)
+
+    expect(read).toEqual([entries[0], entries[1]])
+  })
+})
+
+describe('replayRecording', () => {
+  let client: ReturnType<typeof createMockClient>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    client = createMockClient()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps the pacing of the recording', async () => {
+    const replaying = replayRecording(client as unknown as Client, entries)
+
+    await vi.advanceTimersByTimeAsync(999)
+    expect(sentTexts(client)).toEqual(['first'])
+    await vi.advanceTimersByTimeAsync(1)
+    expect(sentTexts(client)).toEqual(['first', 'second'])
+    await vi.advanceTimersByTimeAsync(2000)
+
+    await expect(replaying).resolves.toBe(3)
+    expect(client.send).toHaveBeenCalledWith(entries[2].event)
+  })
+
+  it('scales the pacing by speed', async () => {
+    const replaying = replayRecording(client as unknown as Client, entries, { speed: 2 })
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(sentTexts(client)).toEqual(['first', 'second'])
+    await vi.advanceTimersByTimeAsync(999)
+    expect(sentTexts(client)).toEqual(['first', 'second'])
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(replaying).resolves.toBe(3)
+  })
+
+  it('sends everything at once with speed 0', async () => {
+    const onEvent = vi.fn()
+
+    await expect(replayRecording(client as unknown as Client, entries, { speed: 0, onEvent })).resolves.toBe(3)
+    expect(sentTexts(client)).toEqual(['first', 'second', 'third'])
+    expect(onEvent).toHaveBeenCalledTimes(3)
+  })
+
+  it('only replays the filtered entries, paced among themselves', async () => {
+    const replaying = replayRecording(client as unknown as Client, [...entries, entryAt(3500, 'fourth')], {
+      filter: entry => entry.from.name === 'discord-bot',
+    })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(sentTexts(client)).toEqual(['first', 'second'])
+    await vi.advanceTimersByTimeAsync(2500)
+
+    await expect(replaying).resolves.toBe(3)
+    expect(sentTexts(client)).toEqual(['first', 'second', 'fourth'])
+  })
+
+  it('stops once the signal is aborted', async () => {
+    const controller = new AbortController()
+    const replaying = replayRecording(client as unknown as Client, entries, { signal: controller.signal })
+
+    await vi.advanceTimersByTimeAsync(500)
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(5000)
+
+    await expect(replaying).resolves.toBe(1)
+    expect(sentTexts(client)).toEqual(['first'])
+  })
+})
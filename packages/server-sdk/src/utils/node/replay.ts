@@ -0,0 +1,85 @@
+import type { RecordedEvent } from '@proj-airi/server-shared/types'
+
+import type { Client } from '../../client'
+
+import { createReadStream } from 'node:fs'
+import { createInterface } from 'node:readline'
+
+import { sleep } from '@moeru/std'
+
+export interface ReplayOptions<C = undefined> {
+  /**
+   * Playback speed relative to the recording, `2` replays twice as fast,
+   * `0` sends every event immediately.
+   *
+   * @default 1
+   */
+  speed?: number
+  /**
+   * Only replay the entries this returns `true` for, e.g. to only
+   * replay what the Discord bot sent.
+   */
+  filter?: (entry: RecordedEvent<C>) => boolean
+  onEvent?: (entry: RecordedEvent<C>) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Reads a JSONL recording written by the server-runtime recorder line by line.
+ */
+export async function* readRecording<C = undefined>(path: string): AsyncGenerator<RecordedEvent<C>> {
+  const lines = createInterface({ input: createReadStream(path, { encoding: 'utf-8' }), crlfDelay: Infinity })
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue
+    }
+
+    yield JSON.parse(line) as RecordedEvent<C>
+  }
+}
+
+/**
+ * Sends recorded events through the client, keeping the original pacing scaled by `speed`.
+ *
+ * The original `source` of every event is kept, so receivers see them as if the
+ * recorded modules sent them.
+ *
+ * @returns the number of replayed events.
+ */
+export async function replayRecording<C = undefined>(
+  client: Client<C>,
+  entries: Iterable<RecordedEvent<C>> | AsyncIterable<RecordedEvent<C>>,
+  options?: ReplayOptions<C>,
+): Promise<number> {
+  const speed = options?.speed ?? 1
+  let previousTimestamp: number | undefined
+  let count = 0
+
+  for await (const entry of entries) {
+    if (options?.signal?.aborted) {
+      break
+    }
+    if (options?.filter && !options.filter(entry)) {
+      continue
+    }
+
+    if (speed > 0 && previousTimestamp !== undefined) {
+      const delay = (entry.timestamp - previousTimestamp) / speed
+      if (delay > 0) {
+        await sleep(delay)
+      }
+      // Aborted while waiting for the event
+      if (options?.signal?.aborted) {
+        break
+      }
+    }
+
+    previousTimestamp = entry.timestamp
+    client.send(entry.event)
+    options?.onEvent?.(entry)
+    count++
+  }
+
+  return count
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+
+import { decodeBinaryFrame, encodeBinaryFrame, isBinaryFrame } from '.'
+
+const encoder = new TextEncoder()
+
+function frameOf(header: string, payload: Array<number> = [], version = 1) {
+  const headerBytes = encoder.encode(header)
+  return new Uint8Array([0x00, 0x41, 0x49, 0x52, version, headerBytes.byteLength >> 8, headerBytes.byteLength & 0xFF, ...headerBytes, ...payload])
+}
+
+describe('binary frames', () => {
+  it('round-trips the header and payload', () => {
+    const header = { type: 'input:voice', eventId: 'voice-1', seq: 3, final: true, mimeType: 'audio/opus', destinations: ['stage-web'] }
+    const payload = new Uint8Array([0, 1, 2, 254, 255])
+
+    const frame = encodeBinaryFrame(header, payload)
+
+    expect(isBinaryFrame(frame)).toBe(true)
+    expect(decodeBinaryFrame(frame)).toEqual({ header, payload })
+  })
+
+  it('reads frames from buffers, views and offsets into them', () => {
+    const frame = encodeBinaryFrame({ type: 'input:voice', eventId: '1' }, new Int16Array([1, -1]))
+    const padded = new Uint8Array(frame.byteLength + 4)
+    padded.set(frame, 4)
+
+    expect(decodeBinaryFrame(frame.buffer).payload).toEqual(new Uint8Array(new Int16Array([1, -1]).buffer))
+    expect(decodeBinaryFrame(padded.subarray(4)).header.eventId).toBe('1')
+    expect(decodeBinaryFrame(new DataView(padded.buffer, 4)).payload.byteLength).toBe(4)
+  })
+
+  it('keeps text frames apart', () => {
+    expect(isBinaryFrame(encoder.encode('{"type":"input:text"}'))).toBe(false)
+    expect(isBinaryFrame(new Uint8Array([0x00, 0x41, 0x49]))).toBe(false)
+    expect(() => decodeBinaryFrame(encoder.encode('{"type":"input:text","data":{}}'))).toThrow('magic bytes mismatch')
+  })
+
+  it('rejects malformed frames', () => {
+    expect(() => decodeBinaryFrame(frameOf('{"type":"input:voice","eventId":"1"}', [], 2))).toThrow('unsupported binary frame version 2')
+    expect(() => decodeBinaryFrame(frameOf('{"type":"input:voice","eventId":"1"}').subarray(0, 20))).toThrow('truncated')
+    expect(() => decodeBinaryFrame(frameOf('{"type":'))).toThrow('not valid JSON')
+    expect(() => decodeBinaryFrame(frameOf('null'))).toThrow('must contain \'type\' and \'eventId\'')
+    expect(() => decodeBinaryFrame(frameOf('{"type":"input:voice"}'))).toThrow('must contain \'type\' and \'eventId\'')
+  })
+
+  it('refuses headers longer than the length field holds', () => {
+    expect(() => encodeBinaryFrame({ type: 'input:voice', eventId: 'x'.repeat(0x10000) }, new Uint8Array())).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,118 @@
+import type { ContextUpdateDestinationFilter } from '../types'
+
+/**
+ * Header of a binary frame, carrying audio or other blobs next to the JSON events.
+ */
+export interface BinaryFrameHeader {
+  /**
+   * Type of the JSON event the frame belongs to (e.g. `input:voice`),
+   * used by the server-runtime for capability and ACL checks.
+   */
+  type: string
+  /**
+   * `id` of the JSON event the frame belongs to, e.g. the `attachment.id` of `input:voice`.
+   */
+  eventId: string
+  /**
+   * Position of the chunk within the stream, starting from `0`.
+   */
+  seq?: number
+  /**
+   * Whether this is the last chunk of the stream.
+   */
+  final?: boolean
+  /**
+   * e.g. `audio/pcm;rate=48000;channels=1`, `audio/opus`
+   */
+  mimeType?: string
+  source?: string
+  destinations?: Array<string> | ContextUpdateDestinationFilter
+}
+
+export interface BinaryFrame {
+  header: BinaryFrameHeader
+  payload: Uint8Array
+}
+
+/**
+ * JSON events never start with a NUL byte, so text and binary frames can't be mistaken
+ * for each other even on transports that don't keep the frame kind (e.g. Node.js `ws` Buffers).
+ */
+const MAGIC = [0x00, 0x41, 0x49, 0x52] // \0AIR
+const VERSION = 1
+// magic + version + uint16 header length
+const PREFIX_LENGTH = MAGIC.length + 1 + 2
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function toUint8Array(data: ArrayBufferLike | ArrayBufferView): Uint8Array {
+  if (data instanceof Uint8Array) {
+    return data
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+  }
+
+  return new Uint8Array(data)
+}
+
+export function isBinaryFrame(data: ArrayBufferLike | ArrayBufferView): boolean {
+  const bytes = toUint8Array(data)
+
+  return bytes.byteLength >= PREFIX_LENGTH && MAGIC.every((byte, i) => bytes[i] === byte)
+}
+
+/**
+ * Layout: `\0AIR` magic, 1 byte version, uint16 (big-endian) header length,
+ * UTF-8 JSON header, then the payload as-is.
+ */
+export function encodeBinaryFrame(header: BinaryFrameHeader, payload: ArrayBufferLike | ArrayBufferView): Uint8Array {
+  const headerBytes = encoder.encode(JSON.stringify(header))
+  if (headerBytes.byteLength > 0xFFFF) {
+    throw new RangeError(`binary frame header is too large (${headerBytes.byteLength} bytes)`)
+  }
+
+  const payloadBytes = toUint8Array(payload)
+  const frame = new Uint8Array(PREFIX_LENGTH + headerBytes.byteLength + payloadBytes.byteLength)
+  frame.set(MAGIC, 0)
+  frame[MAGIC.length] = VERSION
+  new DataView(frame.buffer).setUint16(MAGIC.length + 1, headerBytes.byteLength)
+  frame.set(headerBytes, PREFIX_LENGTH)
+  frame.set(payloadBytes, PREFIX_LENGTH + headerBytes.byteLength)
+
+  return frame
+}
+
+export function decodeBinaryFrame(data: ArrayBufferLike | ArrayBufferView): BinaryFrame {
+  const bytes = toUint8Array(data)
+  if (!isBinaryFrame(bytes)) {
+    throw new TypeError('not a binary frame, magic bytes mismatch')
+  }
+
+  const version = bytes[MAGIC.length]
+  if (version !== VERSION) {
+    throw new TypeError(`unsupported binary frame version ${version}`)
+  }
+
+  const headerLength = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(MAGIC.length + 1)
+  if (PREFIX_LENGTH + headerLength > bytes.byteLength) {
+    throw new TypeError('binary frame is truncated')
+  }
+
+  let header: BinaryFrameHeader
+  try {
+    header = JSON.parse(decoder.decode(bytes.subarray(PREFIX_LENGTH, PREFIX_LENGTH + headerLength)))
+  }
+  catch {
+    throw new TypeError('binary frame header is not valid JSON')
+  }
+  if (typeof header?.type !== 'string' || typeof header.eventId !== 'string') {
+    throw new TypeError('binary frame header must contain \'type\' and \'eventId\' strings')
+  }
+
+  return {
+    header,
+    payload: bytes.subarray(PREFIX_LENGTH + headerLength),
+  }
+}
@@ -0,0 +1,23 @@
+import type { WebSocketEvent } from './websocket'
+
+export interface RecordedPeer {
+  id: string
+  name: string
+  index?: number
+}
+
+/**
+ * A single line of a server-runtime recording (JSONL).
+ */
+export interface RecordedEvent<C = undefined> {
+  /**
+   * Unix timestamp in milliseconds of when the event was routed.
+   */
+  timestamp: number
+  from: RecordedPeer
+  /**
+   * Peers the event has been delivered to.
+   */
+  to: Array<RecordedPeer>
+  event: WebSocketEvent<C>
+}
@@ -12,6 +12,40 @@ export interface Discord {
   channelId?: string
 }
 
+export interface TelegramUser {
+  id: string
+  username?: string
+  firstName: string
+  lastName?: string
+}
+
+export interface Telegram {
+  chatId: string
+  chatType?: 'private' | 'group' | 'supergroup' | 'channel'
+  chatTitle?: string
+  messageId?: string
+  user?: TelegramUser
+  /**
+   * The message the input replies to, if any.
+   */
+  replyTo?: {
+    messageId: string
+    text?: string
+    fromName?: string
+  }
+}
+
+/**
+ * Reference from a JSON event to the content carried by binary frames.
+ */
+export interface BinaryAttachment {
+  id: string
+  /**
+   * e.g. `audio/pcm;rate=48000;channels=1`, `audio/opus`
+   */
+  mimeType: string
+}
+
 export enum WebSocketEventSource {
   Server = 'proj-airi:server-runtime',
   StageWeb = 'proj-airi:stage-web',
@@ -22,6 +56,7 @@ interface InputSource {
   'stage-web': boolean
   'stage-tamagotchi': boolean
   'discord': Discord
+  'telegram': Telegram
 }
 
 interface OutputSource {
@@ -102,11 +137,53 @@ export interface WebSocketEvents<C = undefined> {
   }
   'module:announce': {
     name: string
+    index?: number
+    /**
+     * Every event type the module deals with, either consumed or emitted.
+     * Advisory only, use `consumes` and `emits` to have the server-runtime filter traffic.
+     */
     possibleEvents: Array<(keyof WebSocketEvents<C>)>
+    /**
+     * Event types the module wants to be delivered, the server-runtime
+     * will not forward anything else to it. Everything is delivered when not declared.
+     */
+    consumes?: Array<(keyof WebSocketEvents<C>)>
+    /**
+     * Event types the module may send, the server-runtime answers any other
+     * event type with an `error` event instead of routing it. Nothing is refused when not declared.
+     */
+    emits?: Array<(keyof WebSocketEvents<C>)>
   }
   'module:configure': {
     config: C
   }
+  /**
+   * Presence, broadcast by the server-runtime when a module announced itself.
+   * Newly announced modules also receive one for every module that is already live.
+   */
+  'module:joined': {
+    name: string
+    index?: number
+  }
+  /**
+   * Presence, broadcast by the server-runtime when a module disconnected,
+   * timed out on heartbeat, or re-announced itself under another identity.
+   */
+  'module:left': {
+    name: string
+    index?: number
+  }
+
+  /**
+   * Liveness check, can be sent by both the server-runtime and modules,
+   * the receiver answers with `heartbeat:pong` carrying the same `at`.
+   */
+  'heartbeat:ping': {
+    at: number
+  }
+  'heartbeat:pong': {
+    at: number
+  }
 
   'ui:configure': {
     moduleName: string
@@ -116,20 +193,29 @@ export interface WebSocketEvents<C = undefined> {
 
   'input:text': {
     text: string
-  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord'>>
+  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord' | 'telegram'>>
   'input:text:voice': {
     transcription: string
-  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord'>>
+  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord' | 'telegram'>>
   'input:voice': {
-    audio: ArrayBuffer
-  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord'>>
+    /**
+     * Inline audio, only survives in-process delivery since `ArrayBuffer` can't be
+     * serialized to JSON, use `attachment` when sending through the server-runtime.
+     */
+    audio?: ArrayBuffer
+    /**
+     * Audio sent as binary frames (see `@proj-airi/server-shared/binary`)
+     * whose header `eventId` equals `attachment.id`.
+     */
+    attachment?: BinaryAttachment
+  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord' | 'telegram'>>
 
   'output:gen-ai:chat:tool-call': {
     toolCalls: ToolMessage[]
-  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord'>> & Partial<WithOutputSource<'gen-ai:chat'>>
+  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord' | 'telegram'>> & Partial<WithOutputSource<'gen-ai:chat'>>
   'output:gen-ai:chat:message': {
     message: AssistantMessage
-  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord'>> & Partial<WithOutputSource<'gen-ai:chat'>>
+  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord' | 'telegram'>> & Partial<WithOutputSource<'gen-ai:chat'>>
   'output:gen-ai:chat:complete': {
     message: AssistantMessage
     toolCalls: ToolMessage[]
@@ -139,7 +225,7 @@ export interface WebSocketEvents<C = undefined> {
       totalTokens: number
       source: 'provider-based' | 'estimate-based'
     }
-  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord'>> & Partial<WithOutputSource<'gen-ai:chat'>>
+  } & Partial<WithInputSource<'stage-web' | 'stage-tamagotchi' | 'discord' | 'telegram'>> & Partial<WithOutputSource<'gen-ai:chat'>>
 
   /**
    * Spark used for allowing agents in a network to raise an event toward the other destinations (e.g. character).
@@ -3,6 +3,7 @@ import { defineConfig } from 'tsdown'
 export default defineConfig({
   entry: {
     'types/index': 'src/types/index.ts',
+    'binary/index': 'src/binary/index.ts',
   },
   sourcemap: true,
   unused: true,
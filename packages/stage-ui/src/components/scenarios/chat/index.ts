@@ -1,4 +1,5 @@
 export { default as ChatAssistantItem } from './ChatAssistantItem.vue'
 export { default as ChatErrorItem } from './ChatErrorItem.vue'
 export { default as ChatHistory } from './ChatHistory.vue'
+export { default as ChatMessageActions } from './ChatMessageActions.vue'
 export { default as ChatUserItem } from './ChatUserItem.vue'
@@ -17,6 +17,7 @@ import { useTwitterStore } from '../stores/modules/twitter'
 import { useOnboardingStore } from '../stores/onboarding'
 import { useProvidersStore } from '../stores/providers'
 import { useSettings, useSettingsAudioDevice } from '../stores/settings'
+import { useUsageStore } from '../stores/usage'
 
 export function useDataMaintenance() {
   const chatStore = useChatStore()
@@ -35,6 +36,7 @@ export function useDataMaintenance() {
   const mcpStore = useMcpStore()
   const onboardingStore = useOnboardingStore()
   const airiCardStore = useAiriCardStore()
+  const usageStore = useUsageStore()
 
   async function deleteAllModels() {
     await displayModelsStore.resetDisplayModels()
@@ -56,16 +58,16 @@ export function useDataMaintenance() {
     minecraftStore.resetState()
   }
 
-  function deleteAllChatSessions() {
-    chatStore.resetAllSessions()
+  async function deleteAllChatSessions() {
+    await chatStore.resetAllSessions()
   }
 
-  function exportChatSessions() {
-    const data = chatStore.getAllSessions()
+  async function exportChatSessions() {
+    const data = await chatStore.getAllSessions()
     return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
   }
 
-  function importChatSessions(payload: Record<string, unknown>) {
+  async function importChatSessions(payload: Record<string, unknown>) {
     const normalizedPayload = payload as Record<string, unknown>
     const sessions: Record<string, ChatHistoryItem[]> = {}
 
@@ -74,7 +76,7 @@ export function useDataMaintenance() {
         sessions[sessionId] = messages as ChatHistoryItem[]
     }
 
-    chatStore.replaceSessions(sessions)
+    await chatStore.replaceSessions(sessions)
   }
 
   async function resetSettingsState() {
@@ -83,14 +85,15 @@ export function useDataMaintenance() {
     live2dStore.resetState()
     mcpStore.resetState()
     onboardingStore.resetSetupState()
-    airiCardStore.resetState()
+    await airiCardStore.resetState()
   }
 
   async function deleteAllData() {
     await deleteAllModels()
     await resetProvidersSettings()
     resetModulesSettings()
-    deleteAllChatSessions()
+    await deleteAllChatSessions()
+    await usageStore.resetState()
     await resetSettingsState()
   }
 
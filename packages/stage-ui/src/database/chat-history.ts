@@ -0,0 +1,170 @@
+import type { ChatTree } from '../types/chat'
+import type { ChatHistorySearchOptions, ChatHistorySearchResult, ChatSessionInfo, ChatTreeChanges } from '../utils/chat-history'
+
+import { and, asc, count, desc, eq, gte, inArray, lte, max, min, sql } from 'drizzle-orm'
+
+import { useDatabase } from '.'
+import { changesToRows, rowsToTree, searchTermsOf, termRowsOf, treeToRows } from '../utils/chat-history'
+import { chatMessagesTable, chatMessageTermsTable, chatSessionsTable } from './schema'
+
+export async function listChatSessions(): Promise<ChatSessionInfo[]> {
+  const db = await useDatabase()
+  const rows = await db
+    .select({
+      id: chatMessagesTable.session_id,
+      messages: count(),
+      createdAt: min(chatMessagesTable.created_at),
+      updatedAt: max(chatMessagesTable.created_at),
+    })
+    .from(chatMessagesTable)
+    .groupBy(chatMessagesTable.session_id)
+
+  return rows
+    .map(row => ({ id: row.id, messages: Number(row.messages), createdAt: Number(row.createdAt ?? 0), updatedAt: Number(row.updatedAt ?? 0) }))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function loadChatSession(sessionId: string): Promise<ChatTree | undefined> {
+  const db = await useDatabase()
+  const [session] = await db.select().from(chatSessionsTable).where(eq(chatSessionsTable.id, sessionId))
+  if (!session)
+    return undefined
+
+  const messages = await db.select().from(chatMessagesTable).where(eq(chatMessagesTable.session_id, sessionId))
+  return rowsToTree(session, messages)
+}
+
+/**
+ * Replaces everything stored for the session with the tree.
+ */
+export async function saveChatSession(sessionId: string, tree: ChatTree) {
+  const db = await useDatabase()
+  const { session, messages } = treeToRows(sessionId, tree)
+
+  await db.transaction(async (tx) => {
+    await tx.delete(chatMessageTermsTable).where(eq(chatMessageTermsTable.session_id, sessionId))
+    await tx.delete(chatMessagesTable).where(eq(chatMessagesTable.session_id, sessionId))
+    await tx.delete(chatSessionsTable).where(eq(chatSessionsTable.id, sessionId))
+    await tx.insert(chatSessionsTable).values(session)
+    if (messages.length > 0)
+      await tx.insert(chatMessagesTable).values(messages)
+
+    const terms = termRowsOf(messages)
+    if (terms.length > 0)
+      await tx.insert(chatMessageTermsTable).values(terms)
+  })
+}
+
+/**
+ * Writes the changes of a session saved with `saveChatSession` before, changed nodes are
+ * upserted and moved branch pointers updated in place.
+ */
+export async function saveChatSessionChanges(sessionId: string, tree: ChatTree, changes: ChatTreeChanges) {
+  const db = await useDatabase()
+  const { messages, pointers, removed } = changesToRows(sessionId, tree, changes)
+
+  await db.transaction(async (tx) => {
+    // Written nodes are indexed anew, their content may have changed
+    const unindexed = [...removed, ...messages.map(message => message.id)]
+    if (unindexed.length > 0)
+      await tx.delete(chatMessageTermsTable).where(inArray(chatMessageTermsTable.message_id, unindexed))
+
+    if (removed.length > 0)
+      await tx.delete(chatMessagesTable).where(inArray(chatMessagesTable.id, removed))
+
+    if (messages.length > 0) {
+      await tx.insert(chatMessagesTable).values(messages).onConflictDoUpdate({
+        target: chatMessagesTable.id,
+        // DuckDB can't update indexed columns on conflict, the session and creation time of a node never change
+        set: {
+          parent_id: sql`excluded.parent_id`,
+          position: sql`excluded.position`,
+          active_child: sql`excluded.active_child`,
+          role: sql`excluded.role`,
+          content: sql`excluded.content`,
+          message: sql`excluded.message`,
+        },
+      })
+
+      const terms = termRowsOf(messages)
+      if (terms.length > 0)
+        await tx.insert(chatMessageTermsTable).values(terms)
+
+      const updatedAt = Math.max(...messages.map(message => message.created_at))
+      await tx.update(chatSessionsTable)
+        .set({ updated_at: sql`greatest(${chatSessionsTable.updated_at}, ${updatedAt})` })
+        .where(eq(chatSessionsTable.id, sessionId))
+    }
+
+    for (const pointer of pointers) {
+      await tx.update(chatMessagesTable)
+        .set({ active_child: pointer.active_child, position: pointer.position })
+        .where(eq(chatMessagesTable.id, pointer.id))
+    }
+  })
+}
+
+export async function deleteAllChatSessions() {
+  const db = await useDatabase()
+  await db.delete(chatMessageTermsTable)
+  await db.delete(chatMessagesTable)
+  await db.delete(chatSessionsTable)
+}
+
+/**
+ * Finds messages of all branches by text, date range and session. Messages with all terms
+ * of the text are looked up in the term index and ranked by BM25, without normalizing by
+ * their length, ties and searches without text come newest first.
+ */
+export async function searchChatMessages(options: ChatHistorySearchOptions): Promise<ChatHistorySearchResult[]> {
+  const db = await useDatabase()
+  const terms = searchTermsOf(options.text)
+  const conditions = [
+    options.from != null ? gte(chatMessagesTable.created_at, options.from) : undefined,
+    options.to != null ? lte(chatMessagesTable.created_at, options.to) : undefined,
+    options.sessionId ? eq(chatMessagesTable.session_id, options.sessionId) : undefined,
+  ]
+  const columns = {
+    sessionId: chatMessagesTable.session_id,
+    messageId: chatMessagesTable.id,
+    role: chatMessagesTable.role,
+    content: chatMessagesTable.content,
+    createdAt: chatMessagesTable.created_at,
+  }
+
+  if (terms.length === 0) {
+    const rows = await db
+      .select(columns)
+      .from(chatMessagesTable)
+      .where(and(...conditions))
+      .orderBy(desc(chatMessagesTable.created_at), asc(chatMessagesTable.id))
+      .limit(options.limit ?? 50)
+
+    return rows.map(row => ({ ...row, createdAt: Number(row.createdAt) }))
+  }
+
+  // Messages each term appears in, rarer terms weigh more
+  const frequencies = db
+    .select({ term: chatMessageTermsTable.term, messages: count().as('messages') })
+    .from(chatMessageTermsTable)
+    .where(inArray(chatMessageTermsTable.term, terms))
+    .groupBy(chatMessageTermsTable.term)
+    .as('frequencies')
+  const total = sql`(SELECT count(*) FROM ${chatMessagesTable})`
+  const idf = sql`ln(1 + (${total} - ${frequencies.messages} + 0.5) / (${frequencies.messages} + 0.5))`
+  // k1 = 1.2, repeats of a term add less and less
+  const score = sql<number>`sum(${idf} * ${chatMessageTermsTable.count} * 2.2 / (${chatMessageTermsTable.count} + 1.2))`
+
+  const rows = await db
+    .select(columns)
+    .from(chatMessageTermsTable)
+    .innerJoin(frequencies, eq(frequencies.term, chatMessageTermsTable.term))
+    .innerJoin(chatMessagesTable, eq(chatMessagesTable.id, chatMessageTermsTable.message_id))
+    .where(and(inArray(chatMessageTermsTable.term, terms), ...conditions))
+    .groupBy(chatMessagesTable.id, chatMessagesTable.session_id, chatMessagesTable.role, chatMessagesTable.content, chatMessagesTable.created_at)
+    .having(sql`count(*) = ${terms.length}`)
+    .orderBy(desc(score), desc(chatMessagesTable.created_at), asc(chatMessagesTable.id))
+    .limit(options.limit ?? 50)
+
+  return rows.map(row => ({ ...row, createdAt: Number(row.createdAt) }))
+}
@@ -0,0 +1,117 @@
+import type { DuckDBWasmDrizzleDatabase } from '@proj-airi/drizzle-duckdb-wasm'
+
+import { DBStorageType, drizzle, DuckDBAccessMode } from '@proj-airi/drizzle-duckdb-wasm'
+import { getImportUrlBundles } from '@proj-airi/drizzle-duckdb-wasm/bundles/import-url-browser'
+import { and, ne, notInArray, sql } from 'drizzle-orm'
+import { chunk } from 'es-toolkit'
+
+import { termRowsOf } from '../utils/chat-history'
+
+import * as schema from './schema'
+
+export type Database = DuckDBWasmDrizzleDatabase<typeof schema>
+
+const DATABASE_PATH = 'airi.db'
+
+let database: Promise<Database> | undefined
+
+/**
+ * Adds the messages missing from the term index to it, e.g. ones saved before it existed.
+ */
+async function indexChatMessages(db: Database) {
+  const { chatMessagesTable, chatMessageTermsTable } = schema
+  const messages = await db
+    .select({ id: chatMessagesTable.id, session_id: chatMessagesTable.session_id, content: chatMessagesTable.content })
+    .from(chatMessagesTable)
+    .where(and(
+      ne(chatMessagesTable.content, ''),
+      notInArray(chatMessagesTable.id, db.select({ id: chatMessageTermsTable.message_id }).from(chatMessageTermsTable)),
+    ))
+
+  for (const terms of chunk(termRowsOf(messages), 1000))
+    await db.insert(chatMessageTermsTable).values(terms)
+}
+
+/**
+ * Creates the tables and their indexes when missing, so the database works without
+ * a separate migration step.
+ */
+export async function migrate(db: Database) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS chat_sessions (
+      id text PRIMARY KEY,
+      root_id text NOT NULL,
+      created_at bigint NOT NULL,
+      updated_at bigint NOT NULL
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS chat_messages (
+      id text PRIMARY KEY,
+      session_id text NOT NULL,
+      parent_id text,
+      position integer NOT NULL DEFAULT 0,
+      active_child text,
+      role text NOT NULL,
+      content text NOT NULL DEFAULT '',
+      message text NOT NULL,
+      created_at bigint NOT NULL
+    )
+  `)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS chat_messages_session_id_index ON chat_messages (session_id)`)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS chat_messages_created_at_index ON chat_messages (created_at)`)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS chat_message_terms (
+      message_id text NOT NULL,
+      session_id text NOT NULL,
+      term text NOT NULL,
+      count integer NOT NULL
+    )
+  `)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS chat_message_terms_term_index ON chat_message_terms (term)`)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS chat_message_terms_message_id_index ON chat_message_terms (message_id)`)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS chat_message_terms_session_id_index ON chat_message_terms (session_id)`)
+  await indexChatMessages(db)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS usage_records (
+      id text PRIMARY KEY,
+      session_id text NOT NULL,
+      provider_id text NOT NULL,
+      model text NOT NULL,
+      prompt_tokens integer NOT NULL,
+      completion_tokens integer NOT NULL,
+      total_tokens integer NOT NULL,
+      source text NOT NULL,
+      day text NOT NULL,
+      created_at bigint NOT NULL
+    )
+  `)
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS usage_records_created_at_index ON usage_records (created_at)`)
+}
+
+async function initDatabase() {
+  const db = drizzle({
+    connection: {
+      bundles: getImportUrlBundles(),
+      storage: { type: DBStorageType.ORIGIN_PRIVATE_FS, path: DATABASE_PATH, accessMode: DuckDBAccessMode.READ_WRITE },
+    },
+  }, { schema })
+
+  await migrate(db)
+  return db
+}
+
+/**
+ * The DuckDB database persisted in the Origin Private FS, connected on first use.
+ */
+export function useDatabase() {
+  database ??= initDatabase().catch((error) => {
+    // Let the next caller try again
+    database = undefined
+    throw error
+  })
+
+  return database
+}
+
+export { schema }
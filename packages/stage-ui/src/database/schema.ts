@@ -0,0 +1,64 @@
+import { bigint, index, integer, pgTable, text } from 'drizzle-orm/pg-core'
+
+export const chatSessionsTable = pgTable('chat_sessions', {
+  id: text().primaryKey(),
+  root_id: text().notNull(),
+  created_at: bigint({ mode: 'number' }).notNull(),
+  updated_at: bigint({ mode: 'number' }).notNull(),
+})
+
+/**
+ * Nodes of the chat history trees, see `ChatTree`.
+ */
+export const chatMessagesTable = pgTable('chat_messages', {
+  id: text().primaryKey(),
+  session_id: text().notNull(),
+  parent_id: text(),
+  // Order among the children of the parent
+  position: integer().notNull().default(0),
+  active_child: text(),
+  role: text().notNull(),
+  // Plain text of the message, searched by `searchChatMessages`
+  content: text().notNull().default(''),
+  // The whole `ChatHistoryItem` as JSON
+  message: text().notNull(),
+  created_at: bigint({ mode: 'number' }).notNull(),
+}, table => [
+  index('chat_messages_session_id_index').on(table.session_id),
+  index('chat_messages_created_at_index').on(table.created_at),
+])
+
+/**
+ * Full-text index of `chatMessagesTable.content`, one row per term of a message.
+ */
+export const chatMessageTermsTable = pgTable('chat_message_terms', {
+  message_id: text().notNull(),
+  session_id: text().notNull(),
+  // Lowercased word, or a single character of scripts written without spaces, see `termsOf`
+  term: text().notNull(),
+  // Times the term appears in the message
+  count: integer().notNull(),
+}, table => [
+  index('chat_message_terms_term_index').on(table.term),
+  index('chat_message_terms_message_id_index').on(table.message_id),
+  index('chat_message_terms_session_id_index').on(table.session_id),
+])
+
+/**
+ * One row per answered turn or summary, see `UsageRecord`.
+ */
+export const usageRecordsTable = pgTable('usage_records', {
+  id: text().primaryKey(),
+  session_id: text().notNull(),
+  provider_id: text().notNull(),
+  model: text().notNull(),
+  prompt_tokens: integer().notNull(),
+  completion_tokens: integer().notNull(),
+  total_tokens: integer().notNull(),
+  source: text().notNull(),
+  // Local calendar day of `created_at`, the daily totals are grouped by it
+  day: text().notNull(),
+  created_at: bigint({ mode: 'number' }).notNull(),
+}, table => [
+  index('usage_records_created_at_index').on(table.created_at),
+])
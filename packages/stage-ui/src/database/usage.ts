@@ -0,0 +1,60 @@
+import type { UsageRecord, UsageSummary } from '../utils/usage'
+
+import { asc, count, min, sql, sum } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+
+import { useDatabase } from '.'
+import { recordToRow, rowToRecord } from '../utils/usage'
+import { usageRecordsTable } from './schema'
+
+export async function insertUsageRecords(records: UsageRecord[]) {
+  if (records.length === 0)
+    return
+
+  const db = await useDatabase()
+  await db.insert(usageRecordsTable).values(records.map(record => recordToRow(nanoid(), record)))
+}
+
+/**
+ * Records summed up per day, session, provider and model, in the order they were first seen.
+ */
+export async function listUsageSummaries(): Promise<UsageSummary[]> {
+  const db = await useDatabase()
+  const rows = await db
+    .select({
+      day: usageRecordsTable.day,
+      sessionId: usageRecordsTable.session_id,
+      providerId: usageRecordsTable.provider_id,
+      model: usageRecordsTable.model,
+      turns: count(),
+      promptTokens: sum(usageRecordsTable.prompt_tokens),
+      completionTokens: sum(usageRecordsTable.completion_tokens),
+      totalTokens: sum(usageRecordsTable.total_tokens),
+      firstAt: min(usageRecordsTable.created_at),
+    })
+    .from(usageRecordsTable)
+    .groupBy(usageRecordsTable.day, usageRecordsTable.session_id, usageRecordsTable.provider_id, usageRecordsTable.model)
+    .orderBy(sql`min(${usageRecordsTable.created_at})`)
+
+  return rows.map(({ firstAt: _, ...row }) => ({
+    ...row,
+    turns: Number(row.turns),
+    promptTokens: Number(row.promptTokens ?? 0),
+    completionTokens: Number(row.completionTokens ?? 0),
+    totalTokens: Number(row.totalTokens ?? 0),
+  }))
+}
+
+/**
+ * Every record, oldest first, e.g. for exporting them.
+ */
+export async function listUsageRecords(): Promise<UsageRecord[]> {
+  const db = await useDatabase()
+  const rows = await db.select().from(usageRecordsTable).orderBy(asc(usageRecordsTable.created_at))
+  return rows.map(rowToRecord)
+}
+
+export async function deleteAllUsageRecords() {
+  const db = await useDatabase()
+  await db.delete(usageRecordsTable)
+}
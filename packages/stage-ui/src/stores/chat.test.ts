@@ -0,0 +1,191 @@
+import type { ChatProvider } from '@xsai-ext/providers/utils'
+
+import type { StreamOptions } from './llm'
+
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { useChatStore } from './chat'
+
+const { stream, generateText, record, getContextBudget } = vi.hoisted(() => ({
+  stream: vi.fn(),
+  generateText: vi.fn(),
+  record: vi.fn(),
+  getContextBudget: vi.fn(() => 100000),
+}))
+
+vi.mock('@xsai/generate-text', () => ({ generateText }))
+
+vi.mock('./llm', () => ({
+  useLLM: () => ({ stream, discoverToolsCompatibility: vi.fn() }),
+  resolveChatTools: async () => [],
+}))
+
+vi.mock('../database/chat-history', () => ({
+  listChatSessions: async () => [],
+  loadChatSession: async () => undefined,
+  saveChatSession: async () => {},
+  saveChatSessionChanges: async () => {},
+  deleteAllChatSessions: async () => {},
+  searchChatMessages: async () => [],
+}))
+
+vi.mock('../composables', () => ({
+  useAnalytics: () => ({ trackFirstMessage: () => {} }),
+}))
+
+vi.mock('./modules', async () => {
+  const { defineStore } = await import('pinia')
+  const { ref } = await import('vue')
+
+  return {
+    useAiriCardStore: defineStore('airi-card', () => ({ systemPrompt: ref('You are AIRI.'), activeCard: ref(undefined) })),
+    useConsciousnessStore: defineStore('consciousness', () => ({
+      activeProvider: ref('openai'),
+      defaultContextModuleCap: ref(1000),
+      contextModuleCaps: ref({}),
+      retryPolicy: ref(undefined),
+      getContextBudget,
+      getFallbackTargets: async () => [],
+    })),
+  }
+})
+
+vi.mock('./settings', async () => {
+  const { defineStore } = await import('pinia')
+  return { useSettings: defineStore('settings', () => ({ userName: '', language: '' })) }
+})
+
+vi.mock('./usage', async () => {
+  const { defineStore } = await import('pinia')
+  return { useUsageStore: defineStore('usage', () => ({ record })) }
+})
+
+const chatProvider = { chat: (model: string) => ({ model, baseURL: 'http://localhost/v1/' }) } as unknown as ChatProvider
+
+/**
+ * Streams `text` and starts a tool call, then hangs until the generation gets aborted.
+ */
+function streamUntilAborted(text: string) {
+  let started!: () => void
+  const streaming = new Promise<void>(resolve => started = resolve)
+
+  stream.mockImplementation(async (_model: string, _provider: ChatProvider, _messages: unknown[], options: StreamOptions) => {
+    await options.onStreamEvent?.({ type: 'text-delta', text })
+    await options.onStreamEvent?.({ type: 'tool-call-start', toolCallId: 'call-1', toolName: 'search', args: '{}', startedAt: Date.now() })
+    started()
+
+    return new Promise((_, reject) => {
+      options.abortSignal?.addEventListener('abort', () => reject(options.abortSignal?.reason), { once: true })
+    })
+  })
+
+  return streaming
+}
+
+describe('store chat', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    })
+
+    setActivePinia(createPinia())
+    stream.mockReset()
+    generateText.mockReset()
+    record.mockReset()
+    getContextBudget.mockReturnValue(100000)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps the partial reply of an interrupted generation', async () => {
+    const store = useChatStore()
+    const onStreamInterrupted = vi.fn(async () => {})
+    const onStreamEnd = vi.fn(async () => {})
+    store.onStreamInterrupted(onStreamInterrupted)
+    store.onStreamEnd(onStreamEnd)
+
+    const streaming = streamUntilAborted('Let me look that up for you')
+    const sent = store.send('what is the weather?', { model: 'gpt-4o', chatProvider })
+    await streaming
+    // Tool events are recorded asynchronously
+    await vi.waitFor(() => expect(store.streamingMessage.toolCalls).toHaveLength(1))
+
+    expect(store.interrupt()).toBe(true)
+    await sent
+
+    const reply = store.messages.at(-1)
+    expect(reply).toMatchObject({ role: 'assistant', content: 'Let me look that up for you', interrupted: true })
+    expect(reply?.role === 'assistant' && reply.toolCalls).toEqual([
+      expect.objectContaining({ id: 'call-1', status: 'failed', error: 'Interrupted before the tool finished' }),
+    ])
+    expect(onStreamInterrupted).toHaveBeenCalledTimes(1)
+    expect(onStreamEnd).not.toHaveBeenCalled()
+    expect(store.sending).toBe(false)
+    expect(store.streamingMessage.content).toBe('')
+  })
+
+  it('interrupts when the caller aborts', async () => {
+    const store = useChatStore()
+    const onStreamInterrupted = vi.fn(async () => {})
+    store.onStreamInterrupted(onStreamInterrupted)
+
+    const abortController = new AbortController()
+    const streaming = streamUntilAborted('Sure, ')
+    const sent = store.send('hello', { model: 'gpt-4o', chatProvider, abortSignal: abortController.signal })
+    await streaming
+
+    abortController.abort()
+    await sent
+
+    expect(store.messages.at(-1)).toMatchObject({ role: 'assistant', content: 'Sure, ', interrupted: true })
+    expect(onStreamInterrupted).toHaveBeenCalledTimes(1)
+  })
+
+  it('has nothing to interrupt once the generation is over', async () => {
+    const store = useChatStore()
+    stream.mockImplementation(async (_model: string, _provider: ChatProvider, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'Hello!' })
+      await options.onStreamEvent?.({ type: 'finish' })
+      return { model: 'gpt-4o', attempts: 1 }
+    })
+
+    expect(store.interrupt()).toBe(false)
+    await store.send('hello', { model: 'gpt-4o', chatProvider })
+
+    expect(store.interrupt()).toBe(false)
+    expect(store.messages.at(-1)).toMatchObject({ role: 'assistant', content: 'Hello!' })
+    expect(store.messages.at(-1)).not.toHaveProperty('interrupted')
+  })
+
+  it('records the usage of rolling summaries', async () => {
+    const store = useChatStore()
+    getContextBudget.mockReturnValue(600)
+    stream.mockImplementation(async (_model: string, _provider: ChatProvider, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'Hello!' })
+      return { model: 'gpt-4o', attempts: 1 }
+    })
+    generateText.mockResolvedValue({ text: 'They greeted each other.', usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 } })
+
+    // Only the third turn has more messages than the ones always kept
+    for (const message of ['hi', 'how are you?', 'tell me a story'])
+      await store.send(message, { model: 'gpt-4o', chatProvider })
+
+    expect(generateText).toHaveBeenCalledTimes(1)
+    expect(record).toHaveBeenCalledTimes(4)
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: store.activeSessionId,
+      providerId: 'openai',
+      model: 'gpt-4o',
+      promptTokens: 120,
+      completionTokens: 30,
+      totalTokens: 150,
+      source: 'provider-based',
+    }))
+  })
+})
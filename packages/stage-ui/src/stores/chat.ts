@@ -1,33 +1,183 @@
+import type { ActivatedLorebook } from '@proj-airi/ccc'
 import type { ChatProvider } from '@xsai-ext/providers/utils'
-import type { CommonContentPart, Message, SystemMessage, ToolMessage } from '@xsai/shared-chat'
+import type { CommonContentPart, Message, SystemMessage, ToolMessage, UserMessage } from '@xsai/shared-chat'
 
-import type { StreamEvent, StreamOptions } from '../stores/llm'
-import type { ChatAssistantMessage, ChatHistoryItem, ChatSlices, ChatStreamEventContext, ContextMessage, StreamingAssistantMessage } from '../types/chat'
+import type { StreamEvent, StreamOptions, StreamResult } from '../stores/llm'
+import type { ChatAssistantMessage, ChatBranchInfo, ChatHistoryItem, ChatInputSource, ChatSessionSummary, ChatStreamEventContext, ChatTree, ChatUsage, ContextMessage, StreamingAssistantMessage } from '../types/chat'
+import type { ChatHistorySearchOptions, ChatTreeChanges } from '../utils/chat-history'
 
+import { activateLorebook, renderMacros } from '@proj-airi/ccc'
 import { ContextUpdateStrategy } from '@proj-airi/server-sdk'
-import { useLocalStorage } from '@vueuse/core'
+import { useDebounceFn, useLocalStorage } from '@vueuse/core'
+import { generateText } from '@xsai/generate-text'
 import { defineStore, storeToRefs } from 'pinia'
 import { computed, ref, toRaw, watch } from 'vue'
 
 import { useAnalytics } from '../composables'
 import { useLlmmarkerParser } from '../composables/llmmarkerParser'
-import { useLLM } from '../stores/llm'
+import { deleteAllChatSessions, listChatSessions, loadChatSession, saveChatSession, saveChatSessionChanges, searchChatMessages } from '../database/chat-history'
+import { resolveChatTools, useLLM } from '../stores/llm'
+import { activeMessages, activeNodes, appendMessage, branchOf, createChatTree, removeNode, revealNode, selectNode, switchBranch } from '../utils/chat-tree'
+import { capContexts, countMessagesToFold, estimateMessagesTokens, estimateTokens, truncateToTokens } from '../utils/context-budget'
 import { createQueue } from '../utils/queue'
+import { providerFamilyOf, runTool, toolCallsOf, toProviderMessages, toProviderToolCall } from '../utils/tool-calls'
 import { TTS_FLUSH_INSTRUCTION } from '../utils/tts'
-import { useAiriCardStore } from './modules'
+import { useAiriCardStore, useConsciousnessStore } from './modules'
+import { useSettings } from './settings'
+import { useUsageStore } from './usage'
 
-const CHAT_STORAGE_KEY = 'chat/messages/v2'
+const LEGACY_CHAT_STORAGE_KEY = 'chat/messages/v2'
+const LEGACY_CHAT_TREES_STORAGE_KEY = 'chat/trees/v1'
 const ACTIVE_SESSION_STORAGE_KEY = 'chat/active-session'
+const CHAT_SUMMARIES_STORAGE_KEY = 'chat/summaries/v1'
+const CHAT_VARIABLES_STORAGE_KEY = 'chat/variables/v1'
 export const CONTEXT_CHANNEL_NAME = 'airi-context-update'
 export const CHAT_STREAM_CHANNEL_NAME = 'airi-chat-stream'
 
+// Sessions are written to the database once they stopped changing for this long
+const SAVE_DEBOUNCE_MS = 500
+// Upper bound of the rolling summary, reserved from the budget up front
+const SUMMARY_MAX_TOKENS = 512
+// Most recent history messages that are never folded into the summary
+const SUMMARY_KEEP_LAST_MESSAGES = 4
+const SUMMARY_SYSTEM_PROMPT = ''
+  + 'You maintain the rolling summary of a conversation between a user and an AI character. '
+  + 'Merge the previous summary and the new messages into a single concise summary, written in the language of the conversation. '
+  + 'Keep names, facts, preferences, promises, decisions and unresolved topics, drop small talk. '
+  + 'Reply with the summary only.'
+
+function messageToText(message: Message) {
+  const content = (message as { content?: unknown }).content
+  if (typeof content === 'string')
+    return content
+  if (Array.isArray(content))
+    return content.map(part => part?.type === 'text' ? part.text : `[${part?.type ?? 'unknown'}]`).join(' ')
+
+  return ''
+}
+
+type ToolStreamEvent = Extract<StreamEvent, { type: 'tool-call-start' | 'tool-call' | 'tool-result' }>
+
+/**
+ * Adds the tool call to the message's transcript, or updates it with the result.
+ */
+function recordToolEvent(message: ChatAssistantMessage, event: ToolStreamEvent) {
+  const toolCalls = message.toolCalls ??= []
+  let record = toolCalls.find(call => call.id === event.toolCallId)
+
+  if (event.type !== 'tool-result') {
+    if (!record) {
+      record = { id: event.toolCallId, name: event.toolName, args: event.args, status: 'pending', startedAt: Date.now() }
+      toolCalls.push(record)
+      message.slices.push({
+        type: 'tool-call',
+        toolCall: { toolCallId: event.toolCallId, toolName: event.toolName, args: event.args, toolCallType: 'function' },
+      })
+    }
+
+    // The arguments exactly as the model sent them come with the call after it ran
+    if (event.type === 'tool-call')
+      record.args = event.args
+
+    return
+  }
+
+  if (!record)
+    return
+
+  record.result = event.result
+  record.error = event.error
+  record.status = event.error ? 'failed' : 'succeeded'
+  record.startedAt = event.startedAt ?? record.startedAt
+  record.durationMs = event.durationMs
+}
+
+function messageToTranscriptLine(message: Message) {
+  const text = messageToText(message)
+  const toolCalls = 'tool_calls' in message && message.tool_calls?.length
+    ? ` (called tools: ${message.tool_calls.map(call => call.function.name).join(', ')})`
+    : ''
+
+  return `${message.role}: ${text}${toolCalls}`
+}
+
+/**
+ * Wraps the character definitions in the system prompt with the activated lorebook entries.
+ */
+function withLorebook(system: Message, lorebook: ActivatedLorebook): Message {
+  if (lorebook.beforeChar.length === 0 && lorebook.afterChar.length === 0)
+    return system
+
+  return {
+    ...system,
+    content: [
+      ...lorebook.beforeChar.map(entry => entry.content),
+      messageToText(system),
+      ...lorebook.afterChar.map(entry => entry.content),
+    ].join('\n\n'),
+  } as Message
+}
+
+/**
+ * Sessions kept in localStorage before they moved to the database, either as trees
+ * or, before branching, as flat arrays.
+ */
+function readLegacySessions(): Record<string, ChatTree> {
+  try {
+    const trees = localStorage.getItem(LEGACY_CHAT_TREES_STORAGE_KEY)
+    if (trees)
+      return JSON.parse(trees) as Record<string, ChatTree>
+
+    const sessions = JSON.parse(localStorage.getItem(LEGACY_CHAT_STORAGE_KEY) || '{}') as Record<string, ChatHistoryItem[]>
+    return Object.fromEntries(Object.entries(sessions)
+      .filter(([, messages]) => messages.length > 0)
+      .map(([sessionId, messages]) => [sessionId, createChatTree(messages)]))
+  }
+  catch (error) {
+    console.warn('Failed to read chat sessions from localStorage:', error)
+    return {}
+  }
+}
+
+/**
+ * Moves the sessions from localStorage to the database, they are only removed from
+ * localStorage once all of them were saved.
+ */
+async function migrateLegacySessions() {
+  const sessions = readLegacySessions()
+  for (const [sessionId, tree] of Object.entries(sessions)) {
+    if (!await loadChatSession(sessionId))
+      await saveChatSession(sessionId, tree)
+  }
+
+  localStorage.removeItem(LEGACY_CHAT_TREES_STORAGE_KEY)
+  localStorage.removeItem(LEGACY_CHAT_STORAGE_KEY)
+}
+
+function summaryToMessage(summary: ChatSessionSummary): Message {
+  return {
+    role: 'user',
+    content: [
+      { type: 'text', text: `Summary of the earlier part of this conversation, those messages are not included anymore:\n${summary.text}` },
+    ],
+  }
+}
+
 export const useChatStore = defineStore('chat', () => {
   const { stream, discoverToolsCompatibility } = useLLM()
-  const { systemPrompt } = storeToRefs(useAiriCardStore())
+  const { systemPrompt, activeCard } = storeToRefs(useAiriCardStore())
   const { trackFirstMessage } = useAnalytics()
+  const consciousnessStore = useConsciousnessStore()
+  const usageStore = useUsageStore()
+  const settingsStore = useSettings()
+  const { defaultContextModuleCap, contextModuleCaps } = storeToRefs(consciousnessStore)
 
   const activeSessionId = useLocalStorage<string>(ACTIVE_SESSION_STORAGE_KEY, 'default')
-  const sessionMessages = useLocalStorage<Record<string, ChatHistoryItem[]>>(CHAT_STORAGE_KEY, {})
+  // Sessions loaded from the database so far
+  const sessionTrees = ref<Record<string, ChatTree>>({})
+  const sessionSummaries = useLocalStorage<Record<string, ChatSessionSummary>>(CHAT_SUMMARIES_STORAGE_KEY, {})
+  // Set by `{{setvar}}` macros of the character card, per session
+  const sessionVariables = useLocalStorage<Record<string, Record<string, string>>>(CHAT_VARIABLES_STORAGE_KEY, {})
 
   const sending = ref(false)
   const streamingMessage = ref<StreamingAssistantMessage>({ role: 'assistant', content: '', slices: [], tool_results: [], createdAt: Date.now() })
@@ -41,6 +191,19 @@ export const useChatStore = defineStore('chat', () => {
     providerConfig?: Record<string, unknown>
     attachments?: { type: 'image', data: string, mimeType: string }[]
     tools?: StreamOptions['tools']
+    /**
+     * Interrupts the generation like `interrupt` does, e.g. for barge-in driven by the caller.
+     */
+    abortSignal?: AbortSignal
+    /**
+     * Provider `chatProvider` was created for, defaults to the active consciousness provider.
+     * Also decides which fallbacks are tried.
+     */
+    providerId?: string
+    /**
+     * Where the message came from when another module sent it, see `ChatInputSource`.
+     */
+    inputSource?: ChatInputSource
   }
 
   interface QueuedSend {
@@ -48,6 +211,10 @@ export const useChatStore = defineStore('chat', () => {
     options: SendOptions
     generation: number
     sessionId: string
+    /**
+     * Node of a user message already in the history to answer, instead of adding `sendingMessage`.
+     */
+    replyTo?: string
     cancelled?: boolean
     deferred: {
       resolve: () => void
@@ -56,11 +223,12 @@ export const useChatStore = defineStore('chat', () => {
   }
 
   const pendingQueuedSends = ref<QueuedSend[]>([])
+  const generationAbortControllers = new Map<string, AbortController>()
 
   const sendQueue = createQueue<QueuedSend>({
     handlers: [
       async ({ data }) => {
-        const { sendingMessage, options, generation, deferred, sessionId, cancelled } = data
+        const { sendingMessage, options, generation, deferred, sessionId, replyTo, cancelled } = data
 
         if (cancelled)
           return
@@ -71,7 +239,7 @@ export const useChatStore = defineStore('chat', () => {
         }
 
         try {
-          await performSend(sendingMessage, options, generation, sessionId)
+          await performSend(sendingMessage, options, generation, sessionId, replyTo)
           deferred.resolve()
         }
         catch (error) {
@@ -99,7 +267,8 @@ export const useChatStore = defineStore('chat', () => {
   const onStreamEndHooks = ref<Array<(context: ChatStreamEventContext) => Promise<void>>>([])
   const onAssistantResponseEndHooks = ref<Array<(message: string, context: ChatStreamEventContext) => Promise<void>>>([])
   const onAssistantMessageHooks = ref<Array<(message: StreamingAssistantMessage, messageText: string, context: ChatStreamEventContext) => Promise<void>>>([])
-  const onChatTurnCompleteHooks = ref<Array<(chat: { output: StreamingAssistantMessage, outputText: string, toolCalls: ToolMessage[] }, context: ChatStreamEventContext) => Promise<void>>>([])
+  const onChatTurnCompleteHooks = ref<Array<(chat: { output: StreamingAssistantMessage, outputText: string, toolCalls: ToolMessage[], usage: ChatUsage }, context: ChatStreamEventContext) => Promise<void>>>([])
+  const onStreamInterruptedHooks = ref<Array<(context: ChatStreamEventContext) => Promise<void>>>([])
 
   function onBeforeMessageComposed(cb: (message: string, context: Omit<ChatStreamEventContext, 'composedMessage'>) => Promise<void>) {
     onBeforeMessageComposedHooks.value.push(cb)
@@ -146,11 +315,16 @@ export const useChatStore = defineStore('chat', () => {
     return () => onAssistantMessageHooks.value = onAssistantMessageHooks.value.filter(hook => hook !== cb) // return remove listener callback
   }
 
-  function onChatTurnComplete(cb: (chat: { output: StreamingAssistantMessage, outputText: string, toolCalls: ToolMessage[] }, context: ChatStreamEventContext) => Promise<void>) {
+  function onChatTurnComplete(cb: (chat: { output: StreamingAssistantMessage, outputText: string, toolCalls: ToolMessage[], usage: ChatUsage }, context: ChatStreamEventContext) => Promise<void>) {
     onChatTurnCompleteHooks.value.push(cb)
     return () => onChatTurnCompleteHooks.value = onChatTurnCompleteHooks.value.filter(hook => hook !== cb) // return remove listener callback
   }
 
+  function onStreamInterrupted(cb: (context: ChatStreamEventContext) => Promise<void>) {
+    onStreamInterruptedHooks.value.push(cb)
+    return () => onStreamInterruptedHooks.value = onStreamInterruptedHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  }
+
   function clearHooks() {
     onBeforeMessageComposedHooks.value = []
     onAfterMessageComposedHooks.value = []
@@ -162,6 +336,7 @@ export const useChatStore = defineStore('chat', () => {
     onAssistantResponseEndHooks.value = []
     onAssistantMessageHooks.value = []
     onChatTurnCompleteHooks.value = []
+    onStreamInterruptedHooks.value = []
   }
 
   async function emitBeforeMessageComposedHooks(message: string, context: Omit<ChatStreamEventContext, 'composedMessage'>) {
@@ -209,11 +384,16 @@ export const useChatStore = defineStore('chat', () => {
       await hook(message, messageText, context)
   }
 
-  async function emitChatTurnCompleteHooks(chat: { output: StreamingAssistantMessage, outputText: string, toolCalls: ToolMessage[] }, context: ChatStreamEventContext) {
+  async function emitChatTurnCompleteHooks(chat: { output: StreamingAssistantMessage, outputText: string, toolCalls: ToolMessage[], usage: ChatUsage }, context: ChatStreamEventContext) {
     for (const hook of onChatTurnCompleteHooks.value)
       await hook(chat, context)
   }
 
+  async function emitStreamInterruptedHooks(context: ChatStreamEventContext) {
+    for (const hook of onStreamInterruptedHooks.value)
+      await hook(context)
+  }
+
   // ----- Session state helpers -----
   // I know this nu uh, better than loading all language on rehypeShiki
   const codeBlockSystemPrompt = '- For any programming code block, always specify the programming language that supported on @shikijs/rehype on the rendered markdown, eg. ```python ... ```\n'
@@ -235,8 +415,25 @@ export const useChatStore = defineStore('chat', () => {
     return nextGeneration
   }
 
+  /**
+   * Renders the macros of the active character card, e.g. `{{user}}`, `{{char}}` and `{{time}}`.
+   */
+  function renderCardMacros(text: string, sessionId: string) {
+    const variables = sessionVariables.value[sessionId] ?? {}
+    const rendered = renderMacros(text, {
+      user: settingsStore.userName || 'User',
+      char: activeCard.value?.name || 'AIRI',
+      variables,
+      seed: sessionId,
+      locale: settingsStore.language || undefined,
+    })
+
+    sessionVariables.value = { ...sessionVariables.value, [sessionId]: variables }
+    return rendered
+  }
+
+  // Macros are left in place here and rendered on every send, so `{{time}}` and friends stay current
   function generateInitialMessage() {
-    // TODO: compose, replace {{ user }} tag, etc
     const content = codeBlockSystemPrompt + mathSyntaxSystemPrompt + systemPrompt.value
 
     return {
@@ -245,39 +442,242 @@ export const useChatStore = defineStore('chat', () => {
     } satisfies SystemMessage
   }
 
-  function ensureSession(sessionId: string) {
-    ensureSessionGeneration(sessionId)
+  function generateInitialHistory(sessionId: string): ChatHistoryItem[] {
+    const [greeting] = activeCard.value?.greetings ?? []
+    if (!greeting)
+      return [generateInitialMessage()]
+
+    const content = renderCardMacros(greeting, sessionId)
+    return [
+      generateInitialMessage(),
+      { role: 'assistant', content, slices: [{ type: 'text', text: content }], tool_results: [], createdAt: Date.now() },
+    ]
+  }
+
+  // ----- Persistence -----
+  const migration = migrateLegacySessions().catch((error) => {
+    console.warn('Failed to move chat sessions to the database, they stay in localStorage for now:', error)
+  })
+  const sessionLoads = new Map<string, Promise<void>>()
+  // Changes not written to the database yet, only the nodes in there are saved
+  const pendingChanges = new Map<string, ChatTreeChanges>()
+  // Sessions written as a whole on the next save, e.g. new or reset ones
+  const replacedSessions = new Set<string>()
+  let saving = Promise.resolve()
+
+  /**
+   * Loads the session from the database, or starts it when there is none.
+   */
+  function loadSession(sessionId: string) {
+    if (sessionTrees.value[sessionId])
+      return Promise.resolve()
+
+    if (!sessionLoads.has(sessionId)) {
+      sessionLoads.set(sessionId, (async () => {
+        await migration
+
+        let tree: ChatTree | undefined
+        let stored = true
+        try {
+          tree = await loadChatSession(sessionId)
+        }
+        catch (error) {
+          console.warn('Failed to load chat session from the database:', error)
+          tree = readLegacySessions()[sessionId]
+          stored = false
+        }
+
+        // Started in the meantime, e.g. by a cleanup
+        if (sessionTrees.value[sessionId])
+          return
+
+        sessionTrees.value[sessionId] = tree ?? createChatTree(generateInitialHistory(sessionId))
+        if (!tree || !stored) {
+          markReplaced(sessionId)
+          return
+        }
+
+        // Stored sessions follow the current system prompt, like the loaded ones do
+        updateSystemPrompt(sessionId)
+      })().finally(() => sessionLoads.delete(sessionId)))
+    }
+
+    return sessionLoads.get(sessionId)!
+  }
+
+  async function saveChangedSessions() {
+    for (const sessionId of [...replacedSessions]) {
+      replacedSessions.delete(sessionId)
+      const tree = sessionTrees.value[sessionId]
+      if (!tree)
+        continue
+
+      try {
+        await saveChatSession(sessionId, toRaw(tree))
+      }
+      catch (error) {
+        replacedSessions.add(sessionId)
+        console.warn('Failed to save chat session to the database:', error)
+      }
+    }
+
+    for (const [sessionId, changes] of [...pendingChanges]) {
+      pendingChanges.delete(sessionId)
+      const tree = sessionTrees.value[sessionId]
+      if (!tree || replacedSessions.has(sessionId))
+        continue
+
+      try {
+        await saveChatSessionChanges(sessionId, toRaw(tree), changes)
+      }
+      catch (error) {
+        // What made it to the database is unknown, start over with the whole session
+        replacedSessions.add(sessionId)
+        console.warn('Failed to save chat session to the database:', error)
+      }
+    }
+  }
+
+  /**
+   * Writes pending changes to the database, saves never run concurrently.
+   */
+  function flushSessions() {
+    saving = saving.then(saveChangedSessions)
+    return saving
+  }
+
+  const scheduleSave = useDebounceFn(flushSessions, SAVE_DEBOUNCE_MS)
+
+  /**
+   * Remembers the nodes to write on the next save, see `ChatTreeChanges`.
+   */
+  function markChanged(sessionId: string, kind: keyof ChatTreeChanges, ids: Iterable<string>) {
+    if (!replacedSessions.has(sessionId)) {
+      let changes = pendingChanges.get(sessionId)
+      if (!changes) {
+        changes = { nodes: new Set(), pointers: new Set(), removed: new Set() }
+        pendingChanges.set(sessionId, changes)
+      }
 
-    if (!sessionMessages.value[sessionId] || sessionMessages.value[sessionId].length === 0) {
-      sessionMessages.value[sessionId] = [generateInitialMessage()]
+      for (const id of ids)
+        changes[kind].add(id)
     }
+
+    void scheduleSave()
+  }
+
+  function markReplaced(sessionId: string) {
+    pendingChanges.delete(sessionId)
+    replacedSessions.add(sessionId)
+    void scheduleSave()
+  }
+
+  /**
+   * Appends the message like `appendMessage` does, and remembers to save it.
+   */
+  function appendToSession(sessionId: string, tree: ChatTree, message: ChatHistoryItem, parentId?: string) {
+    const node = appendMessage(tree, message, parentId)
+    markChanged(sessionId, 'nodes', [node.id])
+    markChanged(sessionId, 'pointers', [node.parentId!])
+    return node
+  }
+
+  function updateSystemPrompt(sessionId: string) {
+    const tree = sessionTrees.value[sessionId]
+    const root = tree?.nodes[tree.rootId]
+    if (root?.message.role !== 'system')
+      return
+
+    const message = generateInitialMessage()
+    if (root.message.content === message.content)
+      return
+
+    root.message = message
+    markChanged(sessionId, 'nodes', [root.id])
+  }
+
+  function ensureSession(sessionId: string) {
+    ensureSessionGeneration(sessionId)
+    void loadSession(sessionId)
   }
 
   ensureSession(activeSessionId.value)
 
-  function getSessionMessagesById(sessionId: string) {
+  /**
+   * The session's tree, `undefined` while it is still loading.
+   */
+  function getSessionTree(sessionId: string): ChatTree | undefined {
     ensureSession(sessionId)
-    return sessionMessages.value[sessionId]!
+    return sessionTrees.value[sessionId]
+  }
+
+  function getSessionMessagesById(sessionId: string) {
+    const tree = getSessionTree(sessionId)
+    return tree ? activeMessages(tree) : []
   }
 
+  /**
+   * Messages of the active branch. Setting them replaces the whole session, other branches included.
+   */
   const messages = computed<ChatHistoryItem[]>({
-    get: () => {
-      ensureSession(activeSessionId.value)
-      return sessionMessages.value[activeSessionId.value]
-    },
+    get: () => getSessionMessagesById(activeSessionId.value),
     set: (value) => {
-      sessionMessages.value[activeSessionId.value] = value
+      sessionTrees.value[activeSessionId.value] = createChatTree(value)
+      markReplaced(activeSessionId.value)
+      forgetSummaryFrom(activeSessionId.value, 0)
     },
   })
 
+  /**
+   * Position of each message of the active branch among its alternatives, aligned with `messages`.
+   */
+  const messageBranches = computed<ChatBranchInfo[]>(() => {
+    const tree = getSessionTree(activeSessionId.value)
+    return tree ? activeNodes(tree).map(node => branchOf(tree, node.id)) : []
+  })
+
+  /**
+   * Rolling summaries cover the start of the active branch, they are dropped once
+   * the branch changes at `index` or before it.
+   */
+  function forgetSummaryFrom(sessionId: string, index: number) {
+    const summary = sessionSummaries.value[sessionId]
+    if (!summary || index > summary.foldedCount)
+      return
+
+    const { [sessionId]: _, ...otherSummaries } = sessionSummaries.value
+    sessionSummaries.value = otherSummaries
+  }
+
   function setActiveSession(sessionId: string) {
     activeSessionId.value = sessionId
     ensureSession(sessionId)
   }
 
+  /**
+   * Stops the generation in flight for the session, the partial assistant message is kept
+   * and marked as `interrupted`. Queued sends are left untouched.
+   *
+   * @returns whether there was a generation to interrupt
+   */
+  function interrupt(sessionId = activeSessionId.value) {
+    const controller = generationAbortControllers.get(sessionId)
+    if (!controller || controller.signal.aborted)
+      return false
+
+    controller.abort(new DOMException('Generation interrupted', 'AbortError'))
+    return true
+  }
+
   function cleanupMessages(sessionId = activeSessionId.value) {
     bumpSessionGeneration(sessionId)
-    sessionMessages.value[sessionId] = [generateInitialMessage()]
+    interrupt(sessionId)
+    const { [sessionId]: _, ...otherSummaries } = sessionSummaries.value
+    sessionSummaries.value = otherSummaries
+    const { [sessionId]: _variables, ...otherVariables } = sessionVariables.value
+    sessionVariables.value = otherVariables
+    sessionTrees.value[sessionId] = createChatTree(generateInitialHistory(sessionId))
+    markReplaced(sessionId)
 
     // Reject pending sends for this session so callers don't hang after cleanup
     for (const queued of pendingQueuedSends.value) {
@@ -293,33 +693,60 @@ export const useChatStore = defineStore('chat', () => {
     streamingMessage.value = { role: 'assistant', content: '', slices: [], tool_results: [] }
   }
 
-  function getAllSessions() {
-    return JSON.parse(JSON.stringify(toRaw(sessionMessages.value))) as Record<string, ChatHistoryItem[]>
+  /**
+   * Active branches of all sessions, other branches are left out.
+   */
+  async function getAllSessions() {
+    await flushSessions()
+
+    const sessions: Record<string, ChatHistoryItem[]> = {}
+    for (const { id } of await listChatSessions()) {
+      const tree = sessionTrees.value[id] ?? await loadChatSession(id)
+      if (tree)
+        sessions[id] = activeMessages(tree)
+    }
+
+    return JSON.parse(JSON.stringify(sessions)) as Record<string, ChatHistoryItem[]>
   }
 
-  function replaceSessions(sessions: Record<string, ChatHistoryItem[]>) {
-    sessionMessages.value = sessions
+  async function replaceSessions(sessions: Record<string, ChatHistoryItem[]>) {
+    await flushSessions()
+    await deleteAllChatSessions()
+    pendingChanges.clear()
+    replacedSessions.clear()
+
+    sessionTrees.value = Object.fromEntries(Object.entries(sessions)
+      .filter(([, messages]) => messages.length > 0)
+      .map(([sessionId, messages]) => [sessionId, createChatTree(messages)]))
+    for (const sessionId of Object.keys(sessionTrees.value))
+      markReplaced(sessionId)
+    sessionSummaries.value = {}
+    sessionVariables.value = {}
     sessionGenerations.value = Object.fromEntries(Object.keys(sessions).map(sessionId => [sessionId, 0]))
     const [firstSessionId] = Object.keys(sessions)
-    if (!sessionMessages.value[activeSessionId.value] && firstSessionId)
+    if (!sessionTrees.value[activeSessionId.value] && firstSessionId)
       activeSessionId.value = firstSessionId
 
     ensureSession(activeSessionId.value)
   }
 
-  function resetAllSessions() {
-    sessionMessages.value = {}
+  async function resetAllSessions() {
+    await flushSessions()
+    await deleteAllChatSessions()
+    pendingChanges.clear()
+    replacedSessions.clear()
+
+    sessionTrees.value = {}
+    sessionSummaries.value = {}
+    sessionVariables.value = {}
     sessionGenerations.value = {}
     activeSessionId.value = 'default'
     ensureSession(activeSessionId.value)
   }
 
   watch(systemPrompt, () => {
-    for (const [sessionId, history] of Object.entries(sessionMessages.value)) {
-      if (history.length > 0 && history[0].role === 'system') {
-        sessionMessages.value[sessionId][0] = generateInitialMessage()
-      }
-    }
+    for (const sessionId of Object.keys(sessionTrees.value))
+      updateSystemPrompt(sessionId)
   }, { immediate: true })
 
   function ingestContextMessage(envelope: ContextMessage) {
@@ -335,30 +762,114 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
+  function estimateUsage(prompt: Message[], completion: string): ChatUsage {
+    const promptTokens = estimateMessagesTokens(prompt)
+    const completionTokens = estimateTokens(completion)
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, source: 'estimate-based' }
+  }
+
+  // ----- Context budget -----
+  async function summarizeMessages(sessionId: string, previous: string | undefined, messages: Message[], options: SendOptions, abortSignal: AbortSignal) {
+    const transcript = messages.map(messageToTranscriptLine).join('\n')
+    const budget = consciousnessStore.getContextBudget(options.model)
+    const prompt: Message[] = [
+      { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+      { role: 'user', content: `Previous summary:\n${previous || '(none)'}\n\nNew messages:\n${truncateToTokens(transcript, Math.floor(budget / 2))}` },
+    ]
+
+    const res = await generateText({
+      ...options.chatProvider.chat(options.model),
+      headers: (options.providerConfig?.headers || {}) as Record<string, string>,
+      abortSignal,
+      messages: prompt,
+    })
+
+    // Summaries are billed on the same model as the turn that asked for them
+    const usage: ChatUsage = res.usage
+      ? {
+          promptTokens: res.usage.prompt_tokens,
+          completionTokens: res.usage.completion_tokens,
+          totalTokens: res.usage.total_tokens,
+          source: 'provider-based',
+        }
+      : estimateUsage(prompt, res.text ?? '')
+    usageStore.record({
+      ...usage,
+      sessionId,
+      providerId: options.providerId ?? consciousnessStore.activeProvider,
+      model: options.model,
+      createdAt: Date.now(),
+    })
+
+    return truncateToTokens(res.text?.trim() ?? '', SUMMARY_MAX_TOKENS)
+  }
+
+  /**
+   * Leaves out the messages already folded into the session's rolling summary, and folds
+   * the oldest remaining ones into it when they don't fit in `budget` anymore. Should the
+   * summarization fail, those messages are left out of this request without being summarized.
+   */
+  async function foldHistory(sessionId: string, history: Message[], options: { budget: number, sendOptions: SendOptions, abortSignal: AbortSignal, isStale: () => boolean }) {
+    let summary = sessionSummaries.value[sessionId] as ChatSessionSummary | undefined
+    const turns = history.slice(summary?.foldedCount ?? 0)
+
+    const count = countMessagesToFold(turns, options.budget, { keepLast: SUMMARY_KEEP_LAST_MESSAGES })
+    if (count === 0)
+      return { summary, turns }
+
+    try {
+      const text = await summarizeMessages(sessionId, summary?.text, turns.slice(0, count), options.sendOptions, options.abortSignal)
+      if (!options.isStale() && text) {
+        summary = { text, foldedCount: (summary?.foldedCount ?? 0) + count, updatedAt: Date.now() }
+        sessionSummaries.value = { ...sessionSummaries.value, [sessionId]: summary }
+      }
+    }
+    catch (error) {
+      if (!options.abortSignal.aborted)
+        console.warn('Failed to summarize chat history, leaving the oldest messages out instead:', error)
+    }
+
+    return { summary, turns: turns.slice(count) }
+  }
+
   // ----- Send flow (user -> LLM -> assistant) -----
   async function performSend(
     sendingMessage: string,
     options: SendOptions,
     generation: number,
     sessionId: string,
+    replyTo?: string,
   ) {
-    if (!sendingMessage && !options.attachments?.length)
+    if (!replyTo && !sendingMessage && !options.attachments?.length)
       return
 
     ensureSession(sessionId)
+    await loadSession(sessionId)
 
     const sendingCreatedAt = Date.now()
     const streamingMessageContext: ChatStreamEventContext = {
       input: { role: 'user', content: sendingMessage, createdAt: sendingCreatedAt },
+      inputSource: options.inputSource,
       contexts: { ...activeContexts.value },
       composedMessage: [],
     }
 
     const isStaleGeneration = () => getSessionGeneration(sessionId) !== generation
-    const shouldAbort = () => isStaleGeneration()
-    if (shouldAbort())
+    if (isStaleGeneration())
       return
 
+    const abortController = new AbortController()
+    const abortFromCaller = () => abortController.abort(options.abortSignal?.reason)
+    if (options.abortSignal?.aborted)
+      abortController.abort(options.abortSignal.reason)
+    else
+      options.abortSignal?.addEventListener('abort', abortFromCaller, { once: true })
+
+    generationAbortControllers.set(sessionId, abortController)
+
+    const isInterrupted = () => abortController.signal.aborted
+    const shouldAbort = () => isStaleGeneration() || isInterrupted()
+
     sending.value = true
 
     streamingMessage.value = { role: 'assistant', content: '', slices: [], tool_results: [], createdAt: Date.now() }
@@ -382,21 +893,37 @@ export const useChatStore = defineStore('chat', () => {
         }
       }
 
-      const finalContent = contentParts.length > 1 ? contentParts : sendingMessage
+      const sessionTree = getSessionTree(sessionId)!
+      const repliedNode = replyTo ? sessionTree.nodes[replyTo] : undefined
+      if (replyTo && !repliedNode)
+        throw new Error('Message to reply to is not in the chat history anymore')
+
+      const finalContent: UserMessage['content'] = repliedNode
+        ? (repliedNode.message as UserMessage).content
+        : contentParts.length > 1 ? contentParts : sendingMessage
       streamingMessageContext.input.content = finalContent
 
       if (shouldAbort())
         return
 
-      const sessionMessagesForSend = getSessionMessagesById(sessionId)
-      sessionMessagesForSend.push({ role: 'user', content: finalContent })
+      const promptNode = repliedNode ?? appendToSession(sessionId, sessionTree, { role: 'user', content: finalContent, createdAt: sendingCreatedAt })
+      const sessionMessagesForSend = activeMessages(sessionTree)
+
+      // Replies always go below the prompt, even when the user switched branches in the meantime
+      const appendReply = (message: ChatHistoryItem) => {
+        const tree = sessionTrees.value[sessionId]
+        if (tree?.nodes[promptNode.id])
+          appendToSession(sessionId, tree, message, promptNode.id)
+      }
 
       const parser = useLlmmarkerParser({
         onLiteral: async (literal) => {
-          if (shouldAbort())
+          if (isStaleGeneration())
             return
 
-          await emitTokenLiteralHooks(literal, streamingMessageContext)
+          // Text buffered by the parser still belongs to the partial message, but must not reach TTS anymore
+          if (!isInterrupted())
+            await emitTokenLiteralHooks(literal, streamingMessageContext)
 
           streamingMessage.value.content += literal
 
@@ -421,60 +948,88 @@ export const useChatStore = defineStore('chat', () => {
         minLiteralEmitLength: 24, // Avoid emitting literals too fast. This is a magic number and can be changed later.
       })
 
-      const toolCallQueue = createQueue<ChatSlices>({
+      const toolCallQueue = createQueue<ToolStreamEvent>({
         handlers: [
           async (ctx) => {
             if (shouldAbort())
               return
-            if (ctx.data.type === 'tool-call') {
-              streamingMessage.value.slices.push(ctx.data)
-              return
-            }
 
-            if (ctx.data.type === 'tool-call-result') {
-              streamingMessage.value.tool_results.push(ctx.data)
-            }
+            recordToolEvent(streamingMessage.value, ctx.data)
           },
         ],
       })
 
-      let newMessages = sessionMessagesForSend.map((msg) => {
+      const providerId = options.providerId ?? consciousnessStore.activeProvider
+      const providerFamily = providerFamilyOf(providerId, options.model)
+
+      // One message per history entry, tool results are only expanded after folding
+      const historyMessages = sessionMessagesForSend.map((msg) => {
         const { context: _context, ...withoutContext } = msg
         const rawMessage = toRaw(withoutContext)
 
         if (rawMessage.role === 'assistant') {
-          const { slices: _, tool_results, ...rest } = rawMessage as ChatAssistantMessage
+          const toolCalls = toolCallsOf(rawMessage as ChatAssistantMessage).filter(call => call.status !== 'pending')
           return {
-            ...toRaw(rest),
-            tool_results: toRaw(tool_results),
+            role: 'assistant',
+            content: rawMessage.content,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls.map(call => toProviderToolCall(toRaw(call), providerFamily)) } : {}),
           }
         }
 
         return rawMessage
-      })
+      }) as Message[]
+
+      const [characterSystem, ...turns] = historyMessages
+      const budget = consciousnessStore.getContextBudget(options.model)
+
+      // Scanned before folding, so entries stay active for turns that were just summarized
+      const lorebook = activateLorebook(activeCard.value?.characterBook, turns.map(messageToText), { countTokens: estimateTokens })
+      const withEntries = withLorebook(characterSystem, lorebook)
+      const system = { ...withEntries, content: renderCardMacros(messageToText(withEntries), sessionId) } as Message
+      const postHistoryInstructions = activeCard.value?.postHistoryInstructions
+        ? [{ role: 'system', content: renderCardMacros(activeCard.value.postHistoryInstructions, sessionId) } satisfies SystemMessage]
+        : []
 
       // TODO: possible prototype pollution as key of activeContexts is from external source
       // TODO: sanitize keys or use a safer structure
-      if (Object.keys(activeContexts.value).length > 0) {
-        const system = newMessages.slice(0, 1)
-        const afterSystem = newMessages.slice(1, newMessages.length)
-
-        newMessages = [
-          ...system,
-          {
-            role: 'user',
-            content: [
+      const contexts = capContexts(activeContexts.value, { default: defaultContextModuleCap.value, modules: contextModuleCaps.value })
+      const contextMessages: Message[] = []
+      if (Object.keys(contexts).length > 0) {
+        contextMessages.push({
+          role: 'user',
+          content: [
             // TODO: use prompt render & i18n system later
-            // TODO: Module should have description & context length management
-              { type: 'text', text: ''
-                + 'These are the contextual information retrieved or on-demand updated from other modules, you may use them as context for chat, or reference of the next action, tool call, etc.:\n'
-                + `${Object.entries(activeContexts.value).map(([key, value]) => `Module ${key}: ${JSON.stringify(value)}`).join('\n')}\n` },
-            ],
-          },
-          ...afterSystem,
-        ]
+            // TODO: Module should have description
+            { type: 'text', text: ''
+              + 'These are the contextual information retrieved or on-demand updated from other modules, you may use them as context for chat, or reference of the next action, tool call, etc.:\n'
+              + `${Object.entries(contexts).map(([key, value]) => `Module ${key}: ${JSON.stringify(value)}`).join('\n')}\n` },
+          ],
+        })
       }
 
+      const folded = await foldHistory(sessionId, turns, {
+        budget: budget - estimateMessagesTokens([system, ...contextMessages, ...postHistoryInstructions]) - SUMMARY_MAX_TOKENS,
+        sendOptions: options,
+        abortSignal: abortController.signal,
+        isStale: isStaleGeneration,
+      })
+
+      if (shouldAbort())
+        return
+
+      const keptEntries = sessionMessagesForSend.slice(sessionMessagesForSend.length - folded.turns.length)
+      const turnsForProvider = folded.turns.flatMap((turn, index) => turn.role === 'assistant'
+        ? toProviderMessages(toRaw(keptEntries[index]) as ChatAssistantMessage, providerFamily)
+        : [turn])
+
+      const newMessages: Message[] = [
+        system,
+        ...(folded.summary ? [summaryToMessage(folded.summary)] : []),
+        ...contextMessages,
+        ...turnsForProvider,
+        ...postHistoryInstructions,
+      ]
+
       streamingMessageContext.composedMessage = newMessages as Message[]
 
       await emitAfterMessageComposedHooks(sendingMessage, streamingMessageContext)
@@ -486,45 +1041,94 @@ export const useChatStore = defineStore('chat', () => {
       if (shouldAbort())
         return
 
-      await stream(options.model, options.chatProvider, newMessages as Message[], {
-        headers,
-        tools: options.tools,
-        onStreamEvent: async (event: StreamEvent) => {
-          switch (event.type) {
-            case 'tool-call':
-              toolCallQueue.enqueue({
-                type: 'tool-call',
-                toolCall: event,
-              })
-
-              break
-            case 'tool-result':
-              toolCallQueue.enqueue({
-                type: 'tool-call-result',
-                id: event.toolCallId,
-                result: event.result,
-              })
-
-              break
-            case 'text-delta':
-              fullText += event.text
-              await parser.consume(event.text)
-              break
-            case 'finish':
-            // Do nothing, resolve
-              break
-            case 'error':
-              throw event.error ?? new Error('Stream error')
+      const fallbacks = await consciousnessStore.getFallbackTargets(options.model, providerId)
+
+      if (shouldAbort())
+        return
+
+      let answeredBy: StreamResult | undefined
+
+      try {
+        answeredBy = await stream(options.model, options.chatProvider, newMessages as Message[], {
+          headers,
+          tools: options.tools,
+          abortSignal: abortController.signal,
+          providerId,
+          fallbacks,
+          retryPolicy: consciousnessStore.retryPolicy,
+          onFailover: (failed, next, error) => {
+            console.warn(`Chat completion from ${failed.providerId}/${failed.model} failed, falling back to ${next.providerId}/${next.model}:`, error)
+          },
+          onStreamEvent: async (event: StreamEvent) => {
+            if (isInterrupted())
+              return
+
+            switch (event.type) {
+              case 'tool-call-start':
+              case 'tool-call':
+              case 'tool-result':
+                toolCallQueue.enqueue(event)
+                break
+              case 'text-delta':
+                fullText += event.text
+                await parser.consume(event.text)
+                break
+              case 'finish':
+              // Do nothing, resolve
+                break
+              case 'error':
+                throw event.error ?? new Error('Stream error')
+            }
+          },
+        })
+
+        streamingMessage.value.generatedBy = { providerId: answeredBy.providerId, model: answeredBy.model }
+      }
+      catch (error) {
+        if (!isInterrupted())
+          throw error
+      }
+
+      // Interrupted generations are billed too, but the provider never gets to report their usage
+      const usage: ChatUsage = answeredBy?.usage
+        ? {
+            promptTokens: answeredBy.usage.prompt_tokens,
+            completionTokens: answeredBy.usage.completion_tokens,
+            totalTokens: answeredBy.usage.total_tokens,
+            source: 'provider-based',
           }
-        },
+        : estimateUsage(newMessages, fullText)
+
+      streamingMessage.value.usage = usage
+      usageStore.record({
+        ...usage,
+        sessionId,
+        providerId: answeredBy?.providerId ?? providerId,
+        model: answeredBy?.model ?? options.model,
+        createdAt: Date.now(),
       })
 
       // Finalize the parsing of the actual message content
       await parser.end()
 
+      if (isInterrupted()) {
+        for (const call of streamingMessage.value.toolCalls ?? []) {
+          if (call.status === 'pending')
+            Object.assign(call, { status: 'failed', error: 'Interrupted before the tool finished' })
+        }
+
+        if (!isStaleGeneration() && streamingMessage.value.slices.length > 0)
+          appendReply({ ...toRaw(streamingMessage.value), interrupted: true })
+
+        await emitStreamInterruptedHooks(streamingMessageContext)
+
+        streamingMessage.value = { role: 'assistant', content: '', slices: [], tool_results: [] }
+        return
+      }
+
       // Add the completed message to the history only if it has content
       if (!isStaleGeneration() && streamingMessage.value.slices.length > 0) {
-        sessionMessagesForSend.push(toRaw(streamingMessage.value))
+        appendReply(toRaw(streamingMessage.value))
       }
 
       // Instruct the TTS pipeline to flush by calling hooks directly
@@ -542,7 +1146,8 @@ export const useChatStore = defineStore('chat', () => {
       await emitChatTurnCompleteHooks({
         output: { ...streamingMessage.value },
         outputText: fullText,
-        toolCalls: sessionMessagesForSend.filter(msg => msg.role === 'tool') as ToolMessage[],
+        toolCalls: toProviderMessages(toRaw(streamingMessage.value), providerFamily).filter(msg => msg.role === 'tool') as ToolMessage[],
+        usage,
       }, streamingMessageContext)
 
       // Reset the streaming message for the next turn
@@ -553,15 +1158,15 @@ export const useChatStore = defineStore('chat', () => {
       throw error
     }
     finally {
+      options.abortSignal?.removeEventListener('abort', abortFromCaller)
+      if (generationAbortControllers.get(sessionId) === abortController)
+        generationAbortControllers.delete(sessionId)
+
       sending.value = false
     }
   }
 
-  async function send(
-    sendingMessage: string,
-    options: SendOptions,
-  ) {
-    const sessionId = activeSessionId.value
+  function enqueueSend(sendingMessage: string, options: SendOptions, sessionId: string, replyTo?: string) {
     const generation = getSessionGeneration(sessionId)
 
     return new Promise<void>((resolve, reject) => {
@@ -570,24 +1175,217 @@ export const useChatStore = defineStore('chat', () => {
         options,
         generation,
         sessionId,
+        replyTo,
         deferred: { resolve, reject },
       })
     })
   }
 
+  async function send(
+    sendingMessage: string,
+    options: SendOptions,
+  ) {
+    return enqueueSend(sendingMessage, options, activeSessionId.value)
+  }
+
+  // ----- Branches (regenerate, edit, swipe) -----
+  /**
+   * Generates a new reply to the user message `promptId` on a branch of its own, earlier
+   * replies stay one swipe away. Failures end up on that branch as error messages.
+   */
+  async function replyOnNewBranch(tree: ChatTree, sessionId: string, promptId: string, index: number, options: SendOptions) {
+    markChanged(sessionId, 'pointers', selectNode(tree, promptId))
+    forgetSummaryFrom(sessionId, index)
+
+    try {
+      await enqueueSend(messageToText(tree.nodes[promptId].message as Message), options, sessionId, promptId)
+    }
+    catch (error) {
+      const current = sessionTrees.value[sessionId]
+      if (current?.nodes[promptId])
+        appendToSession(sessionId, current, { role: 'error', content: (error as Error).message }, promptId)
+    }
+    finally {
+      // Interrupted before anything was streamed, go back to the latest reply
+      const prompt = sessionTrees.value[sessionId]?.nodes[promptId]
+      if (prompt && !prompt.activeChild && prompt.children.length > 0) {
+        prompt.activeChild = prompt.children.at(-1)
+        markChanged(sessionId, 'pointers', [promptId])
+      }
+    }
+  }
+
+  /**
+   * Generates an alternative to the reply at `index` of the active branch, or to the
+   * latest reply when no index is given.
+   */
+  async function regenerate(options: SendOptions, index?: number) {
+    const sessionId = activeSessionId.value
+    const tree = getSessionTree(sessionId)
+    if (!tree)
+      return
+
+    const nodes = activeNodes(tree)
+    const target = index ?? nodes.length - 1
+    // The latest message may be a prompt that never got its reply
+    const promptIndex = nodes[target]?.message.role === 'user' ? target : target - 1
+    const prompt = nodes[promptIndex]
+    if (prompt?.message.role !== 'user')
+      return
+
+    await replyOnNewBranch(tree, sessionId, prompt.id, promptIndex + 1, options)
+  }
+
+  /**
+   * Sends an edited copy of the user message at `index` of the active branch. The original
+   * message and everything that followed it stay on their own branch.
+   */
+  async function editMessage(index: number, content: string, options: SendOptions) {
+    const sessionId = activeSessionId.value
+    const tree = getSessionTree(sessionId)
+    const original = tree && activeNodes(tree)[index]
+    if (!tree || original?.message.role !== 'user' || !original.parentId)
+      return
+
+    const previous = original.message.content
+    const edited = appendToSession(sessionId, tree, {
+      role: 'user',
+      // Attachments are kept, only the text is replaced
+      content: Array.isArray(previous)
+        ? [{ type: 'text', text: content }, ...previous.filter(part => part.type !== 'text')]
+        : content,
+      createdAt: Date.now(),
+    }, original.parentId)
+
+    await replyOnNewBranch(tree, sessionId, edited.id, index, options)
+  }
+
+  /**
+   * Switches the message at `index` of the active branch to its sibling `offset` positions away.
+   *
+   * @returns whether there was a sibling to switch to
+   */
+  function swipe(index: number, offset: number) {
+    const sessionId = activeSessionId.value
+    const tree = getSessionTree(sessionId)
+    const node = tree && activeNodes(tree)[index]
+    if (!tree || !node || !switchBranch(tree, node.id, offset))
+      return false
+
+    markChanged(sessionId, 'pointers', [node.parentId!])
+    forgetSummaryFrom(sessionId, index)
+    return true
+  }
+
+  /**
+   * Replaces the latest message of the active branch, e.g. the prompt of a failed send with the error.
+   */
+  function replaceLastMessage(message: ChatHistoryItem, sessionId = activeSessionId.value) {
+    const tree = getSessionTree(sessionId)
+    const nodes = tree ? activeNodes(tree) : []
+    const last = nodes.at(-1)
+    if (!tree || !last?.parentId)
+      return
+
+    markChanged(sessionId, 'removed', removeNode(tree, last.id))
+    // Positions of the siblings after it moved up
+    markChanged(sessionId, 'pointers', tree.nodes[last.parentId].children)
+    appendToSession(sessionId, tree, message, last.parentId)
+    forgetSummaryFrom(sessionId, nodes.length - 1)
+  }
+
+  /**
+   * Runs a tool call of the message at `index` of the active branch again with the same
+   * arguments. The new result replaces the recorded one and is what later turns get to see.
+   */
+  async function rerunToolCall(index: number, toolCallId: string, options: Pick<SendOptions, 'tools'> = {}) {
+    const sessionId = activeSessionId.value
+    const tree = getSessionTree(sessionId)
+    const node = tree && activeNodes(tree)[index]
+    const message = node?.message
+    if (!node || message?.role !== 'assistant')
+      return
+
+    message.toolCalls ??= toolCallsOf(message)
+    const record = message.toolCalls.find(call => call.id === toolCallId)
+    if (!record || record.status === 'pending')
+      return
+
+    record.status = 'pending'
+    const tools = await resolveChatTools(options.tools)
+    const tool = tools.find(tool => tool.function.name === record.name)
+    const outcome = await runTool(() => {
+      if (!tool)
+        throw new Error(`Tool ${record.name} is not available`)
+
+      return tool.execute(JSON.parse(record.args || '{}'), { toolCallId, messages: [] })
+    })
+
+    Object.assign(record, {
+      status: outcome.error ? 'failed' : 'succeeded',
+      result: outcome.result,
+      error: outcome.error,
+      startedAt: outcome.startedAt,
+      durationMs: outcome.durationMs,
+    })
+    markChanged(sessionId, 'nodes', [node.id])
+    forgetSummaryFrom(sessionId, index)
+  }
+
+  // ----- History search -----
+  /**
+   * Searches the messages of all sessions and branches, see `ChatHistorySearchOptions`.
+   */
+  async function searchMessages(options: ChatHistorySearchOptions) {
+    await flushSessions()
+    return searchChatMessages(options)
+  }
+
+  async function listSessions() {
+    await flushSessions()
+    return listChatSessions()
+  }
+
+  /**
+   * Switches to the session and the branch the message is on, e.g. for a search result.
+   */
+  async function openMessage(sessionId: string, messageId: string) {
+    setActiveSession(sessionId)
+    await loadSession(sessionId)
+
+    const tree = getSessionTree(sessionId)
+    if (!tree?.nodes[messageId])
+      return false
+
+    markChanged(sessionId, 'pointers', revealNode(tree, messageId))
+    forgetSummaryFrom(sessionId, 0)
+    return true
+  }
+
   return {
     sending,
     activeSessionId,
     messages,
+    messageBranches,
     streamingMessage,
 
     discoverToolsCompatibility,
 
     send,
+    regenerate,
+    editMessage,
+    swipe,
+    replaceLastMessage,
+    rerunToolCall,
+    interrupt,
     setActiveSession,
     cleanupMessages,
     getAllSessions,
     replaceSessions,
+    searchMessages,
+    listSessions,
+    openMessage,
+    sessionSummaries,
     resetAllSessions,
 
     ingestContextMessage,
@@ -604,6 +1402,7 @@ export const useChatStore = defineStore('chat', () => {
     emitAssistantResponseEndHooks,
     emitAssistantMessageHooks,
     emitChatTurnCompleteHooks,
+    emitStreamInterruptedHooks,
 
     onBeforeMessageComposed,
     onAfterMessageComposed,
@@ -615,5 +1414,6 @@ export const useChatStore = defineStore('chat', () => {
     onAssistantResponseEnd,
     onAssistantMessage,
     onChatTurnComplete,
+    onStreamInterrupted,
   }
 })
@@ -1,9 +1,15 @@
+import type { ChatProvider } from '@xsai-ext/providers/utils'
+
+import type { RetryPolicy, StreamEvent } from './llm'
+
 import { env } from 'node:process'
 
 import { createOpenRouter } from '@xsai-ext/providers/create'
-import { describe, expect, it } from 'vitest'
+import { XSAIError } from '@xsai/shared'
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-import { attemptForToolsCompatibilityDiscovery } from './llm'
+import { attemptForToolsCompatibilityDiscovery, ChatTimeoutError, classifyChatError, useLLM } from './llm'
 
 function doesHaveOpenRouterApiKey() {
   const apiKey = env.LLM_API_OPENROUTER_API_KEY
@@ -35,3 +41,172 @@ describe.skipIf(!hasOpenRouterApiKey)('llm store', { timeout: 60000 }, async ()
     expect(res2).toBe(true)
   })
 })
+
+/**
+ * Answers chat completions with `respond`, a streamed reply of `text` when it returns a string.
+ */
+function fakeProvider(respond: (signal: AbortSignal) => Response | string | Promise<Response | string>) {
+  const fetch = vi.fn(async (_url: unknown, init?: RequestInit) => {
+    const response = await respond(init!.signal!)
+    if (response instanceof Response)
+      return response
+
+    const chunks = [
+      { choices: [{ index: 0, delta: { role: 'assistant', content: response } }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+    ]
+    return new Response(`${chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('')}data: [DONE]\n\n`, { headers: { 'Content-Type': 'text/event-stream' } })
+  })
+
+  const chatProvider = { chat: (model: string) => ({ model, baseURL: 'http://localhost/v1/', fetch }) } as unknown as ChatProvider
+  return { chatProvider, fetch }
+}
+
+function hang(signal: AbortSignal) {
+  return new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason), { once: true }))
+}
+
+const retryPolicy: RetryPolicy = {
+  rules: {
+    'rate-limit': { retries: 1, backoffMs: 10, maxDelayMs: 1000 },
+    'server': { retries: 0, backoffMs: 0, maxDelayMs: 0 },
+    'timeout': { retries: 0, backoffMs: 0, maxDelayMs: 0 },
+    'network': { retries: 0, backoffMs: 0, maxDelayMs: 0 },
+  },
+  timeoutMs: 50,
+}
+
+describe('classifyChatError', () => {
+  it('should sort errors by status code', () => {
+    expect(classifyChatError(new XSAIError('', new Response(null, { status: 429 })))).toBe('rate-limit')
+    expect(classifyChatError(new XSAIError('', new Response(null, { status: 408 })))).toBe('timeout')
+    expect(classifyChatError(new XSAIError('', new Response(null, { status: 503 })))).toBe('server')
+    expect(classifyChatError(new XSAIError('', new Response(null, { status: 400 })))).toBeUndefined()
+    expect(classifyChatError(new XSAIError('', new Response(null, { status: 401 })))).toBeUndefined()
+  })
+
+  it('should tell timeouts and unreachable servers from other errors', () => {
+    expect(classifyChatError(new ChatTimeoutError(1000))).toBe('timeout')
+    expect(classifyChatError(new TypeError('fetch failed'))).toBe('network')
+    expect(classifyChatError(new Error('Stream error'))).toBeUndefined()
+    expect(classifyChatError(undefined)).toBeUndefined()
+  })
+})
+
+describe('llm store stream', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('should fail over to the next target on server errors', async () => {
+    const primary = fakeProvider(() => new Response('overloaded', { status: 503 }))
+    const fallback = fakeProvider(() => 'Hello from the fallback')
+    const onFailover = vi.fn()
+    const events: StreamEvent[] = []
+
+    const result = await useLLM().stream('gpt-4o', primary.chatProvider, [{ role: 'user', content: 'hi' }], {
+      providerId: 'openai',
+      fallbacks: [{ providerId: 'openrouter', model: 'openai/gpt-4o', chatProvider: fallback.chatProvider }],
+      retryPolicy,
+      onFailover,
+      onStreamEvent: event => void events.push(event),
+    })
+
+    expect(result).toMatchObject({ providerId: 'openrouter', model: 'openai/gpt-4o', attempts: 2 })
+    expect(onFailover).toHaveBeenCalledWith(expect.objectContaining({ providerId: 'openai' }), expect.objectContaining({ providerId: 'openrouter' }), expect.objectContaining({ message: expect.stringContaining('Remote sent 503 response') }))
+    expect(events.filter(event => event.type === 'text-delta').map(event => event.text).join('')).toBe('Hello from the fallback')
+  })
+
+  it('should retry rate limits on the same target first', async () => {
+    let calls = 0
+    const primary = fakeProvider(() => ++calls === 1 ? new Response(null, { status: 429, headers: { 'Retry-After': '0' } }) : 'Hello again')
+    const fallback = fakeProvider(() => 'Hello from the fallback')
+
+    const result = await useLLM().stream('gpt-4o', primary.chatProvider, [{ role: 'user', content: 'hi' }], {
+      providerId: 'openai',
+      fallbacks: [{ providerId: 'openrouter', model: 'openai/gpt-4o', chatProvider: fallback.chatProvider }],
+      retryPolicy,
+    })
+
+    expect(result).toMatchObject({ providerId: 'openai', attempts: 2 })
+    expect(fallback.fetch).not.toHaveBeenCalled()
+  })
+
+  it('should fail over right away when the server asks to wait longer than allowed', async () => {
+    const primary = fakeProvider(() => new Response(null, { status: 429, headers: { 'Retry-After': '3600' } }))
+    const fallback = fakeProvider(() => 'Hello from the fallback')
+
+    const result = await useLLM().stream('gpt-4o', primary.chatProvider, [{ role: 'user', content: 'hi' }], {
+      providerId: 'openai',
+      fallbacks: [{ providerId: 'openrouter', model: 'openai/gpt-4o', chatProvider: fallback.chatProvider }],
+      retryPolicy,
+    })
+
+    expect(result).toMatchObject({ providerId: 'openrouter', attempts: 2 })
+    expect(primary.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not fail over on errors a retry would not fix', async () => {
+    const primary = fakeProvider(() => new Response('bad request', { status: 400 }))
+    const fallback = fakeProvider(() => 'Hello from the fallback')
+
+    await expect(useLLM().stream('gpt-4o', primary.chatProvider, [{ role: 'user', content: 'hi' }], {
+      fallbacks: [{ model: 'openai/gpt-4o', chatProvider: fallback.chatProvider }],
+      retryPolicy,
+    })).rejects.toThrow('Remote sent 400 response')
+    expect(fallback.fetch).not.toHaveBeenCalled()
+  })
+
+  it('should not fail over once something was streamed', async () => {
+    const primary = fakeProvider(() => {
+      const chunk = { choices: [{ index: 0, delta: { role: 'assistant', content: 'Hel' } }] }
+      let pulls = 0
+      return new Response(new ReadableStream({
+        pull(controller) {
+          if (pulls++ === 0)
+            controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n\n`))
+          else
+            controller.error(new TypeError('network error'))
+        },
+      }), { headers: { 'Content-Type': 'text/event-stream' } })
+    })
+    const fallback = fakeProvider(() => 'Hello from the fallback')
+
+    await expect(useLLM().stream('gpt-4o', primary.chatProvider, [{ role: 'user', content: 'hi' }], {
+      fallbacks: [{ model: 'openai/gpt-4o', chatProvider: fallback.chatProvider }],
+      retryPolicy,
+    })).rejects.toThrow('network error')
+    expect(fallback.fetch).not.toHaveBeenCalled()
+  })
+
+  it('should abort attempts that time out and fail over', async () => {
+    const primary = fakeProvider(hang)
+    const fallback = fakeProvider(() => 'Hello from the fallback')
+    const onFailover = vi.fn()
+
+    const result = await useLLM().stream('gpt-4o', primary.chatProvider, [{ role: 'user', content: 'hi' }], {
+      fallbacks: [{ providerId: 'openrouter', model: 'openai/gpt-4o', chatProvider: fallback.chatProvider }],
+      retryPolicy,
+      onFailover,
+    })
+
+    expect(result).toMatchObject({ providerId: 'openrouter', attempts: 2 })
+    expect(onFailover).toHaveBeenCalledWith(expect.anything(), expect.anything(), expect.any(ChatTimeoutError))
+  })
+
+  it('should stop without failing over when the caller aborts', async () => {
+    const primary = fakeProvider(hang)
+    const fallback = fakeProvider(() => 'Hello from the fallback')
+    const abortController = new AbortController()
+
+    const streaming = useLLM().stream('gpt-4o', primary.chatProvider, [{ role: 'user', content: 'hi' }], {
+      fallbacks: [{ model: 'openai/gpt-4o', chatProvider: fallback.chatProvider }],
+      retryPolicy: { ...retryPolicy, timeoutMs: 60000 },
+      abortSignal: abortController.signal,
+    })
+    abortController.abort(new Error('interrupted'))
+
+    await expect(streaming).rejects.toThrow('interrupted')
+    expect(fallback.fetch).not.toHaveBeenCalled()
+  })
+})
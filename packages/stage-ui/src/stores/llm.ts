@@ -1,5 +1,7 @@
 import type { ChatProvider } from '@xsai-ext/providers/utils'
-import type { CommonContentPart, CompletionToolCall, Message, Tool } from '@xsai/shared-chat'
+import type { CommonContentPart, CompletionToolCall, Message, Tool, Usage } from '@xsai/shared-chat'
+
+import type { ToolRunOutcome } from '../utils/tool-calls'
 
 import { listModels } from '@xsai/model'
 import { XSAIError } from '@xsai/shared'
@@ -8,20 +10,152 @@ import { defineStore } from 'pinia'
 import { ref } from 'vue'
 
 import { debug, mcp } from '../tools'
+import { runTool } from '../utils/tool-calls'
 
 export type StreamEvent
   = | { type: 'text-delta', text: string }
     | ({ type: 'finish' } & any)
+    | { type: 'tool-call-start', toolCallId: string, toolName: string, args: string, startedAt: number }
     | ({ type: 'tool-call' } & CompletionToolCall)
-    | { type: 'tool-result', toolCallId: string, result?: string | CommonContentPart[] }
+    | ({ type: 'tool-result', toolCallId: string, result?: string | CommonContentPart[] } & Partial<Pick<ToolRunOutcome, 'error' | 'startedAt' | 'durationMs'>>)
     | { type: 'error', error: any }
 
+export type ChatErrorClass = 'rate-limit' | 'server' | 'timeout' | 'network'
+
+export interface RetryRule {
+  /**
+   * Retries on the same provider before failing over to the next one.
+   */
+  retries: number
+  /**
+   * Delay before the first retry, doubled for every following one.
+   * `Retry-After` sent along a 429 takes precedence.
+   */
+  backoffMs: number
+  /**
+   * Longest delay before a retry. When `Retry-After` asks for more, the next target is tried right away.
+   */
+  maxDelayMs: number
+}
+
+export interface RetryPolicy {
+  rules: Record<ChatErrorClass, RetryRule>
+  /**
+   * Attempts that got no event from the provider for this long are aborted as timed out.
+   */
+  timeoutMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  rules: {
+    'rate-limit': { retries: 2, backoffMs: 2000, maxDelayMs: 10000 },
+    'server': { retries: 1, backoffMs: 1000, maxDelayMs: 10000 },
+    'timeout': { retries: 0, backoffMs: 0, maxDelayMs: 0 },
+    'network': { retries: 0, backoffMs: 0, maxDelayMs: 0 },
+  },
+  timeoutMs: 60000,
+}
+
+/**
+ * Provider and model a chat completion can be sent to.
+ */
+export interface ChatTarget {
+  providerId?: string
+  model: string
+  chatProvider: ChatProvider
+  headers?: Record<string, string>
+}
+
+export interface StreamResult {
+  /**
+   * The target that answered.
+   */
+  providerId?: string
+  model: string
+  attempts: number
+  /**
+   * Tokens of all steps as reported by the provider, missing when it doesn't report usage in streams.
+   */
+  usage?: Usage
+}
+
+export class ChatTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No response from provider within ${timeoutMs}ms`)
+    this.name = 'ChatTimeoutError'
+  }
+}
+
 export interface StreamOptions {
   headers?: Record<string, string>
   onStreamEvent?: (event: StreamEvent) => void | Promise<void>
   toolsCompatibility?: Map<string, boolean>
   supportsTools?: boolean
   tools?: Tool[] | (() => Promise<Tool[] | undefined>)
+  /**
+   * Aborts the request and any tool call still executing, the returned promise
+   * rejects with the signal's reason.
+   */
+  abortSignal?: AbortSignal
+  /**
+   * Identifies the primary target in `StreamResult`.
+   */
+  providerId?: string
+  /**
+   * Tried in order when the primary target fails with a retryable error before streaming anything.
+   */
+  fallbacks?: ChatTarget[]
+  retryPolicy?: RetryPolicy
+  onFailover?: (failed: ChatTarget, next: ChatTarget, error: unknown) => void
+}
+
+/**
+ * Sorts errors into the classes retry rules are defined for, anything else is not retried.
+ */
+export function classifyChatError(error: unknown): ChatErrorClass | undefined {
+  if (error instanceof ChatTimeoutError)
+    return 'timeout'
+
+  const status = (error as { response?: Response } | undefined)?.response?.status
+  if (status === 429)
+    return 'rate-limit'
+  if (status === 408)
+    return 'timeout'
+  if (status != null && status >= 500)
+    return 'server'
+  // fetch rejects with a TypeError when the server can't be reached at all
+  if (error instanceof TypeError)
+    return 'network'
+
+  return undefined
+}
+
+/**
+ * Delay before the next retry, `undefined` when the server asks to wait longer than the rule allows.
+ */
+function retryDelayOf(rule: RetryRule, retry: number, error: unknown) {
+  const retryAfter = (error as { response?: Response } | undefined)?.response?.headers.get('retry-after')
+  const seconds = retryAfter ? Number.parseFloat(retryAfter) : Number.NaN
+  if (Number.isFinite(seconds))
+    return seconds * 1000 > rule.maxDelayMs ? undefined : seconds * 1000
+
+  return Math.min(rule.backoffMs * 2 ** retry, rule.maxDelayMs)
+}
+
+function sleep(ms: number, abortSignal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    function onAbort() {
+      clearTimeout(timer)
+      reject(abortSignal?.reason)
+    }
+
+    abortSignal?.addEventListener('abort', onAbort, { once: true })
+  })
 }
 
 // TODO: proper format for other error messages.
@@ -37,6 +171,45 @@ function sanitizeMessages(messages: unknown[]): Message[] {
   })
 }
 
+/**
+ * Tools offered in every chat, followed by the ones given in the options.
+ */
+export async function resolveChatTools(tools?: StreamOptions['tools']): Promise<Tool[]> {
+  const extraTools = typeof tools === 'function'
+    ? await tools()
+    : tools
+
+  return [
+    // TODO: we need Automatic tools discovery
+    ...await mcp(),
+    ...await debug(),
+    ...extraTools ?? [],
+  ]
+}
+
+/**
+ * Wraps the tools so their runs get timed and their errors are handed to the model
+ * as results, instead of failing the whole stream.
+ */
+function instrumentTools(tools: Tool[], outcomes: Map<string, ToolRunOutcome>, onStreamEvent?: StreamOptions['onStreamEvent']): Tool[] {
+  return tools.map((tool): Tool => ({
+    ...tool,
+    execute: async (input, executeOptions) => {
+      await onStreamEvent?.({
+        type: 'tool-call-start',
+        toolCallId: executeOptions.toolCallId,
+        toolName: tool.function.name,
+        args: JSON.stringify(input),
+        startedAt: Date.now(),
+      })
+
+      const outcome = await runTool(() => tool.execute(input, executeOptions))
+      outcomes.set(executeOptions.toolCallId, outcome)
+      return outcome.result
+    },
+  }))
+}
+
 function streamOptionsToolsCompatibilityOk(model: string, chatProvider: ChatProvider, _: Message[], options?: StreamOptions): boolean {
   return !!(options?.supportsTools || options?.toolsCompatibility?.get(`${chatProvider.chat(model).baseURL}-${model}`))
 }
@@ -45,35 +218,43 @@ async function streamFrom(model: string, chatProvider: ChatProvider, messages: M
   const headers = options?.headers
 
   const sanitized = sanitizeMessages(messages as unknown[])
-  const resolveTools = async () => {
-    const tools = typeof options?.tools === 'function'
-      ? await options.tools()
-      : options?.tools
-    return tools ?? []
-  }
+  const toolOutcomes = new Map<string, ToolRunOutcome>()
+
+  return new Promise<Usage | undefined>(async (resolve, reject) => {
+    const abortSignal = options?.abortSignal
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason)
+      return
+    }
+
+    // streamText only settles through onEvent, which may never come after the fetch got aborted
+    abortSignal?.addEventListener('abort', () => reject(abortSignal.reason), { once: true })
 
-  return new Promise<void>(async (resolve, reject) => {
     try {
       const supportedTools = streamOptionsToolsCompatibilityOk(model, chatProvider, messages, options)
 
-      await streamText({
+      const { steps, messages: stepMessages, usage, totalUsage } = streamText({
         ...chatProvider.chat(model),
         maxSteps: 10,
         messages: sanitized,
         headers,
-        // TODO: we need Automatic tools discovery
+        abortSignal,
+        streamOptions: { includeUsage: true },
         tools: supportedTools
-          ? [
-              ...await mcp(),
-              ...await debug(),
-              ...await resolveTools(),
-            ]
+          ? instrumentTools(await resolveChatTools(options?.tools), toolOutcomes, options?.onStreamEvent)
           : undefined,
         async onEvent(event) {
           try {
-            await options?.onStreamEvent?.(event as StreamEvent)
+            if (event.type === 'tool-result') {
+              const outcome = toolOutcomes.get(event.toolCallId)
+              await options?.onStreamEvent?.({ ...event, error: outcome?.error, startedAt: outcome?.startedAt, durationMs: outcome?.durationMs } as StreamEvent)
+            }
+            else {
+              await options?.onStreamEvent?.(event as StreamEvent)
+            }
+            // Usage comes in the last chunk, after the finish reason
             if (event.type === 'finish')
-              resolve()
+              resolve(await totalUsage)
             else if (event.type === 'error')
               reject(event.error ?? new Error('Stream error'))
           }
@@ -82,6 +263,10 @@ async function streamFrom(model: string, chatProvider: ChatProvider, messages: M
           }
         },
       })
+
+      // Request failures (e.g. non 2xx responses) never reach onEvent, they reject all of the result's promises
+      steps.catch(reject)
+      void Promise.allSettled([stepMessages, usage, totalUsage])
     }
     catch (err) {
       reject(err)
@@ -89,6 +274,70 @@ async function streamFrom(model: string, chatProvider: ChatProvider, messages: M
   })
 }
 
+async function streamWithFallbacks(targets: ChatTarget[], messages: Message[], options?: StreamOptions): Promise<StreamResult> {
+  const policy = options?.retryPolicy ?? DEFAULT_RETRY_POLICY
+  let attempts = 0
+  let lastError: unknown
+
+  for (const [index, target] of targets.entries()) {
+    for (let retry = 0; ; retry++) {
+      attempts++
+
+      // Per attempt, so a timed out attempt can be aborted without aborting the whole stream
+      const attemptController = new AbortController()
+      const abortAttempt = () => attemptController.abort(options?.abortSignal?.reason)
+      options?.abortSignal?.addEventListener('abort', abortAttempt, { once: true })
+      const timeout = setTimeout(() => attemptController.abort(new ChatTimeoutError(policy.timeoutMs)), policy.timeoutMs)
+      let streamed = false
+
+      try {
+        const usage = await streamFrom(target.model, target.chatProvider, messages, {
+          ...options,
+          headers: target.headers,
+          abortSignal: attemptController.signal,
+          onStreamEvent: async (event) => {
+            // Errors reported before anything else are still worth failing over for
+            if (event.type !== 'error') {
+              streamed = true
+              clearTimeout(timeout)
+            }
+
+            await options?.onStreamEvent?.(event)
+          },
+        })
+
+        return { providerId: target.providerId, model: target.model, attempts, usage }
+      }
+      catch (err) {
+        const error = attemptController.signal.reason instanceof ChatTimeoutError ? attemptController.signal.reason : err
+        const errorClass = classifyChatError(error)
+
+        // Once something got streamed, another attempt would duplicate it
+        if (options?.abortSignal?.aborted || streamed || !errorClass)
+          throw error
+
+        lastError = error
+        const rule = policy.rules[errorClass]
+        const delay = retryDelayOf(rule, retry, error)
+        if (retry >= rule.retries || delay == null)
+          break
+
+        await sleep(delay, options?.abortSignal)
+      }
+      finally {
+        clearTimeout(timeout)
+        options?.abortSignal?.removeEventListener('abort', abortAttempt)
+      }
+    }
+
+    const next = targets[index + 1]
+    if (next)
+      options?.onFailover?.(target, next, lastError)
+  }
+
+  throw lastError
+}
+
 export async function attemptForToolsCompatibilityDiscovery(model: string, chatProvider: ChatProvider, _: Message[], options?: Omit<StreamOptions, 'supportsTools'>): Promise<boolean> {
   async function attempt(enable: boolean) {
     try {
@@ -172,8 +421,18 @@ export const useLLM = defineStore('llm', () => {
     toolsCompatibility.value.set(`${chatProvider.chat(model).baseURL}-${model}`, res)
   }
 
+  /**
+   * Streams from the given model, failing over to `options.fallbacks` according to `options.retryPolicy`.
+   *
+   * @returns which of the targets answered
+   */
   function stream(model: string, chatProvider: ChatProvider, messages: Message[], options?: StreamOptions) {
-    return streamFrom(model, chatProvider, messages, { ...options, toolsCompatibility: toolsCompatibility.value })
+    const targets: ChatTarget[] = [
+      { providerId: options?.providerId, model, chatProvider, headers: options?.headers },
+      ...(options?.fallbacks ?? []),
+    ]
+
+    return streamWithFallbacks(targets, messages, { ...options, toolsCompatibility: toolsCompatibility.value })
   }
 
   async function models(apiUrl: string, apiKey: string) {
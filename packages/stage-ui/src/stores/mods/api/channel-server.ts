@@ -11,6 +11,7 @@ export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:se
   const client = ref<Client>()
   const initializing = ref<Promise<void> | null>(null)
   const pendingSend = ref<Array<WebSocketEvent>>([])
+  const liveModules = ref<Array<WebSocketEvents['module:joined']>>([])
 
   const basePossibleEvents: Array<keyof WebSocketEvents> = [
     'context:update',
@@ -18,6 +19,8 @@ export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:se
     'module:announce',
     'module:configure',
     'module:authenticated',
+    'module:joined',
+    'module:left',
     'spark:notify',
     'spark:emit',
     'spark:command',
@@ -55,6 +58,7 @@ export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:se
         onClose: () => {
           connected.value = false
           initializing.value = null
+          liveModules.value = []
 
           console.warn('WebSocket server connection closed')
         },
@@ -85,11 +89,26 @@ export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:se
     }
   }
 
+  function handleModuleJoined(event: WebSocketBaseEvent<'module:joined', WebSocketEvents['module:joined']>) {
+    const { name, index } = event.data
+    if (liveModules.value.some(module => module.name === name && module.index === index))
+      return
+
+    liveModules.value.push({ name, index })
+  }
+
+  function handleModuleLeft(event: WebSocketBaseEvent<'module:left', WebSocketEvents['module:left']>) {
+    const { name, index } = event.data
+    liveModules.value = liveModules.value.filter(module => module.name !== name || module.index !== index)
+  }
+
   function initializeListeners() {
     if (!client.value)
-      // No-op for now; keep placeholder for future shared listeners.
-      // eslint-disable-next-line no-useless-return
       return
+
+    // listeners are kept in a Set, registering the same references again on re-authentication is a no-op
+    client.value.onEvent('module:joined', handleModuleJoined)
+    client.value.onEvent('module:left', handleModuleLeft)
   }
 
   function send<C = undefined>(data: WebSocketEventOptionalSource<C>) {
@@ -151,10 +170,12 @@ export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:se
     connected.value = false
     client.value = undefined
     initializing.value = null
+    liveModules.value = []
   }
 
   return {
     connected,
+    liveModules,
     ensureConnected,
 
     initialize,
@@ -1,3 +1,4 @@
+import type { ChatProvider } from '@xsai-ext/providers/utils'
 import type { UserMessage } from '@xsai/shared-chat'
 
 import type { ChatStreamEvent, ContextMessage } from '../../../types/chat'
@@ -9,6 +10,8 @@ import { defineStore } from 'pinia'
 import { ref, watch } from 'vue'
 
 import { CHAT_STREAM_CHANNEL_NAME, CONTEXT_CHANNEL_NAME, useChatStore } from '../../chat'
+import { useConsciousnessStore } from '../../modules/consciousness'
+import { useProvidersStore } from '../../providers'
 import { useModsServerChannelStore } from './channel-server'
 
 export const useContextBridgeStore = defineStore('mods:api:context-bridge', () => {
@@ -16,6 +19,8 @@ export const useContextBridgeStore = defineStore('mods:api:context-bridge', () =
 
   const chatStore = useChatStore()
   const serverChannelStore = useModsServerChannelStore()
+  const consciousnessStore = useConsciousnessStore()
+  const providersStore = useProvidersStore()
 
   const { post: broadcastContext, data: incomingContext } = useBroadcastChannel<ContextMessage, ContextMessage>({ name: CONTEXT_CHANNEL_NAME })
   const { post: broadcastStreamEvent, data: incomingStreamEvent } = useBroadcastChannel<ChatStreamEvent, ChatStreamEvent>({ name: CHAT_STREAM_CHANNEL_NAME })
@@ -39,6 +44,26 @@ export const useContextBridgeStore = defineStore('mods:api:context-bridge', () =
         broadcastContext(event.data as ContextMessage)
       }))
 
+      // Messages from chats of other modules, the reply carries the source back to them
+      disposeHookFns.value.push(serverChannelStore.onEvent('input:text', async (event) => {
+        const { text, telegram, discord } = event.data
+        if (!telegram && !discord)
+          return
+
+        const { activeProvider, activeModel } = consciousnessStore
+        try {
+          await chatStore.send(text, {
+            model: activeModel,
+            chatProvider: await providersStore.getProviderInstance<ChatProvider>(activeProvider),
+            providerConfig: providersStore.getProviderConfig(activeProvider),
+            inputSource: telegram ? { telegram } : { discord },
+          })
+        }
+        catch (error) {
+          console.warn('Failed to answer input from the server channel:', error)
+        }
+      }))
+
       disposeHookFns.value.push(
         chatStore.onBeforeMessageComposed(async (message, context) => {
           if (isProcessingRemoteStream)
@@ -82,6 +107,12 @@ export const useContextBridgeStore = defineStore('mods:api:context-bridge', () =
 
           broadcastStreamEvent({ type: 'stream-end', sessionId: chatStore.activeSessionId, context })
         }),
+        chatStore.onStreamInterrupted(async (context) => {
+          if (isProcessingRemoteStream)
+            return
+
+          broadcastStreamEvent({ type: 'stream-interrupted', sessionId: chatStore.activeSessionId, context })
+        }),
         chatStore.onAssistantResponseEnd(async (message, context) => {
           if (isProcessingRemoteStream)
             return
@@ -96,6 +127,7 @@ export const useContextBridgeStore = defineStore('mods:api:context-bridge', () =
               message,
               'stage-web': isStageWeb(),
               'stage-tamagotchi': isStageTamagotchi(),
+              ...context.inputSource,
               'gen-ai:chat': {
                 input: context.input as UserMessage,
                 composedMessage: context.composedMessage,
@@ -113,13 +145,8 @@ export const useContextBridgeStore = defineStore('mods:api:context-bridge', () =
               'toolCalls': [],
               'stage-web': isStageWeb(),
               'stage-tamagotchi': isStageTamagotchi(),
-              // TODO: Properly calculate usage data
-              'usage': {
-                promptTokens: 0,
-                completionTokens: 0,
-                totalTokens: 0,
-                source: 'estimate-based',
-              },
+              'usage': chat.usage,
+              ...context.inputSource,
               'gen-ai:chat': {
                 input: context.input as UserMessage,
                 composedMessage: context.composedMessage,
@@ -162,6 +189,9 @@ export const useContextBridgeStore = defineStore('mods:api:context-bridge', () =
             case 'stream-end':
               await chatStore.emitStreamEndHooks(event.context)
               break
+            case 'stream-interrupted':
+              await chatStore.emitStreamInterruptedHooks(event.context)
+              break
             case 'assistant-end':
               await chatStore.emitAssistantResponseEndHooks(event.message, event.context)
               break
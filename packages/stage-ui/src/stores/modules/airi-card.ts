@@ -1,5 +1,8 @@
 import type { Card, ccv3 } from '@proj-airi/ccc'
 
+import localforage from 'localforage'
+
+import { importCard as importCardFile, importFromJSON } from '@proj-airi/ccc'
 import { nanoid } from 'nanoid'
 import { defineStore, storeToRefs } from 'pinia'
 import { computed, watch } from 'vue'
@@ -53,6 +56,16 @@ export interface AiriCard extends Card {
   } & Card['extensions']
 }
 
+/**
+ * Asset embedded in an imported card file, e.g. the avatar of a PNG card.
+ */
+export interface AiriCardAsset extends ccv3.Asset {
+  data: Blob
+}
+
+// Assets are kept in IndexedDB, they are too large for localStorage where the cards are
+const CARD_ASSETS_KEY_PREFIX = 'airi-card-assets-'
+
 export const useAiriCardStore = defineStore('airi-card', () => {
   const { t } = useI18n()
 
@@ -79,8 +92,37 @@ export const useAiriCardStore = defineStore('airi-card', () => {
     return newCardId
   }
 
+  /**
+   * Adds a card from a JSON, PNG, APNG or CharX file exported by AIRI or other frontends,
+   * along with the assets embedded in it, see `getCardAssets`.
+   */
+  const importCard = async (file: Blob) => {
+    const { card, assets } = await importCardFile(file)
+    const embedded = assets.flatMap(({ data, ...asset }): AiriCardAsset[] => data ? [{ ...asset, data: new Blob([data as Uint8Array<ArrayBuffer>]) }] : [])
+
+    const id = nanoid()
+    if (embedded.length > 0)
+      await localforage.setItem(`${CARD_ASSETS_KEY_PREFIX}${id}`, embedded)
+
+    cards.value.set(id, newAiriCard(card))
+    return id
+  }
+
+  const getCardAssets = async (id: string) => {
+    return await localforage.getItem<AiriCardAsset[]>(`${CARD_ASSETS_KEY_PREFIX}${id}`) ?? []
+  }
+
+  /**
+   * The main icon of the card, i.e. its avatar, when the imported file had one embedded.
+   */
+  const getCardIcon = async (id: string) => {
+    const icons = (await getCardAssets(id)).filter(asset => asset.type === 'icon')
+    return (icons.find(asset => asset.name === 'main') ?? icons[0])?.data
+  }
+
   const removeCard = (id: string) => {
     cards.value.delete(id)
+    void localforage.removeItem(`${CARD_ASSETS_KEY_PREFIX}${id}`)
   }
 
   const getCard = (id: string) => {
@@ -134,43 +176,9 @@ export const useAiriCardStore = defineStore('airi-card', () => {
   }
 
   function newAiriCard(card: Card | ccv3.CharacterCardV3): AiriCard {
-    // Handle ccv3 format if needed
-    if ('data' in card) {
-      const ccv3Card = card as ccv3.CharacterCardV3
-      return {
-        name: ccv3Card.data.name,
-        version: ccv3Card.data.character_version ?? '1.0.0',
-        description: ccv3Card.data.description ?? '',
-        creator: ccv3Card.data.creator ?? '',
-        notes: ccv3Card.data.creator_notes ?? '',
-        notesMultilingual: ccv3Card.data.creator_notes_multilingual,
-        personality: ccv3Card.data.personality ?? '',
-        scenario: ccv3Card.data.scenario ?? '',
-        greetings: [
-          ccv3Card.data.first_mes,
-          ...(ccv3Card.data.alternate_greetings ?? []),
-        ],
-        greetingsGroupOnly: ccv3Card.data.group_only_greetings ?? [],
-        systemPrompt: ccv3Card.data.system_prompt ?? '',
-        postHistoryInstructions: ccv3Card.data.post_history_instructions ?? '',
-        messageExample: ccv3Card.data.mes_example
-          ? ccv3Card.data.mes_example
-              .split('<START>\n')
-              .filter(Boolean)
-              .map(example => example.split('\n')
-                .map((line) => {
-                  if (line.startsWith('{{char}}:') || line.startsWith('{{user}}:'))
-                    return line as `{{char}}: ${string}` | `{{user}}: ${string}`
-                  throw new Error(`Invalid message example format: ${line}`)
-                }))
-          : [],
-        tags: ccv3Card.data.tags ?? [],
-        extensions: {
-          airi: resolveAiriExtension(ccv3Card),
-          ...ccv3Card.data.extensions,
-        },
-      }
-    }
+    // Handle V2 / V3 character cards
+    if ('data' in card)
+      return newAiriCard(importFromJSON(card).card)
 
     return {
       ...card,
@@ -211,9 +219,12 @@ export const useAiriCardStore = defineStore('airi-card', () => {
     activeSpeechVoiceId.value = extension?.modules?.speech?.voice_id
   })
 
-  function resetState() {
+  async function resetState() {
     resetActiveCardId()
     resetCards()
+
+    const keys = await localforage.keys()
+    await Promise.all(keys.filter(key => key.startsWith(CARD_ASSETS_KEY_PREFIX)).map(key => localforage.removeItem(key)))
   }
 
   return {
@@ -221,8 +232,11 @@ export const useAiriCardStore = defineStore('airi-card', () => {
     activeCard,
     activeCardId,
     addCard,
+    importCard,
     removeCard,
     getCard,
+    getCardAssets,
+    getCardIcon,
     resetState,
     initialize,
 
@@ -247,6 +261,9 @@ export const useAiriCardStore = defineStore('airi-card', () => {
         card.systemPrompt,
         card.description,
         card.personality,
+        card.messageExample?.length
+          ? `Examples of how {{char}} talks:\n${card.messageExample.map(messages => messages.join('\n')).join('\n\n')}`
+          : '',
       ].filter(Boolean)
 
       return components.join('\n')
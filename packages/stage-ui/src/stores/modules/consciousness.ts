@@ -1,9 +1,25 @@
+import type { ChatProvider } from '@xsai-ext/providers/utils'
+
+import type { ChatErrorClass, ChatTarget, RetryPolicy } from '../llm'
+
 import { defineStore } from 'pinia'
 import { computed } from 'vue'
 
 import { createResettableLocalStorage, createResettableRef } from '../../utils/resettable'
+import { DEFAULT_RETRY_POLICY } from '../llm'
 import { useProvidersStore } from '../providers'
 
+// Used when neither a budget was configured nor the provider reports the context length of the model
+export const DEFAULT_CONTEXT_BUDGET = 8192
+export const DEFAULT_CONTEXT_MODULE_CAP = 1024
+// Share of the model's context length the prompt may take, the rest is left for the reply
+const CONTEXT_LENGTH_PROMPT_RATIO = 0.75
+
+export interface ChatFallback {
+  provider: string
+  model: string
+}
+
 export const useConsciousnessStore = defineStore('consciousness', () => {
   const providersStore = useProvidersStore()
 
@@ -13,6 +29,20 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
   const [activeCustomModelName, resetActiveCustomModelName] = createResettableLocalStorage('settings/consciousness/active-custom-model', '')
   const [expandedDescriptions, resetExpandedDescriptions] = createResettableRef<Record<string, boolean>>({})
   const [modelSearchQuery, resetModelSearchQuery] = createResettableRef('')
+  // Prompt token budgets keyed by `<provider>/<model>`
+  const [contextBudgets, resetContextBudgets] = createResettableLocalStorage<Record<string, number>>('settings/consciousness/context-budgets', {})
+  // Token caps for context updates keyed by the name of the module that sent them
+  const [contextModuleCaps, resetContextModuleCaps] = createResettableLocalStorage<Record<string, number>>('settings/consciousness/context-module-caps', {})
+  const [defaultContextModuleCap, resetDefaultContextModuleCap] = createResettableLocalStorage('settings/consciousness/context-module-cap', DEFAULT_CONTEXT_MODULE_CAP)
+  // Tried in order when the active provider keeps failing
+  const [fallbackChain, resetFallbackChain] = createResettableLocalStorage<ChatFallback[]>('settings/consciousness/fallbacks', [])
+  const [retryPolicy, resetRetryPolicy] = createResettableLocalStorage<RetryPolicy>('settings/consciousness/retry-policy', DEFAULT_RETRY_POLICY)
+  // Policies saved before retry delays were capped don't have a cap yet
+  for (const errorClass of Object.keys(DEFAULT_RETRY_POLICY.rules) as ChatErrorClass[]) {
+    const rule = retryPolicy.value.rules[errorClass]
+    if (rule)
+      rule.maxDelayMs ??= DEFAULT_RETRY_POLICY.rules[errorClass].maxDelayMs
+  }
 
   // Computed properties
   const supportsModelListing = computed(() => {
@@ -65,6 +95,54 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
     return []
   }
 
+  function getContextBudget(model = activeModel.value, provider = activeProvider.value) {
+    const configuredBudget = contextBudgets.value[`${provider}/${model}`]
+    if (configuredBudget && configuredBudget > 0)
+      return configuredBudget
+
+    const contextLength = providersStore.getModelsForProvider(provider).find(item => item.id === model)?.contextLength
+    if (contextLength && contextLength > 0)
+      return Math.floor(contextLength * CONTEXT_LENGTH_PROMPT_RATIO)
+
+    return DEFAULT_CONTEXT_BUDGET
+  }
+
+  function setContextBudget(tokens: number | undefined, model = activeModel.value, provider = activeProvider.value) {
+    const { [`${provider}/${model}`]: _, ...rest } = contextBudgets.value
+    contextBudgets.value = tokens && tokens > 0 ? { ...rest, [`${provider}/${model}`]: tokens } : rest
+  }
+
+  const activeContextBudget = computed(() => getContextBudget())
+
+  /**
+   * Resolves the fallback chain into targets for `useLLM().stream`, skipping entries that are
+   * incomplete, the same as the primary, or whose provider is not configured anymore.
+   */
+  async function getFallbackTargets(model = activeModel.value, provider = activeProvider.value) {
+    const targets: ChatTarget[] = []
+
+    for (const fallback of fallbackChain.value) {
+      if (!fallback.provider || !fallback.model)
+        continue
+      if (fallback.provider === provider && fallback.model === model)
+        continue
+
+      try {
+        targets.push({
+          providerId: fallback.provider,
+          model: fallback.model,
+          chatProvider: await providersStore.getProviderInstance<ChatProvider>(fallback.provider),
+          headers: providersStore.getProviderConfig(fallback.provider)?.headers as Record<string, string> | undefined,
+        })
+      }
+      catch (err) {
+        console.warn(`Skipping fallback ${fallback.provider}/${fallback.model}:`, err)
+      }
+    }
+
+    return targets
+  }
+
   const configured = computed(() => {
     return !!activeProvider.value && !!activeModel.value
   })
@@ -72,6 +150,11 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
   function resetState() {
     resetActiveProvider()
     resetModelSelection()
+    resetContextBudgets()
+    resetContextModuleCaps()
+    resetDefaultContextModuleCap()
+    resetFallbackChain()
+    resetRetryPolicy()
   }
 
   return {
@@ -82,6 +165,11 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
     customModelName: activeCustomModelName,
     expandedDescriptions,
     modelSearchQuery,
+    contextBudgets,
+    contextModuleCaps,
+    defaultContextModuleCap,
+    fallbackChain,
+    retryPolicy,
 
     // Computed
     supportsModelListing,
@@ -89,11 +177,15 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
     isLoadingActiveProviderModels,
     activeProviderModelError,
     filteredModels,
+    activeContextBudget,
 
     // Actions
     resetModelSelection,
     loadModelsForProvider,
     getModelsForProvider,
+    getContextBudget,
+    setContextBudget,
+    getFallbackTargets,
     resetState,
   }
 })
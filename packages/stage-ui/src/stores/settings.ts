@@ -41,6 +41,8 @@ export const useSettings = defineStore('settings', () => {
   const displayModelsStore = useDisplayModelsStore()
 
   const [language, resetLanguage] = createResettableLocalStorage('settings/language', '')
+  // How characters call the user, replaces `{{user}}` in character cards
+  const [userName, resetUserName] = createResettableLocalStorage('settings/user/name', '')
 
   const [stageModelSelected, resetStageModelSelected] = createResettableLocalStorage<string | undefined>('settings/stage/model', 'preset-live2d-1')
   const [stageModelSelectedDisplayModel, resetStageModelSelectedDisplayModel] = createResettableRef<DisplayModel | undefined>(undefined)
@@ -167,6 +169,7 @@ export const useSettings = defineStore('settings', () => {
       URL.revokeObjectURL(stageModelSelectedUrl.value)
 
     resetLanguage()
+    resetUserName()
     resetStageModelSelected()
     resetStageModelSelectedDisplayModel()
     resetStageModelSelectedUrl()
@@ -196,6 +199,7 @@ export const useSettings = defineStore('settings', () => {
     disableTransitions,
     usePageSpecificTransitions,
     language,
+    userName,
 
     stageModelRenderer,
     stageModelSelected,
@@ -0,0 +1,107 @@
+import type { TokenPrice, UsageRecord, UsageSummary } from '../utils/usage'
+
+import { chunk } from 'es-toolkit'
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+
+import { deleteAllUsageRecords, insertUsageRecords, listUsageRecords, listUsageSummaries } from '../database/usage'
+import { createResettableLocalStorage } from '../utils/resettable'
+import { mergeSummaries, summaryOf, totalsBy, usageToCsv } from '../utils/usage'
+
+export type { TokenPrice, UsageRecord, UsageTotals } from '../utils/usage'
+
+// Where records were kept before they moved to the database
+const LEGACY_USAGE_STORAGE_KEY = 'usage/records/v1'
+
+/**
+ * Moves the records from localStorage to the database, they are only removed from
+ * localStorage once all of them were saved.
+ */
+async function migrateLegacyRecords() {
+  const stored = localStorage.getItem(LEGACY_USAGE_STORAGE_KEY)
+  if (!stored)
+    return
+
+  for (const records of chunk(JSON.parse(stored) as UsageRecord[], 1000))
+    await insertUsageRecords(records)
+
+  localStorage.removeItem(LEGACY_USAGE_STORAGE_KEY)
+}
+
+export const useUsageStore = defineStore('usage', () => {
+  // Summed up per day, session, provider and model, records themselves stay in the database
+  const summaries = ref<UsageSummary[]>([])
+  // Keyed by provider id
+  const [prices, resetPrices] = createResettableLocalStorage<Record<string, TokenPrice>>('settings/usage/prices', {})
+
+  const dailyTotals = computed(() => totalsBy(summaries.value, summary => summary.day, prices.value))
+  const sessionTotals = computed(() => totalsBy(summaries.value, summary => summary.sessionId, prices.value))
+  const providerTotals = computed(() => totalsBy(summaries.value, summary => summary.providerId, prices.value))
+  const modelTotals = computed(() => totalsBy(summaries.value, summary => `${summary.providerId}/${summary.model}`, prices.value))
+  const totals = computed(() => totalsBy(summaries.value, () => 'all', prices.value).all)
+
+  // Writes are chained, so reading after them sees every record
+  let writing = (async () => {
+    try {
+      await migrateLegacyRecords()
+    }
+    catch (error) {
+      console.warn('Failed to move usage records to the database, they stay in localStorage for now:', error)
+    }
+
+    try {
+      const listed = await listUsageSummaries()
+      // Recorded while loading, they're written after this
+      summaries.value = summaries.value.reduce(mergeSummaries, listed)
+    }
+    catch (error) {
+      console.warn('Failed to load usage records from the database:', error)
+    }
+  })()
+
+  function record(entry: UsageRecord) {
+    summaries.value = mergeSummaries(summaries.value, summaryOf(entry))
+    writing = writing.then(() => insertUsageRecords([entry])).catch((error) => {
+      console.warn('Failed to save usage record to the database:', error)
+    })
+  }
+
+  function setPrice(providerId: string, price: TokenPrice | undefined) {
+    const { [providerId]: _, ...rest } = prices.value
+    prices.value = price ? { ...rest, [providerId]: price } : rest
+  }
+
+  async function exportCsv() {
+    await writing
+    return new Blob([usageToCsv(await listUsageRecords(), prices.value)], { type: 'text/csv' })
+  }
+
+  async function clearRecords() {
+    await writing
+    await deleteAllUsageRecords()
+    localStorage.removeItem(LEGACY_USAGE_STORAGE_KEY)
+    summaries.value = []
+  }
+
+  async function resetState() {
+    await clearRecords()
+    resetPrices()
+  }
+
+  return {
+    summaries,
+    prices,
+
+    dailyTotals,
+    sessionTotals,
+    providerTotals,
+    modelTotals,
+    totals,
+
+    record,
+    setPrice,
+    exportCsv,
+    clearRecords,
+    resetState,
+  }
+})
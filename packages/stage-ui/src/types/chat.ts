@@ -1,4 +1,4 @@
-import type { ContextUpdate, WebSocketEventSource } from '@proj-airi/server-sdk'
+import type { ContextUpdate, WebSocketEventSource, WithInputSource } from '@proj-airi/server-sdk'
 import type { AssistantMessage, CommonContentPart, CompletionToolCall, Message, SystemMessage, ToolMessage, UserMessage } from '@xsai/shared-chat'
 
 export interface ChatSlicesText {
@@ -19,12 +19,62 @@ export interface ChatSlicesToolCallResult {
 
 export type ChatSlices = ChatSlicesText | ChatSlicesToolCall | ChatSlicesToolCallResult
 
+/**
+ * Transcript of a tool call made while generating a message.
+ */
+export interface ChatToolCallRecord {
+  id: string
+  name: string
+  /**
+   * Arguments as the model sent them, a JSON string.
+   */
+  args: string
+  status: 'pending' | 'succeeded' | 'failed'
+  result?: string | CommonContentPart[]
+  /**
+   * What the tool threw, the model got it as the result.
+   */
+  error?: string
+  startedAt?: number
+  durationMs?: number
+}
+
 export interface ChatAssistantMessage extends AssistantMessage {
   slices: ChatSlices[]
+  /**
+   * Tool results of messages stored before `toolCalls` existed, new messages leave it empty.
+   */
   tool_results: {
     id: string
     result?: string | CommonContentPart[]
   }[]
+  /**
+   * Tool calls in the order they were made, `tool-call` slices refer to them by id.
+   */
+  toolCalls?: ChatToolCallRecord[]
+  /**
+   * Generation was stopped before the model finished, the message only holds
+   * what had been streamed until then.
+   */
+  interrupted?: boolean
+  /**
+   * Provider and model that answered, differs from the configured ones after a failover.
+   */
+  generatedBy?: {
+    providerId?: string
+    model: string
+  }
+  usage?: ChatUsage
+}
+
+export interface ChatUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  /**
+   * Whether the provider reported the tokens or they were estimated from the text.
+   */
+  source: 'provider-based' | 'estimate-based'
 }
 
 export type ChatMessage = ChatAssistantMessage | SystemMessage | ToolMessage | UserMessage
@@ -41,8 +91,59 @@ export interface ContextMessage extends ContextUpdate {
 
 export type ChatHistoryItem = (ChatMessage | ErrorMessage) & { context?: ContextMessage } & { createdAt?: number }
 
+/**
+ * Rolling summary standing in for the oldest messages of a session once the history
+ * outgrew the context budget of the model.
+ */
+export interface ChatSessionSummary {
+  text: string
+  /**
+   * Number of history messages after the system prompt that the summary covers.
+   */
+  foldedCount: number
+  updatedAt: number
+}
+
+/**
+ * Message of a session's history tree, every regeneration or edit adds a sibling branch.
+ */
+export interface ChatTreeNode {
+  id: string
+  parentId?: string
+  message: ChatHistoryItem
+  children: string[]
+  /**
+   * Branch pointer, the child the session currently continues with. The active branch
+   * ends at the first node without one.
+   */
+  activeChild?: string
+  createdAt?: number
+}
+
+export interface ChatTree {
+  /**
+   * The system prompt of the session.
+   */
+  rootId: string
+  nodes: Record<string, ChatTreeNode>
+}
+
+export interface ChatBranchInfo {
+  /**
+   * Position among the siblings, starting at 0.
+   */
+  index: number
+  count: number
+}
+
+/**
+ * Conversation elsewhere a message came from, replies to it are routed back there.
+ */
+export type ChatInputSource = Partial<WithInputSource<'discord' | 'telegram'>>
+
 export interface ChatStreamEventContext {
   input: ChatHistoryItem
+  inputSource?: ChatInputSource
   contexts: Record<string, ContextMessage[]>
   composedMessage: Message[]
 }
@@ -55,6 +156,7 @@ export type ChatStreamEvent
     | { type: 'token-literal', literal: string, sessionId: string, context: ChatStreamEventContext }
     | { type: 'token-special', special: string, sessionId: string, context: ChatStreamEventContext }
     | { type: 'stream-end', sessionId: string, context: ChatStreamEventContext }
+    | { type: 'stream-interrupted', sessionId: string, context: ChatStreamEventContext }
     | { type: 'assistant-end', message: string, sessionId: string, context: ChatStreamEventContext }
     | { type: 'assistant-message', message: ChatAssistantMessage, sessionId: string, messageText: string, context: ChatStreamEventContext }
 
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+
+import { changesToRows, rowsToTree, searchTermsOf, termRowsOf, termsOf, textOfMessage, treeToRows } from './chat-history'
+import { appendMessage, createChatTree } from './chat-tree'
+
+describe('treeToRows', () => {
+  it('round trips trees with branches', () => {
+    const tree = createChatTree([
+      { role: 'system', content: 'You are AIRI', createdAt: 1 },
+      { role: 'user', content: 'hi', createdAt: 2 },
+      { role: 'assistant', content: 'hello', slices: [], tool_results: [], createdAt: 3 },
+    ])
+    const question = tree.nodes[tree.nodes[tree.rootId].activeChild!]
+    appendMessage(tree, { role: 'assistant', content: 'hey', slices: [], tool_results: [], createdAt: 4 }, question.id)
+
+    const { session, messages } = treeToRows('default', tree)
+    expect(session).toMatchObject({ id: 'default', root_id: tree.rootId, created_at: 1, updated_at: 4 })
+    expect(messages.map(row => row.content)).toEqual(['You are AIRI', 'hi', 'hello', 'hey'])
+
+    // Rows come back from the database in any order
+    expect(rowsToTree(session, [...messages].reverse())).toEqual(tree)
+  })
+})
+
+describe('changesToRows', () => {
+  it('writes changed nodes whole and only the pointers of the rest', () => {
+    const tree = createChatTree([
+      { role: 'system', content: 'You are AIRI', createdAt: 1 },
+      { role: 'user', content: 'hi', createdAt: 2 },
+    ])
+    const question = tree.nodes[tree.nodes[tree.rootId].activeChild!]
+    const reply = appendMessage(tree, { role: 'assistant', content: 'hello', slices: [], tool_results: [], createdAt: 3 })
+
+    const { messages, pointers, removed } = changesToRows('default', tree, {
+      nodes: new Set([reply.id, 'missing']),
+      pointers: new Set([question.id, reply.id]),
+      removed: new Set(['gone', question.id]),
+    })
+
+    expect(messages).toEqual([treeToRows('default', tree).messages[2]])
+    expect(pointers).toEqual([{ id: question.id, active_child: reply.id, position: 0 }])
+    // Nodes still in the tree were moved, not removed
+    expect(removed).toEqual(['gone'])
+  })
+})
+
+describe('textOfMessage', () => {
+  it('leaves out attachments', () => {
+    expect(textOfMessage({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'look' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+      ],
+    })).toBe('look')
+  })
+})
+
+describe('search helpers', () => {
+  it('splits text into terms', () => {
+    expect(searchTermsOf('  Tea,   party! tea ')).toEqual(['tea', 'party'])
+    expect(searchTermsOf()).toEqual([])
+    expect(termsOf('Café 2 ＡＩＲＩ')).toEqual(['café', '2', 'airi'])
+    expect(termsOf('今天天气 good')).toEqual(['今', '天', '天', '气', 'good'])
+  })
+
+  it('counts the terms of messages', () => {
+    const [row] = treeToRows('s1', createChatTree([{ role: 'user', content: 'tea, more tea' }])).messages.filter(row => row.content)
+
+    expect(termRowsOf([row])).toEqual([
+      { message_id: row.id, session_id: 's1', term: 'tea', count: 2 },
+      { message_id: row.id, session_id: 's1', term: 'more', count: 1 },
+    ])
+  })
+})
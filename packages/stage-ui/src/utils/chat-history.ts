@@ -0,0 +1,164 @@
+import type { chatMessagesTable, chatMessageTermsTable, chatSessionsTable } from '../database/schema'
+import type { ChatHistoryItem, ChatTree, ChatTreeNode } from '../types/chat'
+
+export type ChatSessionRow = typeof chatSessionsTable.$inferSelect
+export type ChatMessageRow = typeof chatMessagesTable.$inferSelect
+export type ChatMessageTermRow = typeof chatMessageTermsTable.$inferSelect
+
+export interface ChatHistorySearchOptions {
+  /**
+   * Every term of the text, see `termsOf`, has to appear in the message as a whole word.
+   * Matches are ranked by how often and how rarely their terms appear, best first.
+   */
+  text?: string
+  /**
+   * Timestamps in milliseconds, both inclusive.
+   */
+  from?: number
+  to?: number
+  sessionId?: string
+  /**
+   * @default 50
+   */
+  limit?: number
+}
+
+export interface ChatHistorySearchResult {
+  sessionId: string
+  messageId: string
+  role: string
+  content: string
+  createdAt: number
+}
+
+/**
+ * Changes to a session's tree not written to the database yet.
+ */
+export interface ChatTreeChanges {
+  /**
+   * Nodes written as a whole, i.e. new ones and ones whose message changed.
+   */
+  nodes: Set<string>
+  /**
+   * Nodes whose branch pointer or position among their siblings changed.
+   */
+  pointers: Set<string>
+  removed: Set<string>
+}
+
+export type ChatMessagePointerRow = Pick<ChatMessageRow, 'id' | 'active_child' | 'position'>
+
+export interface ChatSessionInfo {
+  id: string
+  messages: number
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Plain text of a message, attachments are left out.
+ */
+export function textOfMessage(message: ChatHistoryItem): string {
+  const content = (message as { content?: unknown }).content
+  if (typeof content === 'string')
+    return content
+  if (Array.isArray(content))
+    return content.map(part => part?.type === 'text' ? part.text : '').filter(Boolean).join('\n')
+
+  return ''
+}
+
+// Chinese and Japanese have no spaces between words, their characters are terms of their own
+const TERM_PATTERN = /[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}]|(?:(?![\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}])[\p{L}\p{M}\p{N}_])+/gu
+
+/**
+ * Lowercased words of the text, in order and with repeats, the terms it's indexed and searched by.
+ */
+export function termsOf(text: string): string[] {
+  return text.normalize('NFKC').toLowerCase().match(TERM_PATTERN) ?? []
+}
+
+export function searchTermsOf(text?: string): string[] {
+  return [...new Set(termsOf(text ?? ''))]
+}
+
+/**
+ * Rows of the full-text index for the messages.
+ */
+export function termRowsOf(messages: Array<Pick<ChatMessageRow, 'id' | 'session_id' | 'content'>>): ChatMessageTermRow[] {
+  return messages.flatMap((message) => {
+    const counts = new Map<string, number>()
+    for (const term of termsOf(message.content))
+      counts.set(term, (counts.get(term) ?? 0) + 1)
+
+    return [...counts].map(([term, count]) => ({ message_id: message.id, session_id: message.session_id, term, count }))
+  })
+}
+
+function positionOf(tree: ChatTree, node: ChatTreeNode) {
+  return node.parentId ? tree.nodes[node.parentId]?.children.indexOf(node.id) ?? 0 : 0
+}
+
+function nodeToRow(sessionId: string, tree: ChatTree, node: ChatTreeNode, now: number): ChatMessageRow {
+  return {
+    id: node.id,
+    session_id: sessionId,
+    parent_id: node.parentId ?? null,
+    position: positionOf(tree, node),
+    active_child: node.activeChild ?? null,
+    role: node.message.role,
+    content: textOfMessage(node.message),
+    message: JSON.stringify(node.message),
+    created_at: node.createdAt ?? now,
+  }
+}
+
+export function treeToRows(sessionId: string, tree: ChatTree, now = Date.now()): { session: ChatSessionRow, messages: ChatMessageRow[] } {
+  const messages = Object.values(tree.nodes).map(node => nodeToRow(sessionId, tree, node, now))
+
+  return {
+    session: {
+      id: sessionId,
+      root_id: tree.rootId,
+      created_at: tree.nodes[tree.rootId]?.createdAt ?? now,
+      updated_at: Math.max(0, ...messages.map(message => message.created_at)),
+    },
+    messages,
+  }
+}
+
+/**
+ * Rows to write for the changes, only the changed nodes are serialized. Nodes removed
+ * in the meantime are skipped, nodes written as a whole carry their branch pointer along.
+ */
+export function changesToRows(sessionId: string, tree: ChatTree, changes: ChatTreeChanges, now = Date.now()): { messages: ChatMessageRow[], pointers: ChatMessagePointerRow[], removed: string[] } {
+  const messages = [...changes.nodes]
+    .filter(id => tree.nodes[id])
+    .map(id => nodeToRow(sessionId, tree, tree.nodes[id], now))
+  const pointers = [...changes.pointers]
+    .filter(id => tree.nodes[id] && !changes.nodes.has(id))
+    .map(id => ({ id, active_child: tree.nodes[id].activeChild ?? null, position: positionOf(tree, tree.nodes[id]) }))
+
+  return { messages, pointers, removed: [...changes.removed].filter(id => !tree.nodes[id]) }
+}
+
+export function rowsToTree(session: ChatSessionRow, rows: ChatMessageRow[]): ChatTree {
+  const nodes: Record<string, ChatTreeNode> = {}
+  for (const row of rows) {
+    nodes[row.id] = {
+      id: row.id,
+      parentId: row.parent_id ?? undefined,
+      message: JSON.parse(row.message) as ChatHistoryItem,
+      children: [],
+      activeChild: row.active_child ?? undefined,
+      createdAt: row.created_at,
+    }
+  }
+
+  for (const row of [...rows].sort((a, b) => a.position - b.position)) {
+    if (row.parent_id)
+      nodes[row.parent_id]?.children.push(row.id)
+  }
+
+  return { rootId: session.root_id, nodes }
+}
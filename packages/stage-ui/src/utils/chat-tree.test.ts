@@ -0,0 +1,78 @@
+import type { ChatHistoryItem } from '../types/chat'
+
+import { describe, expect, it } from 'vitest'
+
+import { activeMessages, activeNodes, appendMessage, branchOf, createChatTree, removeNode, revealNode, selectNode, switchBranch } from './chat-tree'
+
+const system: ChatHistoryItem = { role: 'system', content: 'You are AIRI' }
+const user = (content: string): ChatHistoryItem => ({ role: 'user', content })
+const assistant = (content: string): ChatHistoryItem => ({ role: 'assistant', content, slices: [{ type: 'text', text: content }], tool_results: [] })
+
+function contentsOf(messages: ChatHistoryItem[]) {
+  return messages.map(message => message.content)
+}
+
+describe('createChatTree', () => {
+  it('keeps a flat history as the active branch', () => {
+    const tree = createChatTree([system, user('hi'), assistant('hello')])
+
+    expect(contentsOf(activeMessages(tree))).toEqual(['You are AIRI', 'hi', 'hello'])
+    expect(Object.keys(tree.nodes)).toHaveLength(3)
+  })
+})
+
+describe('branches', () => {
+  it('regenerates replies as siblings and swipes between them', () => {
+    const tree = createChatTree([system, user('hi'), assistant('hello')])
+    const [, question, first] = activeNodes(tree)
+
+    expect(selectNode(tree, question.id)).toEqual([question.id])
+    expect(contentsOf(activeMessages(tree))).toEqual(['You are AIRI', 'hi'])
+
+    const second = appendMessage(tree, assistant('hey'), question.id)
+    expect(contentsOf(activeMessages(tree))).toEqual(['You are AIRI', 'hi', 'hey'])
+    expect(branchOf(tree, second.id)).toEqual({ index: 1, count: 2 })
+
+    expect(switchBranch(tree, second.id, -1)?.id).toBe(first.id)
+    expect(contentsOf(activeMessages(tree))).toEqual(['You are AIRI', 'hi', 'hello'])
+    expect(switchBranch(tree, first.id, -1)).toBeUndefined()
+  })
+
+  it('continues swiped to branches where they were left', () => {
+    const tree = createChatTree([system, user('hi'), assistant('hello'), user('how are you?'), assistant('fine')])
+    const [root, question] = activeNodes(tree)
+
+    const edited = appendMessage(tree, user('hey'), root.id)
+    appendMessage(tree, assistant('hey there'), edited.id)
+    expect(contentsOf(activeMessages(tree))).toEqual(['You are AIRI', 'hey', 'hey there'])
+
+    switchBranch(tree, edited.id, -1)
+    expect(activeNodes(tree)[1].id).toBe(question.id)
+    expect(contentsOf(activeMessages(tree))).toHaveLength(5)
+  })
+
+  it('reports the branch pointers it moved', () => {
+    const tree = createChatTree([system, user('hi'), assistant('hello'), user('how are you?')])
+    const [root, question, reply, followUp] = activeNodes(tree)
+    const edited = appendMessage(tree, user('hey'), root.id)
+
+    expect(revealNode(tree, followUp.id)).toEqual([root.id])
+    expect(revealNode(tree, followUp.id)).toEqual([])
+    expect(selectNode(tree, reply.id)).toEqual([reply.id])
+    expect(selectNode(tree, edited.id)).toEqual([root.id])
+    expect(question.activeChild).toBe(reply.id)
+  })
+
+  it('removes nodes with their descendants', () => {
+    const tree = createChatTree([system, user('hi'), assistant('hello')])
+    const [, question, reply] = activeNodes(tree)
+    const other = appendMessage(tree, assistant('hey'), question.id)
+
+    expect(removeNode(tree, other.id)).toEqual([other.id])
+    expect(activeNodes(tree).at(-1)?.id).toBe(reply.id)
+
+    expect(removeNode(tree, question.id)).toEqual(expect.arrayContaining([question.id, reply.id]))
+    expect(Object.keys(tree.nodes)).toEqual([tree.rootId])
+    expect(contentsOf(activeMessages(tree))).toEqual(['You are AIRI'])
+  })
+})
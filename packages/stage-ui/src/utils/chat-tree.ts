@@ -0,0 +1,145 @@
+import type { ChatBranchInfo, ChatHistoryItem, ChatTree, ChatTreeNode } from '../types/chat'
+
+import { nanoid } from 'nanoid'
+
+function createNode(message: ChatHistoryItem, parentId?: string): ChatTreeNode {
+  return { id: nanoid(), parentId, message, children: [], createdAt: message.createdAt ?? Date.now() }
+}
+
+/**
+ * Builds a tree with a single branch out of a flat history, `messages[0]` becomes the root.
+ */
+export function createChatTree(messages: ChatHistoryItem[]): ChatTree {
+  const [first, ...rest] = messages
+  const root = createNode(first ?? { role: 'system', content: '' })
+  const tree: ChatTree = { rootId: root.id, nodes: { [root.id]: root } }
+
+  for (const message of rest)
+    appendMessage(tree, message)
+
+  return tree
+}
+
+/**
+ * Nodes of the active branch, from the root following the branch pointers.
+ */
+export function activeNodes(tree: ChatTree): ChatTreeNode[] {
+  const nodes: ChatTreeNode[] = []
+  let node: ChatTreeNode | undefined = tree.nodes[tree.rootId]
+  while (node) {
+    nodes.push(node)
+    node = node.activeChild ? tree.nodes[node.activeChild] : undefined
+  }
+
+  return nodes
+}
+
+export function activeMessages(tree: ChatTree): ChatHistoryItem[] {
+  return activeNodes(tree).map(node => node.message)
+}
+
+/**
+ * Adds the message as the last child of `parentId` and makes it the active branch there.
+ * Appends to the end of the active branch when no parent is given.
+ */
+export function appendMessage(tree: ChatTree, message: ChatHistoryItem, parentId?: string): ChatTreeNode {
+  const parent = tree.nodes[parentId ?? activeNodes(tree).at(-1)!.id]
+  if (!parent)
+    throw new Error(`Chat tree node ${parentId} does not exist`)
+
+  const node = createNode(message, parent.id)
+  tree.nodes[node.id] = node
+  parent.children.push(node.id)
+  parent.activeChild = node.id
+
+  return node
+}
+
+/**
+ * Makes the active branch pass through the node, continuing with whatever the node last continued with.
+ *
+ * @returns the nodes whose branch pointer moved
+ */
+export function revealNode(tree: ChatTree, id: string): string[] {
+  const moved: string[] = []
+  let node = tree.nodes[id]
+  while (node?.parentId) {
+    const parent: ChatTreeNode = tree.nodes[node.parentId]
+    if (parent.activeChild !== node.id) {
+      parent.activeChild = node.id
+      moved.push(parent.id)
+    }
+
+    node = parent
+  }
+
+  return moved
+}
+
+/**
+ * Makes the active branch pass through the node and end there, its children are kept
+ * as branches to swipe back to.
+ *
+ * @returns the nodes whose branch pointer moved
+ */
+export function selectNode(tree: ChatTree, id: string): string[] {
+  const node = tree.nodes[id]
+  if (!node)
+    return []
+
+  const moved = node.activeChild ? [id] : []
+  node.activeChild = undefined
+  return [...moved, ...revealNode(tree, id)]
+}
+
+/**
+ * Removes the node with everything branching off it. The parent continues with its
+ * last remaining child.
+ *
+ * @returns the removed nodes
+ */
+export function removeNode(tree: ChatTree, id: string): string[] {
+  const node = tree.nodes[id]
+  if (!node || id === tree.rootId)
+    return []
+
+  const parent = tree.nodes[node.parentId!]
+  parent.children = parent.children.filter(child => child !== id)
+  if (parent.activeChild === id)
+    parent.activeChild = parent.children.at(-1)
+
+  const removed: string[] = []
+  const pending = [id]
+  while (pending.length > 0) {
+    const current = pending.pop()!
+    pending.push(...(tree.nodes[current]?.children ?? []))
+    delete tree.nodes[current]
+    removed.push(current)
+  }
+
+  return removed
+}
+
+export function branchOf(tree: ChatTree, id: string): ChatBranchInfo {
+  const siblings = tree.nodes[tree.nodes[id]?.parentId ?? '']?.children ?? [id]
+  return { index: Math.max(siblings.indexOf(id), 0), count: siblings.length }
+}
+
+/**
+ * Swipes from the node to its sibling `offset` positions away, the active branch continues
+ * with whatever that sibling last continued with.
+ *
+ * @returns the sibling switched to, or `undefined` when there is none
+ */
+export function switchBranch(tree: ChatTree, id: string, offset: number): ChatTreeNode | undefined {
+  const parent = tree.nodes[tree.nodes[id]?.parentId ?? '']
+  if (!parent)
+    return undefined
+
+  const target = tree.nodes[parent.children[parent.children.indexOf(id) + offset]]
+  if (!target)
+    return undefined
+
+  parent.activeChild = target.id
+  return target
+}
@@ -0,0 +1,73 @@
+import type { Message } from '@xsai/shared-chat'
+
+import type { ContextMessage } from '../types/chat'
+
+import { ContextUpdateStrategy } from '@proj-airi/server-sdk'
+import { describe, expect, it } from 'vitest'
+
+import { capContexts, countMessagesToFold, estimateMessagesTokens, estimateTokens, truncateToTokens } from './context-budget'
+
+function contextMessage(text: string): ContextMessage {
+  return { id: 'id', contextId: 'context-id', strategy: ContextUpdateStrategy.AppendSelf, text, source: 'module', createdAt: 0 }
+}
+
+describe('estimateTokens', () => {
+  it('counts about 4 latin characters per token', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcdefgh')).toBe(2)
+    expect(estimateTokens('abcdefghi')).toBe(3)
+  })
+
+  it('counts CJK characters as one token each', () => {
+    expect(estimateTokens('你好世界')).toBe(4)
+    expect(estimateTokens('こんにちは world')).toBe(5 + 2)
+  })
+})
+
+describe('truncateToTokens', () => {
+  it('keeps text within the limit untouched', () => {
+    expect(truncateToTokens('short', 10)).toBe('short')
+  })
+
+  it('cuts text over the limit', () => {
+    const truncated = truncateToTokens('a'.repeat(400), 10)
+
+    expect(truncated.endsWith('…')).toBe(true)
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(10)
+  })
+})
+
+describe('countMessagesToFold', () => {
+  const history: Message[] = [
+    { role: 'user', content: 'a'.repeat(400) },
+    { role: 'assistant', content: 'b'.repeat(400) },
+    { role: 'user', content: 'c'.repeat(400) },
+    { role: 'assistant', content: 'd'.repeat(400) },
+    { role: 'user', content: 'e'.repeat(40) },
+  ]
+
+  it('folds nothing within budget', () => {
+    expect(countMessagesToFold(history, estimateMessagesTokens(history))).toBe(0)
+  })
+
+  it('folds whole turns until the rest fits', () => {
+    expect(countMessagesToFold(history, 250, { keepLast: 1 })).toBe(2)
+  })
+
+  it('never folds the last messages', () => {
+    expect(countMessagesToFold(history, 0, { keepLast: 3 })).toBe(2)
+  })
+})
+
+describe('capContexts', () => {
+  it('keeps the newest updates fitting in the cap of each module', () => {
+    const capped = capContexts({
+      a: [contextMessage('old'), contextMessage('new')],
+      b: [contextMessage('x'.repeat(4000))],
+    }, { default: 40, modules: { a: 1000 } })
+
+    expect(capped.a.map(message => message.text)).toEqual(['old', 'new'])
+    expect(capped.b).toHaveLength(1)
+    expect(estimateTokens(JSON.stringify(capped.b[0]))).toBeLessThanOrEqual(40)
+  })
+})
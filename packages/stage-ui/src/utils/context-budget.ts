@@ -0,0 +1,129 @@
+import type { Message } from '@xsai/shared-chat'
+
+import type { ContextMessage } from '../types/chat'
+
+// Hiragana, Katakana, CJK ideographs and Hangul are roughly one token per character
+const cjkCharacters = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/g
+
+// Role, separators and other framing every chat message costs
+const MESSAGE_OVERHEAD_TOKENS = 4
+// What OpenAI bills for a high detail 1024x1024 image, a decent guess for other providers too
+const IMAGE_TOKENS = 765
+
+/**
+ * Rough token count of a text without loading any tokenizer, about 4 characters per token
+ * for latin scripts and 1 per character for CJK. Errs on the side of overestimating.
+ */
+export function estimateTokens(text: string): number {
+  if (!text)
+    return 0
+
+  const cjk = text.match(cjkCharacters)?.length ?? 0
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS
+  const content = (message as { content?: unknown }).content
+
+  if (typeof content === 'string') {
+    tokens += estimateTokens(content)
+  }
+  else if (Array.isArray(content)) {
+    for (const part of content) {
+      if (part?.type === 'text')
+        tokens += estimateTokens(part.text)
+      else if (part?.type === 'image_url')
+        tokens += IMAGE_TOKENS
+      else
+        tokens += estimateTokens(JSON.stringify(part))
+    }
+  }
+
+  if ('tool_calls' in message && message.tool_calls)
+    tokens += estimateTokens(JSON.stringify(message.tool_calls))
+
+  return tokens
+}
+
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+}
+
+/**
+ * Cuts the text so it fits in `maxTokens`, marking the cut with an ellipsis.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens)
+    return text
+
+  let end = Math.min(text.length, Math.max(0, maxTokens) * 4)
+  while (end > 0 && estimateTokens(text.slice(0, end)) > maxTokens - 1)
+    end = Math.floor(end * 0.9)
+
+  return `${text.slice(0, end)}…`
+}
+
+/**
+ * Counts how many of the oldest messages have to be folded into the summary for the
+ * remaining ones to fit in `budget`. The last `keepLast` messages are never folded,
+ * and folding stops at a user message so turns (and tool results) are not split.
+ */
+export function countMessagesToFold(history: Message[], budget: number, options?: { keepLast?: number }): number {
+  const keepLast = Math.max(1, options?.keepLast ?? 4)
+  const foldable = history.length - keepLast
+
+  let total = estimateMessagesTokens(history)
+  let count = 0
+  while (count < foldable && total > budget) {
+    total -= estimateMessageTokens(history[count])
+    count++
+  }
+
+  while (count > 0 && count < foldable && history[count].role !== 'user')
+    count++
+
+  return count
+}
+
+export interface ContextCaps {
+  /**
+   * Token cap for modules without their own entry in `modules`.
+   */
+  default: number
+  modules?: Record<string, number>
+}
+
+/**
+ * Keeps the newest context updates of each module that fit in the module's cap,
+ * the newest one is truncated if it alone exceeds the cap.
+ */
+export function capContexts(contexts: Record<string, ContextMessage[]>, caps: ContextCaps): Record<string, ContextMessage[]> {
+  const capped: Record<string, ContextMessage[]> = {}
+
+  for (const [module, messages] of Object.entries(contexts)) {
+    const cap = caps.modules?.[module] ?? caps.default
+    const kept: ContextMessage[] = []
+    let used = 0
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const tokens = estimateTokens(JSON.stringify(messages[i]))
+      if (used + tokens > cap) {
+        if (kept.length === 0) {
+          const overhead = estimateTokens(JSON.stringify({ ...messages[i], text: '' }))
+          kept.unshift({ ...messages[i], text: truncateToTokens(messages[i].text, cap - overhead) })
+        }
+
+        break
+      }
+
+      kept.unshift(messages[i])
+      used += tokens
+    }
+
+    if (kept.length > 0)
+      capped[module] = kept
+  }
+
+  return capped
+}
@@ -0,0 +1,89 @@
+import type { ChatAssistantMessage, ChatToolCallRecord } from '../types/chat'
+
+import { describe, expect, it } from 'vitest'
+
+import { providerFamilyOf, runTool, toolCallsOf, toProviderMessages } from './tool-calls'
+
+function toolCall(id: string, overrides: Partial<ChatToolCallRecord> = {}): ChatToolCallRecord {
+  return { id, name: 'weather', args: '{"location":"Tokyo"}', status: 'succeeded', result: 'Sunny', ...overrides }
+}
+
+function assistant(toolCalls: ChatToolCallRecord[], texts: [string, string] = ['Let me check.', 'It is sunny.']): ChatAssistantMessage {
+  return {
+    role: 'assistant',
+    content: texts.join(''),
+    slices: [
+      { type: 'text', text: texts[0] },
+      ...toolCalls.map(record => ({ type: 'tool-call' as const, toolCall: { toolCallId: record.id, toolName: record.name, args: record.args, toolCallType: 'function' as const } })),
+      { type: 'text', text: texts[1] },
+    ],
+    tool_results: [],
+    toolCalls,
+  }
+}
+
+describe('toProviderMessages', () => {
+  it('splits steps into tool calls followed by their results', () => {
+    expect(toProviderMessages(assistant([toolCall('call_1')]), 'openai')).toEqual([
+      {
+        role: 'assistant',
+        content: 'Let me check.',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"location":"Tokyo"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+      { role: 'assistant', content: 'It is sunny.' },
+    ])
+  })
+
+  it('moves media out of tool messages and reports errors', () => {
+    const image = { type: 'image_url' as const, image_url: { url: 'data:image/png;base64,AAAA' } }
+    const [call, result, failed, media] = toProviderMessages(assistant([
+      toolCall('call_1', { result: [{ type: 'text', text: 'A cat' }, image] }),
+      toolCall('call_2', { status: 'failed', result: undefined, error: 'Timed out' }),
+      toolCall('call_3', { status: 'pending', result: undefined }),
+    ], ['', 'Done.']), 'openai')
+
+    expect(call).not.toHaveProperty('content')
+    expect((call as { tool_calls: unknown[] }).tool_calls).toHaveLength(2)
+    expect(result).toEqual({ role: 'tool', tool_call_id: 'call_1', content: 'A cat' })
+    expect(failed).toMatchObject({ role: 'tool', tool_call_id: 'call_2', content: 'Error: Timed out' })
+    expect(media).toMatchObject({ role: 'user', content: [{ type: 'text' }, image] })
+  })
+
+  it('follows what each provider family accepts', () => {
+    const message = assistant([toolCall('call.1:a', { result: '' })])
+
+    const [anthropicCall, anthropicResult] = toProviderMessages(message, 'anthropic')
+    expect(anthropicCall).toMatchObject({ tool_calls: [{ id: 'call_1_a' }] })
+    expect(anthropicResult).toMatchObject({ tool_call_id: 'call_1_a' })
+
+    const [, geminiResult] = toProviderMessages(message, 'gemini')
+    expect(geminiResult).toEqual({ role: 'tool', tool_call_id: 'call.1:a', name: 'weather', content: '(no output)' })
+  })
+
+  it('rebuilds tool calls of messages stored before they were recorded', () => {
+    const { toolCalls: _, ...legacy } = assistant([toolCall('call_1')])
+    const records = toolCallsOf({ ...legacy, tool_results: [{ id: 'call_1', result: 'Sunny' }] })
+
+    expect(records).toEqual([{ id: 'call_1', name: 'weather', args: '{"location":"Tokyo"}', status: 'succeeded', result: 'Sunny' }])
+  })
+})
+
+describe('providerFamilyOf', () => {
+  it('detects families by provider or routed model', () => {
+    expect(providerFamilyOf('anthropic', 'claude-sonnet-4-5')).toBe('anthropic')
+    expect(providerFamilyOf('openrouter-ai', 'google/gemini-2.5-flash')).toBe('gemini')
+    expect(providerFamilyOf('ollama', 'qwen3')).toBe('openai')
+  })
+})
+
+describe('runTool', () => {
+  it('reports thrown errors as results', async () => {
+    const outcome = await runTool(() => {
+      throw new Error('No such city')
+    })
+
+    expect(outcome).toMatchObject({ result: 'Error: No such city', error: 'No such city' })
+    expect(await runTool(() => ({ temperature: 20 }))).toMatchObject({ result: '{"temperature":20}' })
+  })
+})
@@ -0,0 +1,173 @@
+import type { CommonContentPart, Message, ToolCall, ToolExecuteResult, ToolMessage } from '@xsai/shared-chat'
+
+import type { ChatAssistantMessage, ChatToolCallRecord } from '../types/chat'
+
+/**
+ * Families of chat APIs that differ in what they accept for replayed tool calls,
+ * even behind OpenAI compatible endpoints.
+ */
+export type ProviderFamily = 'openai' | 'anthropic' | 'gemini'
+
+export interface ToolRunOutcome {
+  result: string | CommonContentPart[]
+  error?: string
+  startedAt: number
+  durationMs: number
+}
+
+const contentPartTypes = ['file', 'image_url', 'input_audio', 'text']
+
+export function providerFamilyOf(providerId?: string, model = ''): ProviderFamily {
+  // Routers like OpenRouter prefix models with their vendor
+  if (providerId === 'anthropic' || /^(?:anthropic\/)?claude/i.test(model))
+    return 'anthropic'
+  if (providerId === 'google-generative-ai' || /^(?:google\/)?gemini/i.test(model))
+    return 'gemini'
+
+  return 'openai'
+}
+
+/**
+ * Normalizes what a tool returned the way xsai does before sending it to the model.
+ */
+export function toToolResult(result: ToolExecuteResult): string | CommonContentPart[] {
+  if (typeof result === 'string')
+    return result
+  if (Array.isArray(result) && result.every(part => typeof part === 'object' && part != null && 'type' in part && contentPartTypes.includes(part.type as string)))
+    return result as CommonContentPart[]
+
+  return JSON.stringify(result)
+}
+
+/**
+ * Runs a tool, measuring how long it took. Errors are caught and reported in the outcome
+ * so the model can be told about them instead of the whole generation failing.
+ */
+export async function runTool(execute: () => Promise<ToolExecuteResult> | ToolExecuteResult): Promise<ToolRunOutcome> {
+  const startedAt = Date.now()
+  try {
+    const result = toToolResult(await execute())
+    return { result, startedAt, durationMs: Date.now() - startedAt }
+  }
+  catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { result: `Error: ${message}`, error: message, startedAt, durationMs: Date.now() - startedAt }
+  }
+}
+
+/**
+ * Tool calls of the message, messages stored before calls were recorded get theirs
+ * rebuilt from the slices.
+ */
+export function toolCallsOf(message: ChatAssistantMessage): ChatToolCallRecord[] {
+  if (message.toolCalls)
+    return message.toolCalls
+
+  const results = new Map((message.tool_results ?? []).map(result => [result.id, result.result]))
+  return (message.slices ?? []).flatMap((slice): ChatToolCallRecord[] => {
+    if (slice.type !== 'tool-call')
+      return []
+
+    const { toolCallId, toolName, args } = slice.toolCall
+    const result = results.get(toolCallId)
+    return [{ id: toolCallId, name: toolName, args, status: results.has(toolCallId) ? 'succeeded' : 'pending', result }]
+  })
+}
+
+function textOfResult(result?: string | CommonContentPart[]) {
+  if (typeof result === 'string' || result == null)
+    return result ?? ''
+
+  return result.map(part => part.type === 'text' ? part.text : '').filter(Boolean).join('\n')
+}
+
+function mediaOfResult(result?: string | CommonContentPart[]) {
+  return Array.isArray(result) ? result.filter(part => part.type !== 'text') : []
+}
+
+function toolCallIdFor(id: string, family: ProviderFamily) {
+  // Anthropic only takes ids made of letters, digits, `_` and `-`, OpenAI caps them at 40 characters
+  if (family === 'anthropic')
+    return id.replace(/[^\w-]/g, '_')
+  if (family === 'openai')
+    return id.slice(0, 40)
+
+  return id
+}
+
+export function toProviderToolCall(record: ChatToolCallRecord, family: ProviderFamily): ToolCall {
+  return {
+    id: toolCallIdFor(record.id, family),
+    type: 'function',
+    function: { name: record.name, arguments: record.args || '{}' },
+  }
+}
+
+function toToolMessage(record: ChatToolCallRecord, family: ProviderFamily): Message {
+  let content = textOfResult(record.result)
+  if (record.error && !content)
+    content = `Error: ${record.error}`
+
+  const message: ToolMessage = { role: 'tool', tool_call_id: toolCallIdFor(record.id, family), content }
+  if (family !== 'gemini')
+    return message
+
+  // Gemini matches function responses by name and rejects empty ones
+  return { ...message, name: record.name, content: content || '(no output)' } as Message
+}
+
+/**
+ * Turns the message into what the provider expects to be replayed: every step becomes an
+ * assistant message with its tool calls, followed by one tool message per call. Tool calls
+ * that never finished are left out, providers reject calls without results.
+ *
+ * Images and other media returned by tools can't be sent in tool messages, they follow
+ * the results of their step in a user message.
+ */
+export function toProviderMessages(message: ChatAssistantMessage, family: ProviderFamily): Message[] {
+  const content = typeof message.content === 'string' ? message.content : textOfResult(message.content as CommonContentPart[] | undefined)
+  if (!message.slices?.length)
+    return [{ role: 'assistant', content }]
+
+  const records = new Map(toolCallsOf(message).map(record => [record.id, record]))
+  const messages: Message[] = []
+  let text = ''
+  let calls: ChatToolCallRecord[] = []
+
+  const flush = () => {
+    if (!text && calls.length === 0)
+      return
+
+    messages.push({
+      role: 'assistant',
+      // Anthropic rejects empty text blocks, the others don't need content next to tool calls
+      ...(text ? { content: text } : {}),
+      ...(calls.length > 0 ? { tool_calls: calls.map(record => toProviderToolCall(record, family)) } : {}),
+    })
+    messages.push(...calls.map(record => toToolMessage(record, family)))
+
+    const media = calls.flatMap(record => mediaOfResult(record.result))
+    if (media.length > 0)
+      messages.push({ role: 'user', content: [{ type: 'text', text: 'Media returned by the tool calls above:' }, ...media] })
+
+    text = ''
+    calls = []
+  }
+
+  for (const slice of message.slices) {
+    if (slice.type === 'text') {
+      if (calls.length > 0)
+        flush()
+
+      text += slice.text
+      continue
+    }
+
+    const record = slice.type === 'tool-call' ? records.get(slice.toolCall.toolCallId) : undefined
+    if (record && record.status !== 'pending')
+      calls.push(record)
+  }
+
+  flush()
+  return messages.length > 0 ? messages : [{ role: 'assistant', content }]
+}
@@ -0,0 +1,73 @@
+import type { UsageRecord } from './usage'
+
+import { describe, expect, it } from 'vitest'
+
+import { costOf, mergeSummaries, summaryOf, totalsBy, usageToCsv } from './usage'
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    sessionId: 'default',
+    providerId: 'openai',
+    model: 'gpt-4o',
+    promptTokens: 1000,
+    completionTokens: 500,
+    totalTokens: 1500,
+    source: 'provider-based',
+    createdAt: new Date(2025, 0, 2, 12).getTime(),
+    ...overrides,
+  }
+}
+
+const prices = { openai: { prompt: 2.5, completion: 10 } }
+
+describe('costOf', () => {
+  it('prices prompt and completion tokens per million', () => {
+    expect(costOf(record(), prices)).toBeCloseTo(0.0075)
+  })
+
+  it('counts providers without a price as free', () => {
+    expect(costOf(record({ providerId: 'ollama' }), prices)).toBe(0)
+  })
+})
+
+describe('mergeSummaries', () => {
+  it('sums records of the same day, session, provider and model up', () => {
+    const summaries = [
+      record(),
+      record({ createdAt: new Date(2025, 0, 2, 18).getTime() }),
+      record({ model: 'gpt-4o-mini' }),
+      record({ createdAt: new Date(2025, 0, 3, 9).getTime() }),
+    ].map(summaryOf).reduce(mergeSummaries, [])
+
+    expect(summaries).toEqual([
+      { day: '2025-01-02', sessionId: 'default', providerId: 'openai', model: 'gpt-4o', turns: 2, promptTokens: 2000, completionTokens: 1000, totalTokens: 3000 },
+      { day: '2025-01-02', sessionId: 'default', providerId: 'openai', model: 'gpt-4o-mini', turns: 1, promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+      { day: '2025-01-03', sessionId: 'default', providerId: 'openai', model: 'gpt-4o', turns: 1, promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+    ])
+  })
+})
+
+describe('totalsBy', () => {
+  it('sums summaries per key', () => {
+    const totals = totalsBy([
+      record(),
+      record({ createdAt: new Date(2025, 0, 2, 18).getTime() }),
+      record({ providerId: 'ollama', createdAt: new Date(2025, 0, 3, 9).getTime() }),
+    ].map(summaryOf).reduce(mergeSummaries, []), summary => summary.day, prices)
+
+    expect(Object.keys(totals)).toEqual(['2025-01-02', '2025-01-03'])
+    expect(totals['2025-01-02']).toMatchObject({ turns: 2, promptTokens: 2000, completionTokens: 1000, totalTokens: 3000 })
+    expect(totals['2025-01-02'].cost).toBeCloseTo(0.015)
+    expect(totals['2025-01-03'].cost).toBe(0)
+  })
+})
+
+describe('usageToCsv', () => {
+  it('writes a header and escapes fields', () => {
+    const csv = usageToCsv([record({ model: 'model, "quoted"' })], prices)
+    const [header, row] = csv.split('\r\n')
+
+    expect(header).toBe('created_at,session_id,provider,model,prompt_tokens,completion_tokens,total_tokens,source,cost_usd')
+    expect(row).toContain(',openai,"model, ""quoted""",1000,500,1500,provider-based,0.007500')
+  })
+})
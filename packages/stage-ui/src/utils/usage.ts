@@ -0,0 +1,157 @@
+import type { usageRecordsTable } from '../database/schema'
+import type { ChatUsage } from '../types/chat'
+
+export type UsageRecordRow = typeof usageRecordsTable.$inferSelect
+
+export interface UsageRecord extends ChatUsage {
+  sessionId: string
+  providerId: string
+  model: string
+  createdAt: number
+}
+
+/**
+ * USD per million tokens.
+ */
+export interface TokenPrice {
+  prompt: number
+  completion: number
+}
+
+/**
+ * Records of one day, session, provider and model summed up, the totals are made of these
+ * instead of every record.
+ */
+export interface UsageSummary extends Pick<UsageRecord, 'sessionId' | 'providerId' | 'model' | 'promptTokens' | 'completionTokens' | 'totalTokens'> {
+  day: string
+  turns: number
+}
+
+export interface UsageTotals {
+  turns: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  /**
+   * USD, turns of providers without a price count as free.
+   */
+  cost: number
+}
+
+export function costOf(record: Pick<UsageRecord, 'providerId' | 'promptTokens' | 'completionTokens'>, prices: Record<string, TokenPrice>): number {
+  const price = prices[record.providerId]
+  if (!price)
+    return 0
+
+  return (record.promptTokens * price.prompt + record.completionTokens * price.completion) / 1_000_000
+}
+
+function emptyTotals(): UsageTotals {
+  return { turns: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }
+}
+
+/**
+ * Sums summaries up per key, keys are in the order they were first seen.
+ */
+export function totalsBy(summaries: UsageSummary[], keyOf: (summary: UsageSummary) => string, prices: Record<string, TokenPrice>): Record<string, UsageTotals> {
+  const totals: Record<string, UsageTotals> = {}
+
+  for (const summary of summaries) {
+    const key = keyOf(summary)
+    const total = totals[key] ??= emptyTotals()
+
+    total.turns += summary.turns
+    total.promptTokens += summary.promptTokens
+    total.completionTokens += summary.completionTokens
+    total.totalTokens += summary.totalTokens
+    total.cost += costOf(summary, prices)
+  }
+
+  return totals
+}
+
+export function summaryOf(record: UsageRecord): UsageSummary {
+  const { sessionId, providerId, model, promptTokens, completionTokens, totalTokens } = record
+  return { day: dayOf(record), sessionId, providerId, model, turns: 1, promptTokens, completionTokens, totalTokens }
+}
+
+/**
+ * Adds the summary to the one of the same day, session, provider and model, or appends it.
+ */
+export function mergeSummaries(summaries: UsageSummary[], summary: UsageSummary): UsageSummary[] {
+  const index = summaries.findIndex(existing => existing.day === summary.day && existing.sessionId === summary.sessionId
+    && existing.providerId === summary.providerId && existing.model === summary.model)
+  if (index < 0)
+    return [...summaries, summary]
+
+  const existing = summaries[index]
+  return summaries.with(index, {
+    ...existing,
+    turns: existing.turns + summary.turns,
+    promptTokens: existing.promptTokens + summary.promptTokens,
+    completionTokens: existing.completionTokens + summary.completionTokens,
+    totalTokens: existing.totalTokens + summary.totalTokens,
+  })
+}
+
+/**
+ * Local calendar day of the record, as `YYYY-MM-DD`.
+ */
+export function dayOf(record: Pick<UsageRecord, 'createdAt'>): string {
+  const date = new Date(record.createdAt)
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-')
+}
+
+function escapeCsvField(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+export function usageToCsv(records: UsageRecord[], prices: Record<string, TokenPrice>): string {
+  const header = ['created_at', 'session_id', 'provider', 'model', 'prompt_tokens', 'completion_tokens', 'total_tokens', 'source', 'cost_usd']
+  const rows = records.map(record => [
+    new Date(record.createdAt).toISOString(),
+    record.sessionId,
+    record.providerId,
+    record.model,
+    record.promptTokens,
+    record.completionTokens,
+    record.totalTokens,
+    record.source,
+    costOf(record, prices).toFixed(6),
+  ])
+
+  return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n')
+}
+
+export function recordToRow(id: string, record: UsageRecord): UsageRecordRow {
+  return {
+    id,
+    session_id: record.sessionId,
+    provider_id: record.providerId,
+    model: record.model,
+    prompt_tokens: record.promptTokens,
+    completion_tokens: record.completionTokens,
+    total_tokens: record.totalTokens,
+    source: record.source,
+    day: dayOf(record),
+    created_at: record.createdAt,
+  }
+}
+
+export function rowToRecord(row: UsageRecordRow): UsageRecord {
+  return {
+    sessionId: row.session_id,
+    providerId: row.provider_id,
+    model: row.model,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    totalTokens: row.total_tokens,
+    source: row.source as UsageRecord['source'],
+    createdAt: Number(row.created_at),
+  }
+}
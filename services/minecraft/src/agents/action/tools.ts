@@ -1,10 +1,13 @@
-import type { Action } from '../../libs/mineflayer'
+import type { Action, Place } from '../../libs/mineflayer'
 
 import { z } from 'zod'
 
+import { config } from '../../composables/config'
+import { placeOf } from '../../libs/mineflayer/world-memory'
 import { collectBlock } from '../../skills/actions/collect-block'
 import { discard, equip, putInChest, takeFromChest, viewChest } from '../../skills/actions/inventory'
 import { activateNearestBlock, placeBlock } from '../../skills/actions/world-interactions'
+import { buildBlueprint, describeBuild, findBlueprint, listBlueprints, materialsOf, missingMaterials, planBuild } from '../../skills/building'
 import { useLogger } from '../../utils/logger'
 
 import * as skills from '../../skills'
@@ -21,6 +24,10 @@ function formatWearingItem(slot: string, item: string | undefined): string {
   return item ? `\n${slot}: ${item}` : ''
 }
 
+function formatPlace({ position, dimension }: Place): string {
+  return `x: ${position.x}, y: ${position.y}, z: ${position.z} in the ${dimension}`
+}
+
 export const actionsList: Action[] = [
   {
     name: 'stats',
@@ -450,6 +457,156 @@ export const actionsList: Action[] = [
       return 'Staying in place...'
     },
   },
+
+  {
+    name: 'rememberLocation',
+    description: 'Remember the current location under a name (e.g. "home", "base", "farm"), it is kept across restarts.',
+    schema: z.object({
+      name: z.string().describe('The name to remember the location by.'),
+      note: z.string().optional().describe('What is at the location.'),
+    }),
+    perform: mineflayer => (name: string, note?: string) => {
+      const waypoint = mineflayer.worldMemory.rememberLocation(name, placeOf(mineflayer), note)
+      return `Remembered ${name} at ${formatPlace(waypoint)}.`
+    },
+  },
+
+  {
+    name: 'recallLocations',
+    description: 'List the remembered locations and where you last died.',
+    schema: z.object({}),
+    perform: mineflayer => (): string => {
+      const waypoints = mineflayer.worldMemory.listLocations()
+        .map(waypoint => `\n- ${waypoint.name}: ${formatPlace(waypoint)}${waypoint.note ? ` (${waypoint.note})` : ''}`)
+      const death = mineflayer.worldMemory.lastDeath()
+
+      return pad(`LOCATIONS${waypoints.join('') || ': none'}${death ? `\nLAST_DEATH: ${formatPlace(death)}, ${death.message}` : ''}`)
+    },
+  },
+
+  {
+    name: 'goToLocation',
+    description: 'Go to a remembered location.',
+    schema: z.object({
+      name: z.string().describe('The name of the remembered location.'),
+      closeness: z.number().describe('How close to get to the location.').min(0),
+    }),
+    perform: mineflayer => async (name: string, closeness: number) => {
+      const waypoint = mineflayer.worldMemory.recallLocation(name)
+      if (!waypoint)
+        return `No location remembered as ${name}.`
+      if (waypoint.dimension !== mineflayer.bot.game.dimension)
+        return `${name} is in the ${waypoint.dimension} dimension, you are in the ${mineflayer.bot.game.dimension}.`
+
+      await skills.goToPosition(mineflayer, waypoint.position.x, waypoint.position.y, waypoint.position.z, closeness)
+      return `Moving to ${name}...`
+    },
+  },
+
+  {
+    name: 'whereIsChestWith',
+    description: 'Find the chests last seen holding the given item, nearest first. Chests are remembered whenever you open them.',
+    schema: z.object({
+      item_name: z.string().describe('The name of the item to look for.'),
+    }),
+    perform: mineflayer => (item_name: string): string => {
+      const chests = mineflayer.worldMemory.findChestsWith(item_name, placeOf(mineflayer))
+        .slice(0, 5)
+        .map(chest => `\n- ${chest.count} at ${formatPlace(chest)}`)
+
+      return pad(`CHESTS_WITH_${item_name.toUpperCase()}${chests.join('') || ': none known'}`)
+    },
+  },
+
+  {
+    name: 'whereToFind',
+    description: 'Find where the given block or resource was seen before, nearest first.',
+    schema: z.object({
+      type: z.string().describe('The block or resource type to look for.'),
+    }),
+    perform: mineflayer => (type: string): string => {
+      const sightings = mineflayer.worldMemory.findResource(type, placeOf(mineflayer))
+        .slice(0, 5)
+        .map(sighting => `\n- ${sighting.resource} at ${formatPlace(sighting)}`)
+
+      return pad(`SIGHTINGS_OF_${type.toUpperCase()}${sightings.join('') || ': none known'}`)
+    },
+  },
+
+  {
+    name: 'recallPlan',
+    description: 'Recall the steps of a plan that achieved the given goal before.',
+    schema: z.object({
+      goal: z.string().describe('The goal to recall the plan for.'),
+    }),
+    perform: mineflayer => (goal: string): string => {
+      const plan = mineflayer.worldMemory.recallPlan(goal)
+      if (!plan)
+        return `No plan remembered for "${goal}".`
+
+      return pad(`PLAN for "${plan.goal}" (succeeded ${plan.successes} times)${plan.steps.map((step, index) => `\n${index + 1}. ${step.description} (${step.tool})`).join('')}`)
+    },
+  },
+
+  {
+    name: 'listBlueprints',
+    description: 'List the blueprints you can build and the builds left unfinished.',
+    schema: z.object({}),
+    perform: mineflayer => async () => {
+      const blueprints = (await listBlueprints(config.building.blueprintsPath)).map(name => `\n- ${name}`)
+      const builds = mineflayer.worldMemory.listBuilds()
+        .map(build => `\n- ${build.blueprint}: step ${build.next} of ${build.total} at ${formatPlace(build)}`)
+
+      return pad(`BLUEPRINTS${blueprints.join('') || ': none'}${builds.length ? `\nUNFINISHED_BUILDS${builds.join('')}` : ''}`)
+    },
+  },
+
+  {
+    name: 'blueprintMaterials',
+    description: 'Get the materials a blueprint takes and which of them are missing from your inventory.',
+    schema: z.object({
+      name: z.string().describe('The name of the blueprint.'),
+    }),
+    perform: mineflayer => async (name: string) => {
+      const blueprint = await findBlueprint(config.building.blueprintsPath, name)
+      if (!blueprint)
+        return `No blueprint named ${name}.`
+
+      const inventory = world.getInventoryCounts(mineflayer)
+      const materials = materialsOf(planBuild(blueprint))
+      const missing = missingMaterials(materials, inventory)
+
+      return pad(`MATERIALS for ${blueprint.name} (${blueprint.size.x}x${blueprint.size.y}x${blueprint.size.z})${Object.entries(materials)
+        .map(([item, count]) => `\n- ${item}: ${count}${missing[item] ? ` (missing ${missing[item]})` : ''}`)
+        .join('')}`)
+    },
+  },
+
+  {
+    name: 'buildBlueprint',
+    description: 'Build a structure from a blueprint right next to you (e.g. "small-house"), layer by layer. An unfinished build of the same blueprint is resumed where it stopped instead. Check blueprintMaterials first.',
+    schema: z.object({
+      name: z.string().describe('The name of the blueprint.'),
+    }),
+    perform: mineflayer => async (name: string) => {
+      const blueprint = await findBlueprint(config.building.blueprintsPath, name)
+      if (!blueprint)
+        return `No blueprint named ${name}.`
+
+      return describeBuild(blueprint.name, await buildBlueprint(mineflayer, blueprint))
+    },
+  },
+
+  {
+    name: 'abandonBuild',
+    description: 'Forget an unfinished build, so the blueprint is started anew next time.',
+    schema: z.object({
+      name: z.string().describe('The name of the blueprint.'),
+    }),
+    perform: mineflayer => (name: string): string => {
+      return mineflayer.worldMemory.forgetBuild(name) ? `Abandoned the build of ${name}.` : `No unfinished build of ${name}.`
+    },
+  },
   // getSetModeAction(): Action {
   //   return {
   //     name: 'setMode',
@@ -1,9 +1,11 @@
 import type { Neuri } from 'neuri'
 
 import type { Action } from '../../libs/mineflayer/action'
-import type { ActionAgent, AgentConfig, MemoryAgent, Plan, PlanningAgent } from '../../libs/mineflayer/base-agent'
+import type { ActionAgent, AgentConfig, Plan, PlanningAgent } from '../../libs/mineflayer/base-agent'
 import type { PlanStep } from './adapter'
+import type { SkillLibrary } from './skill-library'
 
+import { useBot } from '../../composables/bot'
 import { AbstractAgent } from '../../libs/mineflayer/base-agent'
 import { ActionAgentImpl } from '../action'
 import { PlanningLLMHandler } from './adapter'
@@ -23,20 +25,23 @@ export interface PlanningAgentConfig extends AgentConfig {
     agent: Neuri
     model?: string
   }
+  skills?: SkillLibrary
 }
 
 export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
   public readonly type = 'planning' as const
   private currentPlan: Plan | null = null
   private context: PlanContext | null = null
+  private paused: { promise: Promise<void>, resume: () => void } | null = null
   private actionAgent: ActionAgent | null = null
-  private memoryAgent: MemoryAgent | null = null
+  private skills?: SkillLibrary
   private llmConfig: PlanningAgentConfig['llm']
   private llmHandler: PlanningLLMHandler
 
   constructor(config: PlanningAgentConfig) {
     super(config)
     this.llmConfig = config.llm
+    this.skills = config.skills
     this.llmHandler = new PlanningLLMHandler({
       agent: this.llmConfig.agent,
       model: this.llmConfig.model,
@@ -64,10 +69,10 @@ export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
   }
 
   protected async destroyAgent(): Promise<void> {
+    this.resumePlan()
     this.currentPlan = null
     this.context = null
     this.actionAgent = null
-    this.memoryAgent = null
     this.removeAllListeners()
   }
 
@@ -79,44 +84,50 @@ export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
     this.logger.withField('goal', goal).log('Creating plan')
 
     try {
-      // Check memory for existing plan
-      const cachedPlan = await this.loadCachedPlan(goal)
-      if (cachedPlan) {
-        this.logger.log('Using cached plan')
-        return cachedPlan
-      }
-
-      // Get available actions from action agent
-      const availableActions = this.actionAgent?.getAvailableActions() ?? []
-
-      // Check if the goal requires actions
-      const requirements = this.parseGoalRequirements(goal)
-      const requiresAction = this.doesGoalRequireAction(requirements)
+      // Replay a learned skill when there is one for the goal
+      const match = await this.skills?.match(goal)
+      let plan: Plan
 
-      // If no actions needed, return empty plan
-      if (!requiresAction) {
-        this.logger.log('Goal does not require actions')
-        return {
+      if (match) {
+        this.logger.withFields({ skill: match.skill.name, arguments: match.arguments }).log('Using learned skill')
+        plan = {
           goal,
-          steps: [],
-          status: 'completed',
-          requiresAction: false,
+          steps: match.steps,
+          status: 'pending',
+          requiresAction: true,
+          skill: match.skill.name,
         }
       }
+      else {
+        // Get available actions from action agent
+        const availableActions = this.actionAgent?.getAvailableActions() ?? []
 
-      // Create plan steps based on available actions and goal
-      const steps = await this.generatePlanSteps(goal, availableActions, 'system')
+        // Check if the goal requires actions
+        const requirements = this.parseGoalRequirements(goal)
+        const requiresAction = this.doesGoalRequireAction(requirements)
+
+        // If no actions needed, return empty plan
+        if (!requiresAction) {
+          this.logger.log('Goal does not require actions')
+          return {
+            goal,
+            steps: [],
+            status: 'completed',
+            requiresAction: false,
+          }
+        }
 
-      // Create new plan
-      const plan: Plan = {
-        goal,
-        steps,
-        status: 'pending',
-        requiresAction: true,
-      }
+        // Create plan steps based on available actions and goal
+        const steps = await this.generatePlanSteps(goal, availableActions, 'system')
 
-      // Cache the plan
-      await this.cachePlan(plan)
+        // Create new plan
+        plan = {
+          goal,
+          steps,
+          status: 'pending',
+          requiresAction: true,
+        }
+      }
 
       this.currentPlan = plan
       this.context = {
@@ -159,6 +170,12 @@ export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
 
       // Execute each step
       for (const step of plan.steps) {
+        // Paused plans wait between steps, interrupted ones stop there
+        await this.paused?.promise
+        if (plan.status !== 'in_progress') {
+          throw new Error('Plan interrupted')
+        }
+
         try {
           this.logger.withField('step', step).log('Executing step')
           await this.actionAgent.performAction(step)
@@ -166,6 +183,11 @@ export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
         catch (stepError) {
           this.logger.withError(stepError).error('Failed to execute step')
 
+          // The adjusted plan repairs the skill once it works
+          if (plan.skill) {
+            this.skills?.recordFailure(plan.skill)
+          }
+
           // Attempt to adjust plan and retry
           if (this.context && this.context.retryCount < 3) {
             this.context.retryCount++
@@ -184,6 +206,11 @@ export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
       }
 
       plan.status = 'completed'
+      // Kept across restarts for when the same goal comes again
+      useBot().bot.worldMemory.rememberPlan(plan.goal, plan.steps)
+      if (plan.steps.length > 0) {
+        await this.skills?.learn(plan.goal, plan.steps)
+      }
     }
     catch (error) {
       plan.status = 'failed'
@@ -387,6 +414,38 @@ export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
     }
   }
 
+  public getCurrentPlan(): Plan | null {
+    return this.currentPlan
+  }
+
+  public pausePlan(): boolean {
+    if (this.currentPlan?.status !== 'in_progress') {
+      return false
+    }
+
+    if (!this.paused) {
+      let resume!: () => void
+      const promise = new Promise<void>((resolve) => {
+        resume = resolve
+      })
+      this.paused = { promise, resume }
+      this.logger.log('Plan paused')
+    }
+
+    return true
+  }
+
+  public resumePlan(): boolean {
+    if (!this.paused) {
+      return false
+    }
+
+    this.paused.resume()
+    this.paused = null
+    this.logger.log('Plan resumed')
+    return true
+  }
+
   // private generateGatheringSteps(items: string[]): PlanStep[] {
   //   const steps: PlanStep[] = []
 
@@ -506,29 +565,6 @@ export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
     return steps
   }
 
-  private async loadCachedPlan(goal: string): Promise<Plan | null> {
-    if (!this.memoryAgent)
-      return null
-
-    const cachedPlan = this.memoryAgent.recall<Plan>(`plan:${goal}`)
-    if (cachedPlan && this.isPlanValid(cachedPlan)) {
-      return cachedPlan
-    }
-    return null
-  }
-
-  private async cachePlan(plan: Plan): Promise<void> {
-    if (!this.memoryAgent)
-      return
-
-    this.memoryAgent.remember(`plan:${plan.goal}`, plan)
-  }
-
-  private isPlanValid(_plan: Plan): boolean {
-    // Add validation logic here
-    return true
-  }
-
   private async handleAgentMessage(sender: string, message: string): Promise<void> {
     if (sender === 'system') {
       if (message.includes('interrupt')) {
@@ -547,10 +583,12 @@ export class PlanningAgentImpl extends AbstractAgent implements PlanningAgent {
   }
 
   private handleInterrupt(): void {
-    if (this.currentPlan) {
+    if (this.currentPlan?.status === 'in_progress') {
       this.currentPlan.status = 'failed'
       this.context = null
     }
+
+    this.resumePlan()
   }
 
   private doesGoalRequireAction(requirements: ReturnType<typeof this.parseGoalRequirements>): boolean {
@@ -0,0 +1,103 @@
+import type { PlanStep } from './adapter'
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { bindArguments, SkillLibrary, stepsOf, templateOf } from './skill-library'
+
+const collectLogs: PlanStep[] = [
+  { description: 'Collect 3 oak logs', tool: 'collectBlocks', params: { type: 'oak_log', num: 3 } },
+  { description: 'Craft oak planks', tool: 'craftRecipe', params: { recipeName: 'oak_planks', amount: 1 } },
+]
+
+describe('skillLibrary', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'skill-library-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('turns plans into templates and fills them back in', () => {
+    const template = templateOf('Collect 3 oak log', collectLogs)
+
+    expect(template.description).toBe('Collect {num} {type}')
+    expect(template.steps[0]).toEqual({ description: 'Collect {num} oak logs', tool: 'collectBlocks', params: { type: '{type}', num: '{num}' } })
+    // `1` isn't in the goal, so it isn't a parameter
+    expect(template.steps[1].params).toEqual({ recipeName: 'oak_planks', amount: 1 })
+
+    const values = bindArguments(template, 'collect 10 birch log')
+    expect(values).toEqual({ num: 10, type: 'birch_log' })
+    expect(stepsOf(template, values!)[0]).toEqual({ description: 'Collect 10 oak logs', tool: 'collectBlocks', params: { type: 'birch_log', num: 10 } })
+
+    expect(bindArguments(template, 'collect many birch log')).toBeUndefined()
+    expect(bindArguments(template, 'mine 10 birch log')).toBeUndefined()
+  })
+
+  it('doesn\'t bind the rest of a longer goal to a parameter', () => {
+    const template = templateOf('Collect 3 oak log', collectLogs)
+
+    expect(bindArguments(template, 'collect 10 oak logs and craft a table')).toBeUndefined()
+    expect(bindArguments(template, 'collect 10 birch_log then craft planks')).toBeUndefined()
+    expect(bindArguments(template, 'collect 10 spruce_log')).toEqual({ num: 10, type: 'spruce_log' })
+  })
+
+  it('demotes failing skills until a plan repairs them', async () => {
+    const library = new SkillLibrary()
+    const skill = await library.learn('collect 3 oak_log', collectLogs)
+
+    expect((await library.match('collect 5 spruce_log'))?.steps[0].params).toEqual({ type: 'spruce_log', num: 5 })
+
+    library.recordFailure(skill.name)
+    library.recordFailure(skill.name)
+    expect(await library.match('collect 5 spruce_log')).toBeUndefined()
+
+    await library.learn('collect 4 birch_log', [{ description: 'Mine 4 birch_log', tool: 'mineBlocks', params: { type: 'birch_log', num: 4 } }])
+
+    expect(library.list()).toHaveLength(1)
+    expect((await library.match('collect 5 spruce_log'))?.steps).toEqual([{ description: 'Mine 5 spruce_log', tool: 'mineBlocks', params: { type: 'spruce_log', num: 5 } }])
+  })
+
+  it('matches goals without parameters by meaning', async () => {
+    const embeddings: Record<string, number[]> = {
+      'build a shelter': [1, 0],
+      'make a small house': [0.95, 0.1],
+      'go fishing': [0, 1],
+    }
+    const library = new SkillLibrary({ embed: async text => embeddings[text] ?? [0, 0] })
+    await library.learn('build a shelter', [{ description: 'Place dirt around', tool: 'placeBlock', params: {} }])
+
+    expect((await library.match('make a small house'))?.skill.name).toBe('build-a-shelter')
+    expect(await library.match('go fishing')).toBeUndefined()
+  })
+
+  it('persists, exports and deletes skills', async () => {
+    const path = join(dir, 'skills.json')
+    const library = new SkillLibrary({ path, embed: async () => [1, 2, 3] })
+    await library.load()
+    const skill = await library.learn('collect 3 oak_log', collectLogs)
+    await library.flush()
+
+    const restarted = new SkillLibrary({ path })
+    await restarted.load()
+    expect(restarted.get(skill.name)).toMatchObject({ description: 'collect {num} {type}', embedding: [1, 2, 3], successes: 1 })
+
+    const exportPath = join(dir, 'export', 'skills.json')
+    expect(await restarted.export(exportPath)).toBe(1)
+    expect(JSON.parse(await readFile(exportPath, 'utf-8'))[0]).not.toHaveProperty('embedding')
+
+    expect(restarted.delete(skill.name)).toBe(true)
+    expect(restarted.delete(skill.name)).toBe(false)
+    await restarted.flush()
+
+    const emptied = new SkillLibrary({ path })
+    await emptied.load()
+    expect(emptied.list()).toEqual([])
+  })
+})
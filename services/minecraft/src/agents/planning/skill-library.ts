@@ -0,0 +1,382 @@
+import type { PlanStep } from './adapter'
+
+import { readJsonFile, writeJsonFile } from '../../utils/json-file'
+import { useLogger } from '../../utils/logger'
+
+export interface SkillParameter {
+  name: string
+  type: 'string' | 'number'
+  /**
+   * The value the skill was learned with.
+   */
+  example: string | number
+}
+
+export interface Skill {
+  name: string
+  /**
+   * Goal the skill achieves, parameters are written as `{name}`, e.g. `collect {num} {type}`.
+   */
+  description: string
+  parameters: SkillParameter[]
+  /**
+   * Steps of the plan, parameter values in their params and descriptions are `{name}` too.
+   */
+  steps: PlanStep[]
+  embedding?: number[]
+  successes: number
+  failures: number
+  createdAt: number
+  updatedAt: number
+}
+
+export interface SkillMatch {
+  skill: Skill
+  arguments: Record<string, string | number>
+  steps: PlanStep[]
+}
+
+export interface SkillLibraryOptions {
+  /**
+   * JSON file the skills are kept in, they're not persisted when omitted.
+   */
+  path?: string
+  /**
+   * Embeds descriptions and goals, goals are matched by words alone without it.
+   */
+  embed?: (text: string) => Promise<number[]>
+  /**
+   * How similar a goal must be to a skill without parameters to replay it.
+   *
+   * @default 0.9
+   */
+  threshold?: number
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g
+
+function normalize(text: string) {
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function slugOf(description: string) {
+  return description.toLowerCase().replace(PLACEHOLDER, '$1').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+function fillPlaceholders(text: string, values: Record<string, string | number>) {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) => name in values ? String(values[name]) : placeholder)
+}
+
+/**
+ * Turns the goal and steps of a plan into a skill template: values of step params that
+ * appear in the goal become parameters, in the goal and wherever the steps use them.
+ */
+export function templateOf(goal: string, steps: PlanStep[]): Pick<Skill, 'description' | 'parameters' | 'steps'> {
+  let description = normalize(goal)
+  const parameters: SkillParameter[] = []
+  const placeholders = new Map<string | number, string>()
+
+  const candidates = steps
+    .flatMap(step => Object.entries(step.params))
+    .filter((entry): entry is [string, string | number] => (typeof entry[1] === 'string' && entry[1].trim() !== '') || typeof entry[1] === 'number')
+    // Longer values first, so `oak_log` isn't taken for a part of `stripped_oak_log`
+    .sort(([, a], [, b]) => String(b).length - String(a).length)
+
+  for (const [key, value] of candidates) {
+    if (placeholders.has(value))
+      continue
+
+    // Goals often spell `oak_log` as `oak log`
+    const spellings = typeof value === 'string' ? [value, value.replace(/_/g, ' ')] : [String(value)]
+    const pattern = new RegExp(`(?<![\\w{])(?:${spellings.map(escapeRegExp).join('|')})(?![\\w}])`, 'gi')
+    if (!pattern.test(description))
+      continue
+
+    let name = key
+    for (let suffix = 2; parameters.some(parameter => parameter.name === name); suffix++)
+      name = `${key}${suffix}`
+
+    parameters.push({ name, type: typeof value === 'number' ? 'number' : 'string', example: value })
+    placeholders.set(value, name)
+    description = description.replace(pattern, `{${name}}`)
+  }
+
+  const replaceValues = (text: string) => [...placeholders].reduce(
+    (result, [value, name]) => result.replace(new RegExp(`(?<![\\w.{])${escapeRegExp(String(value))}(?![\\w.}])`, 'g'), `{${name}}`),
+    text,
+  )
+
+  return {
+    description,
+    parameters,
+    steps: steps.map(step => ({
+      ...step,
+      description: replaceValues(step.description),
+      params: Object.fromEntries(Object.entries(step.params).map(([key, value]) =>
+        [key, placeholders.has(value as string | number) ? `{${placeholders.get(value as string | number)}}` : value])),
+    })),
+  }
+}
+
+/**
+ * Pattern a value of the parameter has to match in a goal. Strings take at most as many
+ * words as the example had, so `{type}` can't swallow the rest of a longer goal.
+ */
+function capturePatternOf(parameter: SkillParameter | undefined) {
+  if (parameter?.type === 'number')
+    return '(-?\\d+(?:\\.\\d+)?)'
+
+  const words = typeof parameter?.example === 'string' ? parameter.example.split(/[\s_]+/).filter(Boolean).length : 1
+  return `([\\w-]+(?: [\\w-]+){0,${Math.max(words, 1) - 1}})`
+}
+
+/**
+ * Reads the arguments of the skill out of the goal, `undefined` when the goal doesn't
+ * follow the description of the skill.
+ */
+export function bindArguments(skill: Pick<Skill, 'description' | 'parameters'>, goal: string): Record<string, string | number> | undefined {
+  const names: string[] = []
+  const source = skill.description.split(PLACEHOLDER).map((part, index) => {
+    if (index % 2 === 0)
+      return escapeRegExp(part)
+
+    names.push(part)
+    return capturePatternOf(skill.parameters.find(parameter => parameter.name === part))
+  }).join('')
+
+  const match = normalize(goal).match(new RegExp(`^${source}$`, 'i'))
+  if (!match)
+    return undefined
+
+  const values: Record<string, string | number> = {}
+  for (const [index, name] of names.entries()) {
+    const parameter = skill.parameters.find(parameter => parameter.name === name)
+    const value = match[index + 1].trim()
+
+    if (parameter?.type === 'number') {
+      const number = Number(value)
+      if (!Number.isFinite(number))
+        return undefined
+
+      values[name] = number
+    }
+    else {
+      values[name] = typeof parameter?.example === 'string' && parameter.example.includes('_') ? value.replace(/\s+/g, '_') : value
+    }
+  }
+
+  return values
+}
+
+/**
+ * The steps of the skill with its parameters filled in.
+ */
+export function stepsOf(skill: Pick<Skill, 'steps'>, values: Record<string, string | number>): PlanStep[] {
+  return skill.steps.map(step => ({
+    ...step,
+    description: fillPlaceholders(step.description, values),
+    params: Object.fromEntries(Object.entries(step.params).map(([key, value]) => {
+      if (typeof value !== 'string')
+        return [key, value]
+
+      // A whole placeholder keeps the type of the argument
+      const whole = value.match(/^\{(\w+)\}$/)
+      return [key, whole && whole[1] in values ? values[whole[1]] : fillPlaceholders(value, values)]
+    })),
+  }))
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] ** 2
+    normB += b[i] ** 2
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+function wordSimilarity(a: string, b: string) {
+  const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(Boolean))
+  const wordsOfA = words(a)
+  const wordsOfB = words(b)
+  const shared = [...wordsOfA].filter(word => wordsOfB.has(word)).length
+
+  return shared / (new Set([...wordsOfA, ...wordsOfB]).size || 1)
+}
+
+/**
+ * Skills that failed more often than they worked aren't replayed until a plan repairs them.
+ */
+export function isDemoted(skill: Skill) {
+  return skill.failures > skill.successes
+}
+
+/**
+ * Skills learned from plans that worked, so the same kind of goal can be replayed
+ * without asking the LLM for steps again.
+ */
+export class SkillLibrary {
+  private skills: Skill[] = []
+  private saving: Promise<void> = Promise.resolve()
+  private logger = useLogger()
+
+  constructor(private readonly options: SkillLibraryOptions = {}) {}
+
+  public async load(): Promise<void> {
+    if (!this.options.path)
+      return
+
+    try {
+      this.skills = await readJsonFile<Skill[]>(this.options.path) ?? []
+      this.logger.withFields({ path: this.options.path, skills: this.skills.length }).log('Skill library loaded')
+    }
+    catch (error) {
+      this.logger.withError(error).error('Failed to load skill library, starting empty')
+    }
+  }
+
+  /**
+   * Resolves once every change so far is written.
+   */
+  public flush(): Promise<void> {
+    return this.saving
+  }
+
+  public list(): Skill[] {
+    return [...this.skills]
+  }
+
+  public get(name: string): Skill | undefined {
+    return this.skills.find(skill => skill.name === name)
+  }
+
+  /**
+   * Learns the plan as a skill, a plan for a goal the library already has a skill for
+   * replaces its steps, which repairs a skill that stopped working.
+   */
+  public async learn(goal: string, steps: PlanStep[]): Promise<Skill> {
+    const template = templateOf(goal, steps)
+    const existing = this.skills.find(skill => skill.description.toLowerCase() === template.description.toLowerCase())
+    const now = Date.now()
+
+    if (existing) {
+      Object.assign(existing, { steps: template.steps, parameters: template.parameters, successes: existing.successes + 1, updatedAt: now })
+      this.logger.withFields({ skill: existing.name }).log('Skill reinforced')
+      this.save()
+      return existing
+    }
+
+    let name = slugOf(template.description) || 'skill'
+    for (let suffix = 2; this.get(name); suffix++)
+      name = `${slugOf(template.description)}-${suffix}`
+
+    const skill: Skill = { name, ...template, embedding: await this.embed(template.description), successes: 1, failures: 0, createdAt: now, updatedAt: now }
+    this.skills.push(skill)
+    this.logger.withFields({ skill: name, description: skill.description }).log('Skill learned')
+    this.save()
+    return skill
+  }
+
+  /**
+   * Finds a skill for the goal: one whose description the goal follows with its own
+   * arguments, or else one without parameters that is about the same.
+   */
+  public async match(goal: string): Promise<SkillMatch | undefined> {
+    const candidates = this.skills
+      .filter(skill => !isDemoted(skill))
+      .sort((a, b) => (b.successes - b.failures) - (a.successes - a.failures))
+
+    for (const skill of candidates) {
+      const values = bindArguments(skill, goal)
+      if (values)
+        return { skill, arguments: values, steps: stepsOf(skill, values) }
+    }
+
+    const { threshold = 0.9 } = this.options
+    const plain = candidates.filter(skill => skill.parameters.length === 0)
+    if (plain.length === 0)
+      return undefined
+
+    const embedding = await this.embed(goal)
+    const scored = plain
+      .map(skill => ({
+        skill,
+        similarity: embedding && skill.embedding ? cosineSimilarity(embedding, skill.embedding) : wordSimilarity(goal, skill.description),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+
+    const best = scored[0]
+    if (best.similarity < threshold)
+      return undefined
+
+    return { skill: best.skill, arguments: {}, steps: stepsOf(best.skill, {}) }
+  }
+
+  public recordFailure(name: string): void {
+    const skill = this.get(name)
+    if (!skill)
+      return
+
+    skill.failures++
+    skill.updatedAt = Date.now()
+    this.logger.withFields({ skill: name, demoted: isDemoted(skill) }).log('Skill failed')
+    this.save()
+  }
+
+  public delete(name: string): boolean {
+    const count = this.skills.length
+    this.skills = this.skills.filter(skill => skill.name !== name)
+    if (this.skills.length === count)
+      return false
+
+    this.save()
+    return true
+  }
+
+  /**
+   * Writes the skills to a file to share or back them up, embeddings are left out as they
+   * only fit the model that made them.
+   */
+  public async export(path: string): Promise<number> {
+    await writeJsonFile(path, this.skills.map(({ embedding: _, ...skill }) => skill))
+    return this.skills.length
+  }
+
+  private async embed(text: string) {
+    if (!this.options.embed)
+      return undefined
+
+    try {
+      return await this.options.embed(text)
+    }
+    catch (error) {
+      this.logger.withError(error).warn('Failed to embed, matching by words')
+      return undefined
+    }
+  }
+
+  private save() {
+    const { path } = this.options
+    if (!path)
+      return
+
+    // Writes are chained so an older snapshot never lands after a newer one
+    const snapshot = structuredClone(this.skills)
+    this.saving = this.saving.then(async () => {
+      try {
+        await writeJsonFile(path, snapshot)
+      }
+      catch (error) {
+        this.logger.withError(error).error('Failed to save skill library')
+      }
+    })
+  }
+}
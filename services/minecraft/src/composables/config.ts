@@ -14,15 +14,46 @@ interface OpenAIConfig {
   reasoningModel: string
 }
 
+interface EmbeddingConfig {
+  apiKey: string
+  baseUrl: string
+  model: string
+}
+
 interface AiriConfig {
   wsBaseUrl: string
   clientName: string
+  /**
+   * Modules alarms of the bot are sent to, e.g. `proj-airi:stage-web`, every module gets
+   * them when empty.
+   */
+  sparkDestinations: string[]
+}
+
+interface MemoryConfig {
+  path: string
+  skillsPath: string
+  /**
+   * Directory `#skills export` writes to, only file names in there are accepted.
+   */
+  skillsExportDir: string
+}
+
+interface BuildingConfig {
+  blueprintsPath: string
 }
 
 interface Config {
+  /**
+   * Player allowed to run commands that change or write files, nobody when empty.
+   */
+  owner: string
   openai: OpenAIConfig
+  embedding: EmbeddingConfig
   bot: BotOptions
   airi: AiriConfig
+  memory: MemoryConfig
+  building: BuildingConfig
 }
 
 // Helper functions for type-safe environment variable parsing
@@ -30,18 +61,28 @@ function getEnvVar<V extends string>(key: string, defaultValue?: V): V | undefin
   return (env[key] || defaultValue) as V | undefined
 }
 
+function getEnvList(key: string, defaultValue: string[]): string[] {
+  return env[key] ? env[key].split(',').map(item => item.trim()).filter(Boolean) : defaultValue
+}
+
 function getEnvNumber(key: string, defaultValue: number): number {
   return Number.parseInt(env[key] || String(defaultValue))
 }
 
 // Default configurations
 const defaultConfig: Config = {
+  owner: '',
   openai: {
     apiKey: '',
     baseUrl: '',
     model: '',
     reasoningModel: '',
   },
+  embedding: {
+    apiKey: '',
+    baseUrl: '',
+    model: '',
+  },
   bot: {
     username: 'airi-bot',
     host: 'localhost',
@@ -52,6 +93,15 @@ const defaultConfig: Config = {
   airi: {
     wsBaseUrl: 'ws://localhost:6121/ws',
     clientName: 'minecraft-bot',
+    sparkDestinations: [],
+  },
+  memory: {
+    path: 'data/world-memory.json',
+    skillsPath: 'data/skills.json',
+    skillsExportDir: 'data/exports',
+  },
+  building: {
+    blueprintsPath: 'blueprints',
   },
 }
 
@@ -62,6 +112,8 @@ export const config: Config = { ...defaultConfig }
 export function initEnv(): void {
   logger.log('Initializing environment variables')
 
+  config.owner = getEnvVar('BOT_OWNER', defaultConfig.owner)!
+
   // Update config with environment variables
   config.openai = {
     apiKey: getEnvVar('OPENAI_API_KEY', defaultConfig.openai.apiKey)!,
@@ -70,6 +122,13 @@ export function initEnv(): void {
     reasoningModel: getEnvVar('OPENAI_REASONING_MODEL', defaultConfig.openai.reasoningModel)!,
   }
 
+  // Embeddings go to the OpenAI endpoint unless they have their own
+  config.embedding = {
+    apiKey: getEnvVar('EMBEDDING_API_KEY', config.openai.apiKey)!,
+    baseUrl: getEnvVar('EMBEDDING_API_BASE_URL', config.openai.baseUrl)!,
+    model: getEnvVar('EMBEDDING_MODEL', defaultConfig.embedding.model)!,
+  }
+
   config.bot = {
     username: getEnvVar('BOT_USERNAME', defaultConfig.bot.username as string)!,
     host: getEnvVar('BOT_HOSTNAME', defaultConfig.bot.host as string)!,
@@ -81,6 +140,17 @@ export function initEnv(): void {
   config.airi = {
     wsBaseUrl: getEnvVar('AIRI_WS_BASEURL', defaultConfig.airi.wsBaseUrl)!,
     clientName: getEnvVar('AIRI_CLIENT_NAME', defaultConfig.airi.clientName)!,
+    sparkDestinations: getEnvList('AIRI_SPARK_DESTINATIONS', defaultConfig.airi.sparkDestinations),
+  }
+
+  config.memory = {
+    path: getEnvVar('WORLD_MEMORY_PATH', defaultConfig.memory.path)!,
+    skillsPath: getEnvVar('SKILL_LIBRARY_PATH', defaultConfig.memory.skillsPath)!,
+    skillsExportDir: getEnvVar('SKILL_EXPORT_DIR', defaultConfig.memory.skillsExportDir)!,
+  }
+
+  config.building = {
+    blueprintsPath: getEnvVar('BLUEPRINTS_PATH', defaultConfig.building.blueprintsPath)!,
   }
 
   logger.withFields({ config }).log('Environment variables initialized')
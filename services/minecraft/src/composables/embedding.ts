@@ -0,0 +1,17 @@
+import { embed } from '@xsai/embed'
+
+import { config } from './config'
+
+/**
+ * Embeds text with the configured embedding model, `undefined` when there is none.
+ */
+export function createEmbedder(): ((text: string) => Promise<number[]>) | undefined {
+  const { apiKey, baseUrl, model } = config.embedding
+  if (!model)
+    return undefined
+
+  return async (text) => {
+    const { embedding } = await embed({ apiKey, baseURL: baseUrl, model, input: text })
+    return embedding
+  }
+}
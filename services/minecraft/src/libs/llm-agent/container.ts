@@ -1,6 +1,8 @@
 import type { Logg } from '@guiiai/logg'
 import type { Neuri } from 'neuri'
 
+import type { SkillLibrary } from '../../agents/planning/skill-library'
+
 import { useLogg } from '@guiiai/logg'
 import { asClass, asFunction, createContainer, InjectionMode } from 'awilix'
 
@@ -19,6 +21,7 @@ export interface ContainerServices {
 export function createAgentContainer(options: {
   neuri: Neuri
   model?: string
+  skills?: SkillLibrary
 }) {
   const container = createContainer<ContainerServices>({
     injectionMode: InjectionMode.PROXY,
@@ -50,6 +53,7 @@ export function createAgentContainer(options: {
           agent: options.neuri,
           model: options.model,
         },
+        skills: options.skills,
       })),
 
     chatAgent: asClass(ChatAgentImpl)
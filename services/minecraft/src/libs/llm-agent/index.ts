@@ -9,9 +9,12 @@ import { ChatMessageHandler } from '../mineflayer'
 import { handleChatMessage } from './chat'
 import { createAgentContainer } from './container'
 import { generateActionAgentPrompt } from './prompt'
+import { registerSparkCommands, registerSparkNotifications } from './spark'
 import { handleVoiceInput } from './voice'
 
 export function LLMAgent(options: LLMAgentOptions): MineflayerPlugin {
+  const disposers: Array<() => void> = []
+
   return {
     async created(bot) {
       const logger = useLogger()
@@ -20,6 +23,7 @@ export function LLMAgent(options: LLMAgentOptions): MineflayerPlugin {
       const container = createAgentContainer({
         neuri: options.agent,
         model: config.openai.model,
+        skills: options.skills,
       })
 
       const actionAgent = container.resolve('actionAgent')
@@ -47,10 +51,18 @@ export function LLMAgent(options: LLMAgentOptions): MineflayerPlugin {
       options.airiClient.onEvent('input:text:voice', event =>
         handleVoiceInput(event, botWithAgents, options.agent, logger))
 
+      // Report to and take orders from the other modules
+      disposers.push(
+        registerSparkNotifications(bot, options.airiClient, { destinations: config.airi.sparkDestinations }),
+        registerSparkCommands(botWithAgents, options.airiClient),
+      )
+
       bot.bot.on('chat', onChat)
     },
 
     async beforeCleanup(bot) {
+      disposers.splice(0).forEach(dispose => dispose())
+
       const botWithAgents = bot as unknown as MineflayerWithAgents
       await botWithAgents.action?.destroy()
       await botWithAgents.planning?.destroy()
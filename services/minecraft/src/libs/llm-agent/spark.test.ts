@@ -0,0 +1,255 @@
+import type { Client } from '@proj-airi/server-sdk'
+
+import type { Plan } from '../mineflayer/base-agent'
+import type { MineflayerWithAgents } from './types'
+
+import { EventEmitter } from 'node:events'
+import { setImmediate } from 'node:timers/promises'
+
+import { Vec3 } from 'vec3'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { Mineflayer } from '../mineflayer'
+import { registerSparkCommands, registerSparkNotifications } from './spark'
+
+const mocked = vi.hoisted(() => ({ bot: undefined as any }))
+
+vi.mock('mineflayer', () => ({
+  default: { createBot: () => mocked.bot },
+}))
+
+function createMockBot() {
+  return Object.assign(new EventEmitter(), {
+    username: 'airi',
+    health: 20,
+    food: 20,
+    entity: { position: new Vec3(0, 64, 0) },
+    entities: {} as Record<number, unknown>,
+    time: { timeOfDay: 11000 },
+    game: { dimension: 'overworld', gameMode: 'survival' },
+    isRaining: false,
+    thunderState: 0,
+    chat: vi.fn(),
+    loadPlugin: vi.fn(),
+  })
+}
+
+function createMockClient() {
+  const listeners = new Map<string, (event: any) => void | Promise<void>>()
+
+  return {
+    send: vi.fn(),
+    onEvent: vi.fn((type: string, listener: (event: any) => void) => listeners.set(type, listener)),
+    offEvent: vi.fn((type: string) => listeners.delete(type)),
+    dispatch: (type: string, data: unknown) => listeners.get(type)?.({ type, data, source: 'character' }),
+  }
+}
+
+function sentOf(client: ReturnType<typeof createMockClient>, type: string) {
+  return client.send.mock.calls.map(([event]) => event).filter(event => event.type === type).map(event => event.data)
+}
+
+describe('registerSparkNotifications', () => {
+  let client: ReturnType<typeof createMockClient>
+
+  beforeEach(async () => {
+    // Keeps the ticker of the bot from running
+    vi.useFakeTimers()
+    mocked.bot = createMockBot()
+    client = createMockClient()
+
+    const mineflayer = await Mineflayer.asyncBuild({ botConfig: { username: 'airi' } })
+    mocked.bot.emit('spawn')
+    registerSparkNotifications(mineflayer, client as unknown as Client)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('raises alarms for damage and low health once', () => {
+    mocked.bot.entities[1] = { id: 1, type: 'hostile', name: 'witch', displayName: 'Witch', position: new Vec3(3, 64, 0) }
+
+    mocked.bot.health = 14
+    mocked.bot.emit('health')
+    vi.setSystemTime(Date.now() + 60_000)
+    mocked.bot.health = 5
+    mocked.bot.emit('health')
+    mocked.bot.health = 4
+    mocked.bot.emit('health')
+
+    const sparks = sentOf(client, 'spark:notify')
+    expect(sparks.map(spark => spark.lane)).toEqual(['damage', 'damage', 'low-health'])
+    expect(sparks[0]).toMatchObject({
+      kind: 'alarm',
+      urgency: 'immediate',
+      headline: 'Under attack by Witch',
+      payload: { damage: 6, attacker: 'witch', health: '14 / 20', food: 20 },
+      // Broadcast, the stage picks them up whatever it announced itself as
+      destinations: [],
+    })
+  })
+
+  it('sends alarms to the configured modules', async () => {
+    const configured = createMockClient()
+    const mineflayer = await Mineflayer.asyncBuild({ botConfig: { username: 'airi' } })
+    mocked.bot.emit('spawn')
+    registerSparkNotifications(mineflayer, configured as unknown as Client, { destinations: ['proj-airi:stage-web'] })
+
+    mocked.bot.emit('death')
+
+    expect(sentOf(configured, 'spark:notify')[0].destinations).toEqual(['proj-airi:stage-web'])
+  })
+
+  it('reminds of hunger and nightfall', () => {
+    mocked.bot.food = 6
+    mocked.bot.emit('health')
+
+    mocked.bot.emit('time')
+    mocked.bot.time.timeOfDay = 13000
+    mocked.bot.emit('time')
+    mocked.bot.emit('time')
+
+    expect(sentOf(client, 'spark:notify').map(spark => [spark.lane, spark.kind])).toEqual([
+      ['low-food', 'reminder'],
+      ['nightfall', 'reminder'],
+    ])
+  })
+
+  it('raises alarms for death and hostile mobs coming close', () => {
+    const zombie = { id: 2, type: 'hostile', name: 'zombie', displayName: 'Zombie', position: new Vec3(40, 64, 0) }
+    mocked.bot.emit('entitySpawn', zombie)
+    zombie.position = new Vec3(10, 64, 0)
+    mocked.bot.emit('entityMoved', zombie)
+    mocked.bot.emit('entityMoved', zombie)
+    mocked.bot.emit('entityMoved', { id: 3, type: 'passive', name: 'cow', position: new Vec3(1, 64, 0) })
+
+    mocked.bot.emit('death')
+
+    const sparks = sentOf(client, 'spark:notify')
+    expect(sparks.map(spark => spark.lane)).toEqual(['hostile', 'death'])
+    expect(sparks[0]).toMatchObject({ headline: 'Zombie nearby', payload: { mob: 'zombie', distance: 10 } })
+  })
+})
+
+describe('registerSparkCommands', () => {
+  function command(intent: string, options: Record<string, unknown> = {}) {
+    return {
+      id: `command-${intent}`,
+      commandId: intent,
+      interrupt: false,
+      priority: 'normal',
+      intent,
+      guidance: { type: 'instruction', options: [{ label: 'Gather wood', steps: ['collect 3 oak_log'] }] },
+      destinations: ['minecraft-bot'],
+      ...options,
+    }
+  }
+
+  function createMockAgents() {
+    let current: Plan | null = null
+    const runs: Array<{ plan: Plan, finish: () => void, fail: (error: Error) => void }> = []
+
+    const planning = {
+      createPlan: vi.fn(async (goal: string): Promise<Plan> => ({
+        goal,
+        steps: [{ description: 'Collect oak logs', tool: 'collectBlocks', params: {} }],
+        status: 'pending',
+        requiresAction: true,
+      })),
+      executePlan: vi.fn((plan: Plan) => new Promise<void>((resolve, reject) => {
+        current = plan
+        plan.status = 'in_progress'
+        runs.push({
+          plan,
+          finish: () => {
+            plan.status = 'completed'
+            resolve()
+          },
+          fail: (error) => {
+            plan.status = 'failed'
+            reject(error)
+          },
+        })
+      })),
+      adjustPlan: vi.fn(async (plan: Plan, feedback: string): Promise<Plan> => ({ ...plan, goal: feedback, status: 'pending' })),
+      getCurrentPlan: () => current,
+      pausePlan: vi.fn(() => current?.status === 'in_progress'),
+      resumePlan: vi.fn(() => true),
+      requestInterrupt: vi.fn(() => runs.at(-1)?.fail(new Error('Plan interrupted'))),
+    }
+
+    return { bot: { planning, emit: vi.fn() } as unknown as MineflayerWithAgents, planning, runs }
+  }
+
+  it('executes plans and reports progress', async () => {
+    const { bot, planning, runs } = createMockAgents()
+    const client = createMockClient()
+    registerSparkCommands(bot, client as unknown as Client)
+
+    await client.dispatch('spark:command', command('plan'))
+    await setImmediate()
+    expect(planning.createPlan).toHaveBeenCalledWith('Gather wood: collect 3 oak_log')
+
+    runs[0].finish()
+    await setImmediate()
+
+    expect(sentOf(client, 'spark:emit').map(reply => [reply.eventId, reply.state])).toEqual([
+      ['command-plan', 'working'],
+      ['command-plan', 'working'],
+      ['command-plan', 'done'],
+    ])
+    expect(sentOf(client, 'spark:emit')[2].destinations).toEqual(['character'])
+  })
+
+  it('queues plans and lets forced ones skip ahead', async () => {
+    const { bot, runs } = createMockAgents()
+    const client = createMockClient()
+    registerSparkCommands(bot, client as unknown as Client)
+
+    await client.dispatch('spark:command', command('plan', { id: 'first' }))
+    await setImmediate()
+    await client.dispatch('spark:command', command('plan', { id: 'second' }))
+    await client.dispatch('spark:command', command('action', { id: 'third', interrupt: 'force' }))
+    await setImmediate()
+
+    // The forced one runs right after the first stopped, the waiting second one is dropped
+    expect(runs).toHaveLength(2)
+    runs[1].finish()
+    await setImmediate()
+
+    const states = sentOf(client, 'spark:emit').map(reply => `${reply.eventId}:${reply.state}`)
+    expect(states.filter(state => !state.endsWith('working'))).toEqual(['second:queued', 'second:dropped', 'first:dropped', 'third:done'])
+    expect(bot.emit).toHaveBeenCalledWith('interrupt')
+  })
+
+  it('pauses, resumes and reroutes the running plan', async () => {
+    const { bot, planning, runs } = createMockAgents()
+    const client = createMockClient()
+    registerSparkCommands(bot, client as unknown as Client)
+
+    await client.dispatch('spark:command', command('pause'))
+    await client.dispatch('spark:command', command('plan'))
+    await setImmediate()
+    await client.dispatch('spark:command', command('pause', { id: 'pause-again' }))
+    await client.dispatch('spark:command', command('resume'))
+    await client.dispatch('spark:command', command('reroute', {
+      guidance: { type: 'instruction', options: [{ label: 'Retreat', steps: ['move away from the witch'] }] },
+    }))
+    await setImmediate()
+
+    expect(planning.adjustPlan).toHaveBeenCalledWith(runs[0].plan, 'Retreat: move away from the witch', 'character')
+    expect(runs[1].plan.goal).toBe('Retreat: move away from the witch')
+
+    await client.dispatch('spark:command', command('context'))
+
+    const states = sentOf(client, 'spark:emit').map(reply => `${reply.eventId}:${reply.state}`)
+    expect(states.filter(state => !state.endsWith('working'))).toEqual([
+      'command-pause:dropped',
+      'pause-again:done',
+      'command-resume:done',
+      'command-plan:dropped',
+      'command-context:dropped',
+    ])
+  })
+})
@@ -0,0 +1,324 @@
+import type { Client, WebSocketBaseEvent, WebSocketEvents } from '@proj-airi/server-sdk'
+import type { Entity } from 'prismarine-entity'
+
+import type { Mineflayer } from '../mineflayer'
+import type { Plan } from '../mineflayer/base-agent'
+import type { MineflayerWithAgents } from './types'
+
+import { randomUUID } from 'node:crypto'
+
+import { useLogger } from '../../utils/logger'
+import { Status } from '../mineflayer/status'
+
+type SparkNotify = WebSocketEvents['spark:notify']
+type SparkEmit = WebSocketEvents['spark:emit']
+type SparkCommandEvent = WebSocketBaseEvent<'spark:command', WebSocketEvents['spark:command']>
+
+export interface SparkNotificationOptions {
+  /**
+   * Modules the alarms are routed to, e.g. `proj-airi:stage-web`, every module gets them
+   * when empty.
+   *
+   * @default []
+   */
+  destinations?: string[]
+  /**
+   * Minimum time between two notifications of the same lane, in milliseconds.
+   *
+   * @default 10000
+   */
+  cooldown?: number
+}
+
+const LOW_HEALTH = 6
+const LOW_FOOD = 6
+const HOSTILE_RANGE = 16
+
+function isHostile(entity: Entity) {
+  return entity.type === 'hostile'
+}
+
+/**
+ * Raises `spark:notify` alarms for what happens to the bot: damage, low health or food,
+ * death, nightfall and hostile mobs coming close.
+ *
+ * @returns a function to stop listening.
+ */
+export function registerSparkNotifications(mineflayer: Mineflayer, client: Client, options: SparkNotificationOptions = {}): () => void {
+  const { destinations = [], cooldown = 10_000 } = options
+  const { bot } = mineflayer
+
+  const lastNotifiedAt = new Map<string, number>()
+  const nearbyHostiles = new Set<number>()
+  let lastDamageTime = mineflayer.health.lastDamageTime
+  let lowHealth = false
+  let lowFood = false
+  let night: boolean | undefined
+
+  function distanceTo(entity: Entity) {
+    return bot.entity.position.distanceTo(entity.position)
+  }
+
+  function nearestHostile() {
+    return Object.values(bot.entities)
+      .filter(entity => isHostile(entity) && distanceTo(entity) <= HOSTILE_RANGE)
+      .sort((a, b) => distanceTo(a) - distanceTo(b))[0]
+  }
+
+  function notify(lane: string, spark: Pick<SparkNotify, 'kind' | 'urgency' | 'headline' | 'note'>, payload: Record<string, unknown> = {}) {
+    const now = Date.now()
+    if (now - (lastNotifiedAt.get(lane) ?? Number.NEGATIVE_INFINITY) < cooldown)
+      return
+
+    lastNotifiedAt.set(lane, now)
+
+    const id = randomUUID()
+    client.send({
+      type: 'spark:notify',
+      data: {
+        id,
+        eventId: id,
+        lane,
+        ...spark,
+        payload: { ...Status.from(mineflayer), food: bot.food, ...payload },
+        destinations,
+      },
+    })
+  }
+
+  // Registered after the one in core, so the damage is already accounted in health
+  const onHealth = () => {
+    if (bot.health <= 0)
+      return
+
+    const { health } = mineflayer
+    if (health.lastDamageTime != null && health.lastDamageTime !== lastDamageTime) {
+      lastDamageTime = health.lastDamageTime
+
+      const attacker = nearestHostile()
+      notify('damage', {
+        kind: 'alarm',
+        urgency: 'immediate',
+        headline: attacker ? `Under attack by ${attacker.displayName ?? attacker.name}` : `Took ${health.lastDamageTaken} damage`,
+      }, { damage: health.lastDamageTaken, attacker: attacker?.name })
+    }
+
+    if (bot.health <= LOW_HEALTH && !lowHealth)
+      notify('low-health', { kind: 'alarm', urgency: 'immediate', headline: `Health is low (${Math.round(bot.health)} / 20)` })
+    lowHealth = bot.health <= LOW_HEALTH
+
+    if (bot.food <= LOW_FOOD && !lowFood)
+      notify('low-food', { kind: 'reminder', urgency: 'soon', headline: `Hungry (${bot.food} / 20 food)` })
+    lowFood = bot.food <= LOW_FOOD
+  }
+
+  const onDeath = () => {
+    notify('death', { kind: 'alarm', urgency: 'immediate', headline: 'Died', note: 'Previous actions were stopped, respawning.' })
+  }
+
+  const onTime = () => {
+    const { timeOfDay } = Status.from(mineflayer)
+    if (!timeOfDay)
+      return
+
+    // Only the change to night is worth telling, not being at night when joining
+    const isNight = timeOfDay === 'Night'
+    if (isNight && night === false)
+      notify('nightfall', { kind: 'reminder', urgency: 'soon', headline: 'Night is falling, mobs will spawn' })
+    night = isNight
+  }
+
+  const onEntity = (entity: Entity) => {
+    if (!isHostile(entity) || !bot.entity)
+      return
+
+    if (distanceTo(entity) > HOSTILE_RANGE) {
+      nearbyHostiles.delete(entity.id)
+      return
+    }
+    if (nearbyHostiles.has(entity.id))
+      return
+
+    nearbyHostiles.add(entity.id)
+    notify('hostile', {
+      kind: 'alarm',
+      urgency: 'soon',
+      headline: `${entity.displayName ?? entity.name} nearby`,
+    }, { mob: entity.name, distance: Math.round(distanceTo(entity)) })
+  }
+
+  const onEntityGone = (entity: Entity) => {
+    nearbyHostiles.delete(entity.id)
+  }
+
+  bot.on('health', onHealth)
+  bot.on('death', onDeath)
+  bot.on('time', onTime)
+  bot.on('entitySpawn', onEntity)
+  bot.on('entityMoved', onEntity)
+  bot.on('entityGone', onEntityGone)
+
+  return () => {
+    bot.removeListener('health', onHealth)
+    bot.removeListener('death', onDeath)
+    bot.removeListener('time', onTime)
+    bot.removeListener('entitySpawn', onEntity)
+    bot.removeListener('entityMoved', onEntity)
+    bot.removeListener('entityGone', onEntityGone)
+  }
+}
+
+function goalOf(command: SparkCommandEvent['data']) {
+  const option = command.guidance?.options[0]
+  if (!option)
+    return undefined
+
+  return option.steps.length > 0 ? `${option.label}: ${option.steps.join('; ')}` : option.label
+}
+
+/**
+ * Obeys `spark:command` by routing plan, action and reroute intents into the planning agent
+ * and pausing or resuming its plan, progress is reported back with `spark:emit`.
+ *
+ * Plans run one at a time. A command with `interrupt: 'force'` stops the running one, drops
+ * the waiting ones and runs next.
+ *
+ * @returns a function to stop listening.
+ */
+export function registerSparkCommands(bot: MineflayerWithAgents, client: Client): () => void {
+  const logger = useLogger()
+
+  const interrupted = new WeakSet<Plan>()
+  const waiting: Array<{ event: SparkCommandEvent, task: () => Promise<void> }> = []
+  let running = false
+
+  function reply(event: SparkCommandEvent, state: SparkEmit['state'], note?: string, metadata?: Record<string, unknown>) {
+    client.send({
+      type: 'spark:emit',
+      data: { id: randomUUID(), eventId: event.data.id, state, note, metadata, destinations: [event.source] },
+    })
+  }
+
+  function interrupt() {
+    const plan = bot.planning.getCurrentPlan()
+    if (plan?.status !== 'in_progress')
+      return
+
+    interrupted.add(plan)
+    bot.planning.requestInterrupt()
+    // Stops the skill of the current step too
+    bot.emit('interrupt')
+  }
+
+  async function execute(event: SparkCommandEvent, plan: Plan) {
+    reply(event, 'working', `Executing ${plan.steps.length} steps`, { steps: plan.steps.map(step => step.description) })
+
+    try {
+      await bot.planning.executePlan(plan)
+      reply(event, 'done', `Done: ${plan.goal}`)
+    }
+    catch (error) {
+      if (interrupted.has(plan))
+        reply(event, 'dropped', 'Interrupted')
+      else
+        reply(event, 'blocked', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  function runNext() {
+    const next = waiting.shift()
+    running = next != null
+    if (!next)
+      return
+
+    next.task()
+      .catch((error) => {
+        logger.withError(error).error('Failed to run spark command')
+        reply(next.event, 'blocked', error instanceof Error ? error.message : String(error))
+      })
+      .finally(runNext)
+  }
+
+  /**
+   * Queues the task of the command. `next` stops the running plan and runs the task right
+   * after it, `force` drops the waiting tasks as well.
+   */
+  function enqueue(event: SparkCommandEvent, task: () => Promise<void>, priority: 'queue' | 'next' | 'force' = event.data.interrupt === 'force' ? 'force' : 'queue') {
+    if (priority === 'force') {
+      for (const dropped of waiting.splice(0))
+        reply(dropped.event, 'dropped', 'Superseded by a forced command')
+    }
+
+    if (priority === 'queue') {
+      if (running)
+        reply(event, 'queued', 'Waiting for the current plan')
+      waiting.push({ event, task })
+    }
+    else {
+      interrupt()
+      waiting.unshift({ event, task })
+    }
+
+    if (!running)
+      runNext()
+  }
+
+  const onCommand = async (event: SparkCommandEvent) => {
+    const { intent } = event.data
+    logger.withFields({ id: event.data.id, intent, interrupt: event.data.interrupt }).log('Spark command received')
+
+    switch (intent) {
+      case 'plan':
+      case 'action': {
+        const goal = goalOf(event.data)
+        if (!goal) {
+          reply(event, 'dropped', 'Nothing to do, the command has no guidance')
+          return
+        }
+
+        enqueue(event, async () => {
+          reply(event, 'working', `Planning: ${goal}`)
+          await execute(event, await bot.planning.createPlan(goal))
+        })
+        return
+      }
+      case 'reroute': {
+        const plan = bot.planning.getCurrentPlan()
+        const feedback = goalOf(event.data)
+        if (plan?.status !== 'in_progress' || !feedback) {
+          reply(event, 'dropped', plan?.status === 'in_progress' ? 'Nothing to do, the command has no guidance' : 'No plan is running')
+          return
+        }
+
+        reply(event, 'working', `Rerouting: ${feedback}`)
+        try {
+          // Adjusted while still running, interrupting drops the progress it builds on
+          const adjusted = await bot.planning.adjustPlan(plan, feedback, event.source)
+          enqueue(event, () => execute(event, adjusted), 'next')
+        }
+        catch (error) {
+          reply(event, 'blocked', error instanceof Error ? error.message : String(error))
+        }
+        return
+      }
+      case 'pause':
+        if (bot.planning.pausePlan())
+          reply(event, 'done', 'Paused after the current step')
+        else
+          reply(event, 'dropped', 'No plan is running')
+        return
+      case 'resume':
+        if (bot.planning.resumePlan())
+          reply(event, 'done', 'Resumed')
+        else
+          reply(event, 'dropped', 'No plan is paused')
+        return
+      default:
+        reply(event, 'dropped', `Unsupported intent: ${intent}`)
+    }
+  }
+
+  client.onEvent('spark:command', onCommand)
+
+  return () => client.offEvent('spark:command', onCommand)
+}
@@ -1,6 +1,7 @@
 import type { Client } from '@proj-airi/server-sdk'
 import type { Neuri } from 'neuri'
 
+import type { SkillLibrary } from '../../agents/planning/skill-library'
 import type { Mineflayer } from '../mineflayer'
 import type { ActionAgent, ChatAgent, PlanningAgent } from '../mineflayer/base-agent'
 
@@ -26,4 +27,5 @@ export interface MineflayerWithAgents extends Mineflayer {
 export interface LLMAgentOptions {
   agent: Neuri
   airiClient: Client
+  skills?: SkillLibrary
 }
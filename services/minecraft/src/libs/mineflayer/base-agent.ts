@@ -40,6 +40,10 @@ export interface Plan {
   steps: PlanStep[]
   status: 'pending' | 'in_progress' | 'completed' | 'failed'
   requiresAction: boolean
+  /**
+   * Name of the skill the plan replays, when it came from the skill library.
+   */
+  skill?: string
 }
 
 export interface PlanningAgent extends BaseAgent {
@@ -47,6 +51,13 @@ export interface PlanningAgent extends BaseAgent {
   createPlan: (goal: string) => Promise<Plan>
   executePlan: (plan: Plan) => Promise<void>
   adjustPlan: (plan: Plan, feedback: string, sender: string) => Promise<Plan>
+  getCurrentPlan: () => Plan | null
+  /**
+   * Holds the running plan before its next step, returns false when no plan is running.
+   */
+  pausePlan: () => boolean
+  resumePlan: () => boolean
+  requestInterrupt: () => void
 }
 
 export interface ChatAgent extends BaseAgent {
@@ -17,10 +17,15 @@ import { Memory } from './memory'
 import { ChatMessageHandler } from './message'
 import { Status } from './status'
 import { Ticker } from './ticker'
+import { placeOf, WorldMemory } from './world-memory'
 
 export interface MineflayerOptions {
   botConfig: BotOptions
   plugins?: Array<MineflayerPlugin>
+  /**
+   * JSON file the world memory is kept in, it's not persisted when omitted.
+   */
+  worldMemoryPath?: string
 }
 
 export class Mineflayer extends EventEmitter<EventHandlers> {
@@ -31,6 +36,7 @@ export class Mineflayer extends EventEmitter<EventHandlers> {
   public components: Components = new Components()
   public status: Status = new Status()
   public memory: Memory = new Memory()
+  public worldMemory: WorldMemory
 
   public isCreative: boolean = false
   public allowCheats: boolean = false
@@ -45,6 +51,7 @@ export class Mineflayer extends EventEmitter<EventHandlers> {
     this.options = options
     this.bot = mineflayer.createBot(options.botConfig)
     this.username = options.botConfig.username
+    this.worldMemory = new WorldMemory(options.worldMemoryPath)
     this.logger = useLogg(`Bot:${this.username}`).useGlobalConfig()
 
     this.on('interrupt', () => {
@@ -55,6 +62,7 @@ export class Mineflayer extends EventEmitter<EventHandlers> {
 
   public static async asyncBuild(options: MineflayerOptions) {
     const mineflayer = new Mineflayer(options)
+    await mineflayer.worldMemory.load()
 
     mineflayer.bot.on('messagestr', async (message, _, jsonMsg) => {
       // jsonMsg.translate:
@@ -65,9 +73,11 @@ export class Mineflayer extends EventEmitter<EventHandlers> {
       if (jsonMsg.translate && jsonMsg.translate.startsWith('death') && message.startsWith(mineflayer.username)) {
         const deathPos = mineflayer.bot.entity.position
 
-        // mineflayer.memory_bank.rememberPlace('last_death_position', deathPos.x, deathPos.y, deathPos.z)
         let deathPosStr: string | undefined
         if (deathPos) {
+          const place = placeOf(mineflayer, deathPos)
+          mineflayer.worldMemory.rememberDeath(place, message)
+          mineflayer.worldMemory.rememberLocation('last_death_position', place, message)
           deathPosStr = `x: ${deathPos.x.toFixed(2)}, y: ${deathPos.y.toFixed(2)}, z: ${deathPos.x.toFixed(2)}`
         }
 
@@ -189,6 +199,7 @@ export class Mineflayer extends EventEmitter<EventHandlers> {
       }
     }
     this.components.cleanup()
+    await this.worldMemory.flush()
     this.bot.removeListener('chat', this.handleCommand())
     this.bot.quit()
     this.removeAllListeners()
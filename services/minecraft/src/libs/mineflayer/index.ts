@@ -9,3 +9,4 @@ export * from './plugin'
 export * from './status'
 export * from './ticker'
 export * from './types'
+export * from './world-memory'
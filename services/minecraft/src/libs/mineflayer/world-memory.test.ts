@@ -0,0 +1,65 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { WorldMemory } from './world-memory'
+
+function at(x: number, y: number, z: number, dimension = 'overworld') {
+  return { position: { x, y, z }, dimension }
+}
+
+describe('worldMemory', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'world-memory-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('keeps what it learned across restarts', async () => {
+    const path = join(dir, 'nested', 'world-memory.json')
+    const memory = new WorldMemory(path)
+    await memory.load()
+
+    memory.rememberLocation('Home', at(10.4, 64, -3.6), 'bed and chests')
+    memory.rememberDeath(at(100, 12, 100), 'airi was slain by Zombie')
+    memory.rememberPlan('Collect  wood', [{ description: 'Collect oak logs', tool: 'collectBlocks', params: { type: 'oak_log', num: 3 } }])
+    memory.rememberBuild('Tower', at(11, 64, -3), { next: 12, total: 40, scaffold: 'cobblestone' })
+    await memory.flush()
+
+    const restarted = new WorldMemory(path)
+    await restarted.load()
+
+    expect(restarted.recallLocation('home')).toMatchObject({ name: 'Home', position: { x: 10, y: 64, z: -4 }, note: 'bed and chests' })
+    expect(restarted.lastDeath()).toMatchObject({ message: 'airi was slain by Zombie' })
+    expect(restarted.recallPlan('collect wood')).toMatchObject({ goal: 'Collect  wood', successes: 1 })
+    expect(restarted.recallBuild('tower')).toMatchObject({ position: { x: 11, y: 64, z: -3 }, next: 12, total: 40, scaffold: 'cobblestone' })
+  })
+
+  it('finds chests and resources nearest first', () => {
+    const memory = new WorldMemory()
+
+    memory.rememberChest(at(50, 64, 0), [{ name: 'iron_ingot', count: 3 }])
+    memory.rememberChest(at(5, 64, 0), [{ name: 'iron_ingot', count: 1 }, { name: 'iron_ingot', count: 2 }, { name: 'coal', count: 8 }])
+    memory.rememberChest(at(1, 64, 0, 'the_nether'), [{ name: 'iron_ingot', count: 64 }])
+    // Opening the far chest again replaces its contents
+    memory.rememberChest(at(50, 64, 0), [{ name: 'iron_ingot', count: 1 }, { name: 'coal', count: 1 }])
+
+    expect(memory.findChestsWith('iron', at(0, 64, 0)).map(chest => [chest.position.x, chest.count])).toEqual([[5, 3], [50, 1], [1, 64]])
+    expect(memory.findChestsWith('diamond')).toEqual([])
+
+    memory.rememberResource('iron_ore', at(30, 20, 30))
+    memory.rememberResource('iron_ore', at(32, 20, 31))
+    memory.rememberResource('deepslate_iron_ore', at(-10, -20, 0))
+
+    expect(memory.findResource('iron_ore', at(0, 64, 0)).map(sighting => sighting.position)).toEqual([
+      { x: 32, y: 20, z: 31 },
+      { x: -10, y: -20, z: 0 },
+    ])
+  })
+})
@@ -0,0 +1,294 @@
+import type { PlanStep } from '../../agents/planning/adapter'
+import type { Mineflayer } from './core'
+
+import { readJsonFile, writeJsonFile } from '../../utils/json-file'
+import { useLogger } from '../../utils/logger'
+
+export interface Position {
+  x: number
+  y: number
+  z: number
+}
+
+export interface Place {
+  position: Position
+  dimension: string
+}
+
+export interface Waypoint extends Place {
+  name: string
+  note?: string
+  createdAt: number
+}
+
+export interface ChestRecord extends Place {
+  items: Record<string, number>
+  updatedAt: number
+}
+
+export interface DeathRecord extends Place {
+  message: string
+  diedAt: number
+}
+
+export interface ResourceSighting extends Place {
+  resource: string
+  seenAt: number
+}
+
+export interface PlanRecord {
+  goal: string
+  steps: PlanStep[]
+  succeededAt: number
+  successes: number
+}
+
+export interface BuildRecord extends Place {
+  blueprint: string
+  /**
+   * Step of the build plan to go on from.
+   */
+  next: number
+  total: number
+  /**
+   * Block the scaffolding of the build is made of, so resuming takes down the same one.
+   */
+  scaffold: string
+  startedAt: number
+  updatedAt: number
+}
+
+export interface WorldMemoryData {
+  version: 1
+  waypoints: Record<string, Waypoint>
+  chests: ChestRecord[]
+  deaths: DeathRecord[]
+  resources: ResourceSighting[]
+  plans: Record<string, PlanRecord>
+  builds: Record<string, BuildRecord>
+}
+
+const MAX_DEATHS = 20
+const MAX_RESOURCES = 500
+// Sightings of the same resource closer than this are the same spot
+const SAME_SPOT_DISTANCE = 8
+
+function emptyData(): WorldMemoryData {
+  return { version: 1, waypoints: {}, chests: [], deaths: [], resources: [], plans: {}, builds: {} }
+}
+
+function toPosition({ x, y, z }: Position): Position {
+  return { x: Math.round(x), y: Math.round(y), z: Math.round(z) }
+}
+
+function distance(a: Position, b: Position) {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)
+}
+
+function isSameBlock(a: Place, b: Place) {
+  return a.dimension === b.dimension && a.position.x === b.position.x && a.position.y === b.position.y && a.position.z === b.position.z
+}
+
+function planKeyOf(goal: string) {
+  return goal.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Where the bot, or the given position in its dimension, is.
+ */
+export function placeOf(mineflayer: Mineflayer, position: Position = mineflayer.bot.entity.position): Place {
+  return { position: toPosition(position), dimension: mineflayer.bot.game.dimension }
+}
+
+/**
+ * What the bot learned about its world: waypoints, chest contents, deaths, resource sightings
+ * and plans that worked. Kept in a JSON file so it survives restarts, without a path it only
+ * lives in memory.
+ */
+export class WorldMemory {
+  private data: WorldMemoryData = emptyData()
+  private saving: Promise<void> = Promise.resolve()
+  private logger = useLogger()
+
+  constructor(private readonly path?: string) {}
+
+  public async load(): Promise<void> {
+    if (!this.path)
+      return
+
+    try {
+      const data = await readJsonFile<WorldMemoryData>(this.path)
+      if (data) {
+        this.data = { ...emptyData(), ...data }
+        this.logger.withFields({ path: this.path }).log('World memory loaded')
+      }
+    }
+    catch (error) {
+      this.logger.withError(error).error('Failed to load world memory, starting empty')
+    }
+  }
+
+  /**
+   * Resolves once everything remembered so far is written.
+   */
+  public flush(): Promise<void> {
+    return this.saving
+  }
+
+  public rememberLocation(name: string, place: Place, note?: string): Waypoint {
+    const waypoint: Waypoint = { name, position: toPosition(place.position), dimension: place.dimension, note, createdAt: Date.now() }
+    this.data.waypoints[name.toLowerCase()] = waypoint
+    this.save()
+    return waypoint
+  }
+
+  public recallLocation(name: string): Waypoint | undefined {
+    return this.data.waypoints[name.toLowerCase()]
+  }
+
+  public listLocations(): Waypoint[] {
+    return Object.values(this.data.waypoints)
+  }
+
+  public forgetLocation(name: string): boolean {
+    if (!this.data.waypoints[name.toLowerCase()])
+      return false
+
+    delete this.data.waypoints[name.toLowerCase()]
+    this.save()
+    return true
+  }
+
+  /**
+   * Replaces what is known about the chest at the place with its current contents.
+   */
+  public rememberChest(place: Place, items: Array<{ name: string, count: number }>): ChestRecord {
+    const chest: ChestRecord = { position: toPosition(place.position), dimension: place.dimension, items: {}, updatedAt: Date.now() }
+    for (const item of items)
+      chest.items[item.name] = (chest.items[item.name] ?? 0) + item.count
+
+    this.data.chests = [...this.data.chests.filter(other => !isSameBlock(other, chest)), chest]
+    this.save()
+    return chest
+  }
+
+  /**
+   * Chests last seen holding the item, the nearest first when a place is given.
+   */
+  public findChestsWith(item: string, from?: Place): Array<ChestRecord & { count: number }> {
+    const matches = this.data.chests.flatMap((chest) => {
+      const count = Object.entries(chest.items)
+        .filter(([name]) => name.includes(item))
+        .reduce((sum, [, itemCount]) => sum + itemCount, 0)
+
+      return count > 0 ? [{ ...chest, count }] : []
+    })
+
+    return from ? this.sortByDistance(matches, from) : matches.sort((a, b) => b.count - a.count)
+  }
+
+  public rememberDeath(place: Place, message: string): DeathRecord {
+    const death: DeathRecord = { position: toPosition(place.position), dimension: place.dimension, message, diedAt: Date.now() }
+    this.data.deaths = [...this.data.deaths, death].slice(-MAX_DEATHS)
+    this.save()
+    return death
+  }
+
+  public lastDeath(): DeathRecord | undefined {
+    return this.data.deaths.at(-1)
+  }
+
+  public rememberResource(resource: string, place: Place): ResourceSighting {
+    const sighting: ResourceSighting = { resource, position: toPosition(place.position), dimension: place.dimension, seenAt: Date.now() }
+    const others = this.data.resources.filter(other => other.resource !== resource
+      || other.dimension !== place.dimension
+      || distance(other.position, sighting.position) > SAME_SPOT_DISTANCE)
+
+    this.data.resources = [...others, sighting].slice(-MAX_RESOURCES)
+    this.save()
+    return sighting
+  }
+
+  public findResource(resource: string, from?: Place): ResourceSighting[] {
+    const matches = this.data.resources.filter(sighting => sighting.resource.includes(resource))
+    return from ? this.sortByDistance(matches, from) : matches.reverse()
+  }
+
+  public rememberPlan(goal: string, steps: PlanStep[]): PlanRecord {
+    const key = planKeyOf(goal)
+    const plan: PlanRecord = { goal, steps, succeededAt: Date.now(), successes: (this.data.plans[key]?.successes ?? 0) + 1 }
+    this.data.plans[key] = plan
+    this.save()
+    return plan
+  }
+
+  public recallPlan(goal: string): PlanRecord | undefined {
+    return this.data.plans[planKeyOf(goal)]
+  }
+
+  public listPlans(): PlanRecord[] {
+    return Object.values(this.data.plans)
+  }
+
+  /**
+   * Keeps how far the build of the blueprint got, so it can be resumed after an interrupt or a restart.
+   */
+  public rememberBuild(blueprint: string, place: Place, progress: Pick<BuildRecord, 'next' | 'total' | 'scaffold'>): BuildRecord {
+    const key = blueprint.toLowerCase()
+    const now = Date.now()
+    const build: BuildRecord = {
+      blueprint,
+      position: toPosition(place.position),
+      dimension: place.dimension,
+      next: progress.next,
+      total: progress.total,
+      scaffold: progress.scaffold,
+      startedAt: this.data.builds[key]?.startedAt ?? now,
+      updatedAt: now,
+    }
+
+    this.data.builds[key] = build
+    this.save()
+    return build
+  }
+
+  public recallBuild(blueprint: string): BuildRecord | undefined {
+    return this.data.builds[blueprint.toLowerCase()]
+  }
+
+  public listBuilds(): BuildRecord[] {
+    return Object.values(this.data.builds)
+  }
+
+  public forgetBuild(blueprint: string): boolean {
+    if (!this.data.builds[blueprint.toLowerCase()])
+      return false
+
+    delete this.data.builds[blueprint.toLowerCase()]
+    this.save()
+    return true
+  }
+
+  private sortByDistance<T extends Place>(places: T[], from: Place): T[] {
+    // Places in other dimensions come last, they can't be walked to
+    const distanceTo = (place: T) => place.dimension === from.dimension ? distance(place.position, from.position) : Number.POSITIVE_INFINITY
+    return places.sort((a, b) => distanceTo(a) - distanceTo(b))
+  }
+
+  private save() {
+    const { path } = this
+    if (!path)
+      return
+
+    // Writes are chained so an older snapshot never lands after a newer one
+    const snapshot = structuredClone(this.data)
+    this.saving = this.saving.then(async () => {
+      try {
+        await writeJsonFile(path, snapshot)
+      }
+      catch (error) {
+        this.logger.withError(error).error('Failed to save world memory')
+      }
+    })
+  }
+}
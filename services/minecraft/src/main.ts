@@ -9,11 +9,14 @@ import { pathfinder as MineflayerPathfinder } from 'mineflayer-pathfinder'
 import { plugin as MineflayerPVP } from 'mineflayer-pvp'
 import { plugin as MineflayerTool } from 'mineflayer-tool'
 
+import { SkillLibrary } from './agents/planning/skill-library'
 import { initBot } from './composables/bot'
 import { config, initEnv } from './composables/config'
+import { createEmbedder } from './composables/embedding'
 import { createNeuriAgent } from './composables/neuri'
 import { LLMAgent } from './libs/llm-agent'
 import { wrapPlugin } from './libs/mineflayer'
+import { SkillsCommand } from './plugins/skills'
 import { initLogger, useLogger } from './utils/logger'
 
 async function main() {
@@ -22,6 +25,7 @@ async function main() {
 
   const { bot } = await initBot({
     botConfig: config.bot,
+    worldMemoryPath: config.memory.path,
     plugins: [
       wrapPlugin(MineflayerArmorManager),
       wrapPlugin(MineflayerAutoEat),
@@ -38,9 +42,14 @@ async function main() {
     url: config.airi.wsBaseUrl,
   })
 
+  // Skills learned from earlier plans
+  const skills = new SkillLibrary({ path: config.memory.skillsPath, embed: createEmbedder() })
+  await skills.load()
+  await bot.loadPlugin(SkillsCommand(skills, { owner: config.owner, exportDir: config.memory.skillsExportDir }))
+
   // Dynamically load LLMAgent after the bot is initialized
   const agent = await createNeuriAgent(bot)
-  await bot.loadPlugin(LLMAgent({ agent, airiClient }))
+  await bot.loadPlugin(LLMAgent({ agent, airiClient, skills }))
 
   process.on('SIGINT', () => {
     bot.stop()
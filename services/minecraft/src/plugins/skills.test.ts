@@ -0,0 +1,22 @@
+import { join } from 'node:path'
+
+import { describe, expect, it } from 'vitest'
+
+import { exportPathOf } from './skills'
+
+describe('exportPathOf', () => {
+  it('puts file names in the export directory', () => {
+    expect(exportPathOf('data/exports')).toBe(join('data/exports', 'skills-export.json'))
+    expect(exportPathOf('data/exports', 'shared')).toBe(join('data/exports', 'shared.json'))
+    expect(exportPathOf('data/exports', 'shared.v2.json')).toBe(join('data/exports', 'shared.v2.json'))
+  })
+
+  it('refuses anything but a plain file name', () => {
+    expect(exportPathOf('data/exports', '../world-memory.json')).toBeUndefined()
+    expect(exportPathOf('data/exports', '/home/airi/.bashrc')).toBeUndefined()
+    expect(exportPathOf('data/exports', 'nested/skills.json')).toBeUndefined()
+    expect(exportPathOf('data/exports', '..')).toBeUndefined()
+    expect(exportPathOf('data/exports', '.bashrc')).toBeUndefined()
+    expect(exportPathOf('data/exports', 'C:\\skills.json')).toBeUndefined()
+  })
+})
@@ -0,0 +1,95 @@
+import type { SkillLibrary } from '../agents/planning/skill-library'
+import type { MineflayerPlugin } from '../libs/mineflayer/plugin'
+
+import { basename, join } from 'node:path'
+
+import { isDemoted } from '../agents/planning/skill-library'
+import { useLogger } from '../utils/logger'
+
+export interface SkillsCommandOptions {
+  /**
+   * Player allowed to export and delete skills, nobody when empty.
+   */
+  owner: string
+  /**
+   * Directory exports are written to.
+   */
+  exportDir: string
+}
+
+/**
+ * Where an export named by a player goes, `undefined` unless it's a plain file name:
+ * players must not be able to write anywhere else.
+ */
+export function exportPathOf(exportDir: string, fileName = 'skills-export.json') {
+  if (!/^[\w.-]+$/.test(fileName) || fileName.startsWith('.') || basename(fileName) !== fileName)
+    return undefined
+
+  return join(exportDir, fileName.endsWith('.json') ? fileName : `${fileName}.json`)
+}
+
+export function SkillsCommand(library: SkillLibrary, options: SkillsCommandOptions): MineflayerPlugin {
+  const logger = useLogger()
+
+  return {
+    created(bot) {
+      bot.onCommand('skills', async (ctx) => {
+        const { sender, args: commandArgs } = ctx.command!
+        const [subcommand = 'list', ...args] = commandArgs
+
+        if ((subcommand === 'export' || subcommand === 'delete') && (!options.owner || sender !== options.owner)) {
+          bot.bot.chat('Only my owner can do that.')
+          return
+        }
+
+        switch (subcommand) {
+          case 'list': {
+            const skills = library.list()
+            if (skills.length === 0) {
+              bot.bot.chat('I have not learned any skills yet.')
+              return
+            }
+
+            for (const skill of skills) {
+              const demoted = isDemoted(skill) ? ', demoted' : ''
+              bot.bot.chat(`${skill.name}: ${skill.description} (${skill.successes} worked, ${skill.failures} failed${demoted})`)
+            }
+            return
+          }
+
+          case 'export': {
+            const path = exportPathOf(options.exportDir, args[0])
+            if (!path) {
+              bot.bot.chat('Please give a file name without a directory, e.g. skills-export.json')
+              return
+            }
+
+            try {
+              const count = await library.export(path)
+              bot.bot.chat(`Exported ${count} skills to ${path}`)
+            }
+            catch (error) {
+              logger.withError(error).error('Failed to export skills')
+              bot.bot.chat(`Failed to export skills to ${path}`)
+            }
+            return
+          }
+
+          case 'delete': {
+            const name = args[0]
+            if (!name) {
+              bot.bot.chat('Please specify a skill name!')
+              return
+            }
+
+            bot.bot.chat(library.delete(name) ? `Forgot skill ${name}` : `No skill named ${name}`)
+            return
+          }
+
+          default:
+            bot.bot.chat('Usage: skills [list | export [file name] | delete <name>]')
+        }
+      })
+    },
+  }
+}
@@ -4,6 +4,7 @@ import type { Mineflayer } from '../../libs/mineflayer'
 
 import pathfinder from 'mineflayer-pathfinder'
 
+import { placeOf } from '../../libs/mineflayer/world-memory'
 import { useLogger } from '../../utils/logger'
 import { breakBlockAt } from '../blocks'
 import { getNearestBlocks } from '../world'
@@ -64,6 +65,7 @@ export async function collectBlock(
     }
 
     const block = blocks[0]
+    mineflayer.worldMemory.rememberResource(block.name, placeOf(mineflayer, block.position))
 
     try {
       // Equip appropriate tool
@@ -2,6 +2,7 @@ import type { Item } from 'prismarine-item'
 
 import type { Mineflayer } from '../../libs/mineflayer'
 
+import { placeOf } from '../../libs/mineflayer/world-memory'
 import { useLogger } from '../../utils/logger'
 import { goToPlayer, goToPosition } from '../movement'
 import { getNearestBlock } from '../world'
@@ -85,6 +86,7 @@ export async function putInChest(mineflayer: Mineflayer, itemName: string, num =
   await goToPosition(mineflayer, chest.position.x, chest.position.y, chest.position.z)
   const chestContainer = await mineflayer.bot.openContainer(chest)
   await chestContainer.deposit(item.type, null, toPut)
+  mineflayer.worldMemory.rememberChest(placeOf(mineflayer, chest.position), chestContainer.containerItems())
   await chestContainer.close()
   logger.log(`Successfully put ${toPut} ${itemName} in the chest.`)
   return true
@@ -107,11 +109,13 @@ export async function takeFromChest(
     .find(item => item.name.includes(itemName))
   if (!item) {
     logger.log(`Could not find any ${itemName} in the chest.`)
+    mineflayer.worldMemory.rememberChest(placeOf(mineflayer, chest.position), chestContainer.containerItems())
     await chestContainer.close()
     return false
   }
   const toTake = num === -1 ? item.count : Math.min(num, item.count)
   await chestContainer.withdraw(item.type, null, toTake)
+  mineflayer.worldMemory.rememberChest(placeOf(mineflayer, chest.position), chestContainer.containerItems())
   await chestContainer.close()
   logger.log(`Successfully took ${toTake} ${itemName} from the chest.`)
   return true
@@ -131,6 +135,7 @@ export async function viewChest(mineflayer: Mineflayer): Promise<boolean> {
   await goToPosition(mineflayer, chest.position.x, chest.position.y, chest.position.z)
   const chestContainer = await mineflayer.bot.openContainer(chest)
   const items = chestContainer.containerItems()
+  mineflayer.worldMemory.rememberChest(placeOf(mineflayer, chest.position), items)
   if (items.length === 0) {
     logger.log(`The chest is empty.`)
   }
@@ -0,0 +1,107 @@
+import { join } from 'node:path'
+
+import { byteArray, comp, int, list, longArray, parse, short, simplify, string, writeUncompressed } from 'prismarine-nbt'
+import { describe, expect, it } from 'vitest'
+
+import { findBlueprint, parseBlockState, parseJsonBlueprint, parseLitematic, parseSpongeSchematic } from './blueprint'
+
+async function roundTrip(nbt: any) {
+  return simplify((await parse(writeUncompressed(nbt))).parsed)
+}
+
+function packLongs(indexes: number[], bits: number): Array<[number, number]> {
+  const longs = Array.from({ length: Math.ceil(indexes.length * bits / 64) }, () => 0n)
+  for (const [i, index] of indexes.entries()) {
+    const start = i * bits
+    const long = Math.floor(start / 64)
+    const offset = BigInt(start % 64)
+    longs[long] |= BigInt.asUintN(64, BigInt(index) << offset)
+    if (start % 64 + bits > 64)
+      longs[long + 1] |= BigInt(index) >> (64n - offset)
+  }
+
+  return longs.map(long => [Number(BigInt.asIntN(32, long >> 32n)), Number(BigInt.asIntN(32, long & 0xFFFFFFFFn))])
+}
+
+describe('blueprint', () => {
+  it('parses block states', () => {
+    expect(parseBlockState('minecraft:oak_stairs[facing=north,half=bottom]')).toEqual({ name: 'oak_stairs', properties: { facing: 'north', half: 'bottom' } })
+    expect(parseBlockState('stone')).toEqual({ name: 'stone' })
+    expect(() => parseBlockState('not a block')).toThrow()
+  })
+
+  it('reads json layers and blocks', () => {
+    const blueprint = parseJsonBlueprint({
+      palette: { C: 'cobblestone', D: 'oak_door[half=lower]' },
+      layers: [['CC', '.C'], ['D']],
+      blocks: [{ x: -1, y: 0, z: 0, block: 'minecraft:torch' }],
+    }, 'hut')
+
+    expect(blueprint.name).toBe('hut')
+    expect(blueprint.size).toEqual({ x: 3, y: 2, z: 2 })
+    expect(blueprint.blocks).toContainEqual({ x: 0, y: 0, z: 0, name: 'torch' })
+    expect(blueprint.blocks).toContainEqual({ x: 1, y: 1, z: 0, name: 'oak_door', properties: { half: 'lower' } })
+    expect(() => parseJsonBlueprint({ layers: [['X']] }, 'broken')).toThrow('isn\'t in its palette')
+  })
+
+  it('reads sponge schematics', async () => {
+    // 2 x 2 x 2, ids above 127 take two bytes as varints
+    const palette: Record<string, any> = { 'minecraft:air': int(0), 'minecraft:stone': int(1) }
+    for (let id = 2; id < 130; id++)
+      palette[`minecraft:filler_${id}`] = int(id)
+    palette['minecraft:glass'] = int(130)
+
+    const root = await roundTrip(comp({
+      Version: int(2),
+      Width: short(2),
+      Height: short(2),
+      Length: short(2),
+      Palette: comp(palette),
+      // 130 is the signed byte -126 (0x82) followed by 1
+      BlockData: byteArray([1, 0, 0, 1, -126, 1, 0, 0, 0]),
+    }, 'Schematic'))
+
+    const blueprint = parseSpongeSchematic(root, 'cube')
+    expect(blueprint.blocks).toEqual([
+      { x: 0, y: 0, z: 0, name: 'stone' },
+      { x: 1, y: 0, z: 1, name: 'stone' },
+      { x: 0, y: 1, z: 0, name: 'glass' },
+    ])
+  })
+
+  it('reads litematics', async () => {
+    // Five states take three bits, so indexes cross from one long into the next
+    const states = ['air', 'stone', 'glass', 'oak_planks', 'oak_log']
+    const indexes = Array.from({ length: 4 * 4 * 2 }, (_, i) => i % 5)
+
+    const root = await roundTrip(comp({
+      Metadata: comp({ Name: string('Tower') }),
+      Regions: comp({
+        Main: comp({
+          Position: comp({ x: int(0), y: int(0), z: int(0) }),
+          Size: comp({ x: int(-4), y: int(2), z: int(4) }),
+          BlockStatePalette: list(comp(states.map(state => ({ Name: string(`minecraft:${state}`) })))),
+          BlockStates: longArray(packLongs(indexes, 3) as any),
+        }),
+      }),
+    }, ''))
+
+    const blueprint = parseLitematic(root, 'tower')
+    expect(blueprint.name).toBe('Tower')
+    expect(blueprint.size).toEqual({ x: 4, y: 2, z: 4 })
+    expect(blueprint.blocks).toHaveLength(indexes.filter(index => index !== 0).length)
+    // Index 21 is x 1, y 1, z 1
+    expect(blueprint.blocks).toContainEqual({ x: 1, y: 1, z: 1, name: 'stone', properties: undefined })
+  })
+
+  it('rejects malformed schematics', () => {
+    expect(() => parseSpongeSchematic({ Width: 2, Height: 2 }, 'cube')).toThrow('Invalid schematic cube')
+    expect(() => parseLitematic({ Regions: { Main: { Position: { x: 0, y: 0, z: 0 } } } }, 'tower')).toThrow('Invalid litematic tower')
+  })
+
+  it('finds bundled blueprints by loose names', async () => {
+    const blueprint = await findBlueprint(join(import.meta.dirname, '../../../blueprints'), 'Small House')
+
+    expect(blueprint?.size).toEqual({ x: 5, y: 6, z: 5 })
+  })
+})
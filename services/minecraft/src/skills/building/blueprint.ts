@@ -0,0 +1,307 @@
+import { readdir, readFile } from 'node:fs/promises'
+import { basename, extname, join } from 'node:path'
+
+import { parse, simplify } from 'prismarine-nbt'
+import { z } from 'zod'
+
+export interface BlueprintBlock {
+  /**
+   * Position relative to the lowest north-west corner of the blueprint.
+   */
+  x: number
+  y: number
+  z: number
+  name: string
+  properties?: Record<string, string>
+}
+
+export interface Blueprint {
+  name: string
+  description?: string
+  size: { x: number, y: number, z: number }
+  /**
+   * Every block that isn't air.
+   */
+  blocks: BlueprintBlock[]
+}
+
+export const BLUEPRINT_EXTENSIONS = ['.json', '.schem', '.litematic']
+
+const AIR_BLOCKS = ['air', 'cave_air', 'void_air', 'structure_void']
+
+const jsonBlueprintSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  palette: z.record(z.string(), z.string()).optional(),
+  /**
+   * Bottom layer first, one string per row from north to south, one character per block
+   * from west to east. Spaces and dots are air.
+   */
+  layers: z.array(z.array(z.string())).optional(),
+  blocks: z.array(z.object({ x: z.number().int(), y: z.number().int(), z: z.number().int(), block: z.string() })).optional(),
+})
+
+// Schematics are checked after prismarine-nbt simplified them, shorts and ints are numbers,
+// byte arrays are number arrays and longs are [high, low] pairs of signed ints
+const spongeBlocksSchema = z.object({
+  Width: z.number().int(),
+  Height: z.number().int(),
+  Length: z.number().int(),
+  // Version 2
+  Palette: z.record(z.string(), z.number().int().nonnegative()).optional(),
+  BlockData: z.array(z.number().int()).optional(),
+  // Version 3
+  Blocks: z.object({
+    Palette: z.record(z.string(), z.number().int().nonnegative()),
+    Data: z.array(z.number().int()),
+  }).optional(),
+})
+
+const spongeSchematicSchema = z.union([z.object({ Schematic: spongeBlocksSchema }), spongeBlocksSchema])
+
+const vectorSchema = z.object({ x: z.number().int(), y: z.number().int(), z: z.number().int() })
+
+const litematicSchema = z.object({
+  Metadata: z.object({ Name: z.string().optional(), Description: z.string().optional() }).optional(),
+  Regions: z.record(z.string(), z.object({
+    Position: vectorSchema,
+    Size: vectorSchema,
+    BlockStatePalette: z.array(z.object({ Name: z.string(), Properties: z.record(z.string(), z.string()).optional() })),
+    BlockStates: z.array(z.tuple([z.number().int(), z.number().int()])),
+  })).optional(),
+})
+
+/**
+ * Splits a block state like `minecraft:oak_stairs[facing=north]` into its name and properties.
+ */
+export function parseBlockState(state: string): Pick<BlueprintBlock, 'name' | 'properties'> {
+  const match = state.trim().match(/^(?:[\w.-]+:)?([\w.]+)(?:\[(.*)\])?$/)
+  if (!match)
+    throw new Error(`Invalid block state: ${state}`)
+
+  const [, name, properties] = match
+  if (!properties)
+    return { name }
+
+  return {
+    name,
+    properties: Object.fromEntries(properties.split(',').filter(Boolean).map(pair => pair.split('=').map(part => part.trim()))),
+  }
+}
+
+export function formatBlockState(block: Pick<BlueprintBlock, 'name' | 'properties'>): string {
+  const properties = Object.entries(block.properties ?? {}).map(([key, value]) => `${key}=${value}`).join(',')
+  return properties ? `${block.name}[${properties}]` : block.name
+}
+
+/**
+ * Moves the blocks so the lowest north-west corner is at 0, 0, 0 and drops the air.
+ */
+function blueprintOf(name: string, blocks: BlueprintBlock[], description?: string): Blueprint {
+  const solid = blocks.filter(block => !AIR_BLOCKS.includes(block.name))
+  if (solid.length === 0)
+    throw new Error(`Blueprint ${name} has no blocks`)
+
+  // Reduced rather than spread, schematics can have more blocks than a call has arguments
+  const min = (axis: 'x' | 'y' | 'z') => solid.reduce((result, block) => Math.min(result, block[axis]), Number.POSITIVE_INFINITY)
+  const max = (axis: 'x' | 'y' | 'z') => solid.reduce((result, block) => Math.max(result, block[axis]), Number.NEGATIVE_INFINITY)
+  const offset = { x: min('x'), y: min('y'), z: min('z') }
+
+  return {
+    name,
+    description,
+    size: { x: max('x') - offset.x + 1, y: max('y') - offset.y + 1, z: max('z') - offset.z + 1 },
+    blocks: solid.map(block => ({ ...block, x: block.x - offset.x, y: block.y - offset.y, z: block.z - offset.z })),
+  }
+}
+
+export function parseJsonBlueprint(data: unknown, fallbackName: string): Blueprint {
+  const result = jsonBlueprintSchema.safeParse(data)
+  if (!result.success)
+    throw new Error(`Invalid blueprint ${fallbackName}: ${result.error.message}`)
+
+  const { name = fallbackName, description, palette = {}, layers = [], blocks = [] } = result.data
+  const parsed: BlueprintBlock[] = blocks.map(({ block, ...position }) => ({ ...position, ...parseBlockState(block) }))
+
+  for (const [y, rows] of layers.entries()) {
+    for (const [z, row] of rows.entries()) {
+      for (const [x, key] of [...row].entries()) {
+        if (key === ' ' || key === '.')
+          continue
+
+        const state = palette[key]
+        if (!state)
+          throw new Error(`Blueprint ${name} uses ${key} which isn't in its palette`)
+
+        parsed.push({ x, y, z, ...parseBlockState(state) })
+      }
+    }
+  }
+
+  return blueprintOf(name, parsed, description)
+}
+
+function decodeVarints(bytes: number[], count: number): number[] {
+  const values: number[] = []
+  let index = 0
+
+  while (values.length < count && index < bytes.length) {
+    let value = 0
+    let shift = 0
+    let byte: number
+    do {
+      byte = bytes[index++] & 0xFF
+      value |= (byte & 0x7F) << shift
+      shift += 7
+    } while (byte & 0x80)
+
+    values.push(value)
+  }
+
+  return values
+}
+
+/**
+ * Sponge schematics (`.schem`), version 2 keeps the blocks in the root, version 3 under `Blocks`.
+ */
+export function parseSpongeSchematic(root: unknown, name: string): Blueprint {
+  const result = spongeSchematicSchema.safeParse(root)
+  if (!result.success)
+    throw new Error(`Invalid schematic ${name}: ${result.error.message}`)
+
+  const schematic = 'Schematic' in result.data ? result.data.Schematic : result.data
+  // Sizes are unsigned shorts, NBT only has signed ones
+  const width = schematic.Width & 0xFFFF
+  const height = schematic.Height & 0xFFFF
+  const length = schematic.Length & 0xFFFF
+  const palette = schematic.Blocks?.Palette ?? schematic.Palette
+  const data = schematic.Blocks?.Data ?? schematic.BlockData
+  if (!palette || !data)
+    throw new Error(`Schematic ${name} has no blocks`)
+
+  const states: string[] = []
+  for (const [state, id] of Object.entries(palette))
+    states[id] = state
+
+  const blocks = decodeVarints(data, width * height * length).map((id, index) => ({
+    x: index % width,
+    y: Math.floor(index / (width * length)),
+    z: Math.floor(index / width) % length,
+    ...parseBlockState(states[id] ?? 'air'),
+  }))
+
+  return blueprintOf(name, blocks)
+}
+
+function toUnsigned([high, low]: [number, number]) {
+  return BigInt.asUintN(64, (BigInt(high) << 32n) | BigInt(low >>> 0))
+}
+
+/**
+ * Litematica keeps palette indexes packed into longs, an index may span two of them.
+ */
+function unpackBlockStates(longs: Array<[number, number]>, paletteSize: number, count: number): number[] {
+  const bits = BigInt(Math.max(2, Math.ceil(Math.log2(paletteSize))))
+  const mask = (1n << bits) - 1n
+  const values = longs.map(toUnsigned)
+  const indexes: number[] = []
+
+  for (let i = 0n; i < BigInt(count); i++) {
+    const start = i * bits
+    const long = Number(start / 64n)
+    const offset = start % 64n
+    let value = values[long] >> offset
+    if (offset + bits > 64n)
+      value |= values[long + 1] << (64n - offset)
+
+    indexes.push(Number(value & mask))
+  }
+
+  return indexes
+}
+
+/**
+ * Litematica schematics (`.litematic`), each region is placed where it sits in the schematic.
+ */
+export function parseLitematic(root: unknown, name: string): Blueprint {
+  const result = litematicSchema.safeParse(root)
+  if (!result.success)
+    throw new Error(`Invalid litematic ${name}: ${result.error.message}`)
+
+  const { Metadata: metadata, Regions: regionsByName = {} } = result.data
+  const regions = Object.values(regionsByName)
+  if (regions.length === 0)
+    throw new Error(`Litematic ${name} has no regions`)
+
+  const blocks = regions.flatMap((region) => {
+    const size = { x: Math.abs(region.Size.x), y: Math.abs(region.Size.y), z: Math.abs(region.Size.z) }
+    // Negative sizes grow the region from its position towards negative coordinates
+    const corner = {
+      x: region.Size.x < 0 ? region.Position.x + region.Size.x + 1 : region.Position.x,
+      y: region.Size.y < 0 ? region.Position.y + region.Size.y + 1 : region.Position.y,
+      z: region.Size.z < 0 ? region.Position.z + region.Size.z + 1 : region.Position.z,
+    }
+    const palette = region.BlockStatePalette
+
+    return unpackBlockStates(region.BlockStates, palette.length, size.x * size.y * size.z).map((id, index) => {
+      const { name: blockName, properties } = parseBlockState(palette[id]?.Name ?? 'air')
+      return {
+        x: corner.x + index % size.x,
+        y: corner.y + Math.floor(index / (size.x * size.z)),
+        z: corner.z + Math.floor(index / size.x) % size.z,
+        name: blockName,
+        properties: palette[id]?.Properties ?? properties,
+      }
+    })
+  })
+
+  return blueprintOf(metadata?.Name || name, blocks, metadata?.Description || undefined)
+}
+
+/**
+ * Loads a blueprint from a `.json`, `.schem` or `.litematic` file.
+ */
+export async function loadBlueprint(path: string): Promise<Blueprint> {
+  const extension = extname(path).toLowerCase()
+  const name = basename(path, extname(path))
+  const content = await readFile(path)
+
+  switch (extension) {
+    case '.json':
+      return parseJsonBlueprint(JSON.parse(content.toString('utf-8')), name)
+    case '.schem':
+      return parseSpongeSchematic(simplify((await parse(content)).parsed), name)
+    case '.litematic':
+      return parseLitematic(simplify((await parse(content)).parsed), name)
+    default:
+      throw new Error(`Unsupported blueprint format: ${extension}`)
+  }
+}
+
+/**
+ * Names of the blueprints in the directory, without their extensions.
+ */
+export async function listBlueprints(directory: string): Promise<string[]> {
+  try {
+    const files = await readdir(directory)
+    return files.filter(file => BLUEPRINT_EXTENSIONS.includes(extname(file).toLowerCase())).map(file => basename(file, extname(file)))
+  }
+  catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+      return []
+
+    throw error
+  }
+}
+
+/**
+ * Loads the blueprint with the name from the directory, names match loosely so
+ * `small house` finds `small-house.json`.
+ */
+export async function findBlueprint(directory: string, name: string): Promise<Blueprint | undefined> {
+  const keyOf = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const files = await readdir(directory).catch(() => [] as string[])
+  const file = files.find(file => BLUEPRINT_EXTENSIONS.includes(extname(file).toLowerCase()) && keyOf(basename(file, extname(file))) === keyOf(name))
+
+  return file ? loadBlueprint(join(directory, file)) : undefined
+}
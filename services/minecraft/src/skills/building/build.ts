@@ -0,0 +1,160 @@
+import type { Mineflayer } from '../../libs/mineflayer'
+import type { Position } from '../base'
+import type { Blueprint } from './blueprint'
+import type { BuildPlan } from './plan'
+
+import { Vec3 } from 'vec3'
+
+import { placeOf } from '../../libs/mineflayer/world-memory'
+import { useLogger } from '../../utils/logger'
+import { breakBlockAt, placeBlock } from '../actions/world-interactions'
+import { log } from '../base'
+import { getInventoryCounts } from '../world'
+import { formatBlockState } from './blueprint'
+import { materialsOf, missingMaterials, planBuild } from './plan'
+
+const logger = useLogger()
+
+const EMPTY_BLOCKS = ['air', 'cave_air', 'water', 'lava', 'grass', 'short_grass', 'tall_grass', 'snow', 'dead_bush', 'fern']
+
+export interface BuildProgress {
+  /**
+   * Step to go on from, the start of the layer the build stopped in.
+   */
+  next: number
+  placed: number
+  failed: number
+  completed: boolean
+  interrupted: boolean
+  /**
+   * Items that ran out and stopped the build, with how many more of them it takes.
+   */
+  missing?: Record<string, number>
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts).map(([item, count]) => `${count} ${item}`).join(', ')
+}
+
+/**
+ * Tells how the build of `blueprint` went, for the bot's chat and the agent.
+ */
+export function describeBuild(blueprint: string, progress: BuildProgress): string {
+  if (progress.completed)
+    return `Finished building ${blueprint}, placed ${progress.placed} blocks${progress.failed ? `, ${progress.failed} failed` : ''}.`
+  if (progress.interrupted)
+    return `Stopped building ${blueprint} after placing ${progress.placed} blocks, it can be resumed.`
+  if (progress.placed === 0)
+    return `Not enough materials to build ${blueprint}, missing ${formatCounts(progress.missing ?? {})}.`
+
+  return `Ran out of materials while building ${blueprint} after placing ${progress.placed} blocks, missing ${formatCounts(progress.missing ?? {})}. It can be resumed once you have them.`
+}
+
+/**
+ * Runs the steps of the plan from `startAt` with the blueprint's corner at `origin`.
+ * Blocks already in place are skipped, so running a layer again after an interrupt
+ * only does what's left of it.
+ */
+export async function executeBuild(
+  mineflayer: Mineflayer,
+  plan: BuildPlan,
+  origin: Position,
+  options: { startAt?: number, onLayer?: (next: number) => void } = {},
+): Promise<BuildProgress> {
+  const progress: BuildProgress = { next: options.startAt ?? 0, placed: 0, failed: 0, completed: false, interrupted: false }
+  const onInterrupt = () => {
+    progress.interrupted = true
+  }
+  mineflayer.once('interrupt', onInterrupt)
+
+  try {
+    for (let index = progress.next; index < plan.steps.length; index++) {
+      if (progress.interrupted)
+        return progress
+
+      const step = plan.steps[index]
+      const position = new Vec3(origin.x + step.x, origin.y + step.y, origin.z + step.z)
+      const current = mineflayer.bot.blockAt(position)
+
+      if (step.action === 'remove') {
+        if (current?.name === step.name)
+          await breakBlockAt(mineflayer, position.x, position.y, position.z)
+      }
+      else if (current?.name === step.name) {
+        // Placed before the build was interrupted
+      }
+      else if (step.scaffold && current && !EMPTY_BLOCKS.includes(current.name)) {
+        // The ground already holds it up
+      }
+      else if (mineflayer.allowCheats) {
+        mineflayer.bot.chat(`/setblock ${position.x} ${position.y} ${position.z} ${formatBlockState(step)}`)
+        progress.placed++
+      }
+      else if (step.item) {
+        if (!mineflayer.isCreative && !mineflayer.bot.inventory.items().some(item => item.name === step.item)) {
+          progress.missing = missingMaterials(materialsOf(plan, index), getInventoryCounts(mineflayer))
+          return progress
+        }
+
+        if (await placeBlock(mineflayer, step.item, position.x, position.y, position.z))
+          progress.placed++
+        else
+          progress.failed++
+      }
+
+      if (plan.layerEnds.includes(index + 1)) {
+        progress.next = index + 1
+        options.onLayer?.(progress.next)
+      }
+    }
+
+    progress.completed = true
+    return progress
+  }
+  finally {
+    mineflayer.off('interrupt', onInterrupt)
+  }
+}
+
+/**
+ * Builds the blueprint next to the bot, or goes on with an unfinished build of it where
+ * it was started. How far it got is kept in the world memory after every layer.
+ */
+export async function buildBlueprint(mineflayer: Mineflayer, blueprint: Blueprint): Promise<BuildProgress> {
+  const inventory = getInventoryCounts(mineflayer)
+  const here = placeOf(mineflayer)
+  const unfinished = mineflayer.worldMemory.recallBuild(blueprint.name)
+  // An unfinished build goes on with its own scaffolding, or it couldn't take it down again
+  const scaffold = unfinished?.dimension === here.dimension && unfinished.scaffold
+    ? unfinished.scaffold
+    : (inventory.cobblestone ?? 0) > (inventory.dirt ?? 0) ? 'cobblestone' : 'dirt'
+  const plan = planBuild(blueprint, scaffold)
+
+  const resuming = unfinished && unfinished.dimension === here.dimension && unfinished.total === plan.steps.length
+  // Next to the bot rather than on it, so it doesn't start by walking out of the way
+  const origin = resuming ? unfinished : { ...here, position: { ...here.position, x: here.position.x + 1, z: here.position.z + 1 } }
+  const startAt = resuming ? unfinished.next : 0
+
+  if (!mineflayer.allowCheats && !mineflayer.isCreative) {
+    const missing = missingMaterials(materialsOf(plan, startAt), inventory)
+    if (Object.keys(missing).length > 0) {
+      const progress: BuildProgress = { next: startAt, placed: 0, failed: 0, completed: false, interrupted: false, missing }
+      log(mineflayer, describeBuild(blueprint.name, progress))
+      return progress
+    }
+  }
+
+  logger.withFields({ blueprint: blueprint.name, origin: origin.position, startAt, steps: plan.steps.length }).log(resuming ? 'Resuming build' : 'Starting build')
+  mineflayer.worldMemory.rememberBuild(blueprint.name, origin, { next: startAt, total: plan.steps.length, scaffold })
+
+  const progress = await executeBuild(mineflayer, plan, origin.position, {
+    startAt,
+    onLayer: next => mineflayer.worldMemory.rememberBuild(blueprint.name, origin, { next, total: plan.steps.length, scaffold }),
+  })
+
+  if (progress.completed)
+    mineflayer.worldMemory.forgetBuild(blueprint.name)
+
+  log(mineflayer, describeBuild(blueprint.name, progress))
+  return progress
+}
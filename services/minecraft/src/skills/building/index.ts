@@ -0,0 +1,3 @@
+export * from './blueprint'
+export * from './build'
+export * from './plan'
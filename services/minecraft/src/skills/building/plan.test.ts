@@ -0,0 +1,57 @@
+import type { Blueprint } from './blueprint'
+
+import { describe, expect, it } from 'vitest'
+
+import { itemOf, materialsOf, missingMaterials, planBuild } from './plan'
+
+const at = (x: number, y: number, z: number, name: string, properties?: Record<string, string>) => ({ x, y, z, name, properties })
+
+describe('build plan', () => {
+  it('takes items for blocks, once for blocks of two parts', () => {
+    expect(itemOf({ name: 'oak_wall_sign' })).toEqual({ item: 'oak_sign', count: 1 })
+    expect(itemOf({ name: 'wall_torch' })).toEqual({ item: 'torch', count: 1 })
+    expect(itemOf({ name: 'cobblestone_wall' })).toEqual({ item: 'cobblestone_wall', count: 1 })
+    expect(itemOf({ name: 'stone_slab', properties: { type: 'double' } })).toEqual({ item: 'stone_slab', count: 2 })
+    expect(itemOf({ name: 'oak_door', properties: { half: 'upper' } })).toBeUndefined()
+    expect(itemOf({ name: 'red_bed', properties: { part: 'head' } })).toBeUndefined()
+  })
+
+  it('builds layer by layer, against blocks already placed', () => {
+    const blueprint: Blueprint = {
+      name: 'gate',
+      size: { x: 3, y: 2, z: 1 },
+      blocks: [at(2, 0, 0, 'stone'), at(0, 0, 0, 'stone'), at(1, 1, 0, 'oak_planks'), at(0, 1, 0, 'oak_planks'), at(2, 1, 0, 'oak_planks')],
+    }
+
+    const plan = planBuild(blueprint)
+
+    expect(plan.steps.map(step => [step.x, step.y])).toEqual([[0, 0], [2, 0], [0, 1], [1, 1], [2, 1]])
+    expect(plan.layerEnds).toEqual([2, 5])
+    expect(plan.scaffolding).toBe(0)
+  })
+
+  it('holds up floating blocks with scaffolding and takes it down after the layer', () => {
+    const blueprint: Blueprint = {
+      name: 'sign',
+      size: { x: 4, y: 3, z: 1 },
+      blocks: [at(0, 0, 0, 'stone'), at(3, 2, 0, 'glass'), at(2, 2, 0, 'oak_door', { half: 'upper' })],
+    }
+
+    const plan = planBuild(blueprint, 'cobblestone')
+
+    expect(plan.steps.map(step => [step.action, step.x, step.y, step.name, step.item])).toEqual([
+      ['place', 0, 0, 'stone', 'stone'],
+      ['place', 2, 0, 'cobblestone', 'cobblestone'],
+      ['place', 2, 1, 'cobblestone', 'cobblestone'],
+      ['place', 2, 2, 'oak_door', undefined],
+      ['place', 3, 2, 'glass', 'glass'],
+      ['remove', 2, 1, 'cobblestone', 'cobblestone'],
+      ['remove', 2, 0, 'cobblestone', 'cobblestone'],
+    ])
+    expect(plan.scaffolding).toBe(2)
+
+    expect(materialsOf(plan)).toEqual({ stone: 1, glass: 1, cobblestone: 2 })
+    expect(materialsOf(plan, 3)).toEqual({ glass: 1, cobblestone: 2 })
+    expect(missingMaterials(materialsOf(plan), { stone: 5, cobblestone: 1 })).toEqual({ glass: 1, cobblestone: 1 })
+  })
+})
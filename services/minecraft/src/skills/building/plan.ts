@@ -0,0 +1,166 @@
+import type { Blueprint, BlueprintBlock } from './blueprint'
+
+export interface BuildStep {
+  action: 'place' | 'remove'
+  /**
+   * Position relative to the origin of the build.
+   */
+  x: number
+  y: number
+  z: number
+  name: string
+  properties?: Record<string, string>
+  /**
+   * Item to place the block with, left out for blocks that come with another one,
+   * like the upper half of a door.
+   */
+  item?: string
+  /**
+   * Temporary block holding up blocks that would float, removed once their layer is done.
+   */
+  scaffold?: boolean
+}
+
+export interface BuildPlan {
+  blueprint: string
+  /**
+   * Steps layer by layer from the bottom, the steps of a layer end where `layerEnds` says.
+   */
+  steps: BuildStep[]
+  layerEnds: number[]
+  /**
+   * Most scaffolding up at once, the blocks are picked up again after every layer.
+   */
+  scaffolding: number
+}
+
+// Blocks whose item has another name
+const BLOCK_ITEMS: Record<string, string> = {
+  wall_torch: 'torch',
+  redstone_wire: 'redstone',
+  tripwire: 'string',
+  water: 'water_bucket',
+  lava: 'lava_bucket',
+  powder_snow: 'powder_snow_bucket',
+  wheat: 'wheat_seeds',
+  carrots: 'carrot',
+  potatoes: 'potato',
+  beetroots: 'beetroot_seeds',
+  cocoa: 'cocoa_beans',
+  sweet_berry_bush: 'sweet_berries',
+  bamboo_sapling: 'bamboo',
+  kelp_plant: 'kelp',
+  cave_vines: 'glow_berries',
+  cave_vines_plant: 'glow_berries',
+}
+
+// Blocks that can't be placed from an item
+const WITHOUT_ITEM = ['fire', 'soul_fire', 'piston_head', 'moving_piston', 'nether_portal', 'end_portal', 'end_gateway', 'bubble_column', 'frosted_ice']
+
+/**
+ * The item and how many of it a block takes, `undefined` for blocks placed along with
+ * another block or that no item places.
+ */
+export function itemOf(block: Pick<BlueprintBlock, 'name' | 'properties'>): { item: string, count: number } | undefined {
+  const { name, properties = {} } = block
+  if (WITHOUT_ITEM.includes(name) || name.startsWith('potted_'))
+    return undefined
+
+  // Doors, tall plants and beds are placed whole from their lower half or foot
+  if (properties.half === 'upper' || properties.part === 'head')
+    return undefined
+
+  const item = BLOCK_ITEMS[name] ?? name.replace(/_wall_(torch|sign|hanging_sign|banner|head|skull|fan)$/, '_$1')
+  return { item, count: properties.type === 'double' && name.endsWith('_slab') ? 2 : 1 }
+}
+
+/**
+ * Materials the plan takes from the given step on, scaffolding included.
+ */
+export function materialsOf(plan: BuildPlan, next = 0): Record<string, number> {
+  const materials: Record<string, number> = {}
+  for (const step of plan.steps.slice(next)) {
+    const material = step.action === 'place' && !step.scaffold ? itemOf(step) : undefined
+    if (material)
+      materials[material.item] = (materials[material.item] ?? 0) + material.count
+  }
+
+  const scaffold = plan.steps.find(step => step.scaffold)
+  if (scaffold)
+    materials[scaffold.name] = (materials[scaffold.name] ?? 0) + plan.scaffolding
+
+  return materials
+}
+
+/**
+ * What the materials need beyond what the inventory has.
+ */
+export function missingMaterials(materials: Record<string, number>, inventory: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(materials)
+    .map(([item, count]) => [item, count - (inventory[item] ?? 0)] as const)
+    .filter(([, count]) => count > 0))
+}
+
+const keyOf = ({ x, y, z }: { x: number, y: number, z: number }) => `${x},${y},${z}`
+
+/**
+ * Orders the blueprint for building: layer by layer from the bottom, and in a layer
+ * every block is placed next to one already there, so it always has something to be
+ * placed against. Blocks with nothing around get a scaffolding pillar under them first,
+ * which comes down again once the layer is done.
+ */
+export function planBuild(blueprint: Blueprint, scaffold = 'dirt'): BuildPlan {
+  const placed = new Set<string>()
+  const steps: BuildStep[] = []
+  const layerEnds: number[] = []
+  let scaffolding = 0
+
+  const layers = new Map<number, BlueprintBlock[]>()
+  for (const block of blueprint.blocks)
+    layers.set(block.y, [...layers.get(block.y) ?? [], block])
+
+  const isSupported = (block: BlueprintBlock) => block.y === 0
+    || [[0, -1, 0], [1, 0, 0], [-1, 0, 0], [0, 0, 1], [0, 0, -1], [0, 1, 0]]
+      .some(([dx, dy, dz]) => placed.has(keyOf({ x: block.x + dx, y: block.y + dy, z: block.z + dz })))
+
+  for (const y of [...layers.keys()].sort((a, b) => a - b)) {
+    // Row by row, so the bot works its way across instead of back and forth
+    const remaining = layers.get(y)!.sort((a, b) => a.z - b.z || a.x - b.x)
+    const scaffolds: BuildStep[] = []
+
+    while (remaining.length > 0) {
+      let index = remaining.findIndex(isSupported)
+
+      if (index < 0) {
+        // Nothing left to place against, hold up the first block from the ground or what's below it
+        index = 0
+        const { x, z } = remaining[0]
+        let bottom = y - 1
+        while (bottom > 0 && !placed.has(keyOf({ x, y: bottom - 1, z })))
+          bottom--
+
+        for (let scaffoldY = bottom; scaffoldY < y; scaffoldY++) {
+          const step: BuildStep = { action: 'place', x, y: scaffoldY, z, name: scaffold, item: scaffold, scaffold: true }
+          steps.push(step)
+          scaffolds.push(step)
+          placed.add(keyOf(step))
+        }
+      }
+
+      const [block] = remaining.splice(index, 1)
+      steps.push({ action: 'place', ...block, item: itemOf(block)?.item })
+      placed.add(keyOf(block))
+    }
+
+    // Top down, so the bot can reach each block from the one below
+    for (const step of scaffolds.reverse()) {
+      steps.push({ ...step, action: 'remove' })
+      placed.delete(keyOf(step))
+    }
+
+    scaffolding = Math.max(scaffolding, scaffolds.length)
+    layerEnds.push(steps.length)
+  }
+
+  return { blueprint: blueprint.name, steps, layerEnds, scaffolding }
+}
@@ -8,6 +8,7 @@ import { sleep } from '@moeru/std'
 import { randomInt } from 'es-toolkit'
 import { Vec3 } from 'vec3'
 
+import { placeOf } from '../libs/mineflayer/world-memory'
 import { useLogger } from '../utils/logger'
 import { log } from './base'
 import { getNearestBlock, getNearestEntityWhere } from './world'
@@ -57,6 +58,7 @@ export async function goToNearestBlock(
   }
 
   log(mineflayer, `Found ${blockType} at ${block.position}.`)
+  mineflayer.worldMemory.rememberResource(block.name, placeOf(mineflayer, block.position))
   await goToPosition(mineflayer, block.position.x, block.position.y, block.position.z, minDistance)
   return true
 }
@@ -0,0 +1,26 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+/**
+ * Reads and parses a JSON file, `undefined` when it doesn't exist yet.
+ */
+export async function readJsonFile<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as T
+  }
+  catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+      return undefined
+
+    throw error
+  }
+}
+
+/**
+ * Writes the data as JSON through a temporary file, so a crash never leaves half a file behind.
+ */
+export async function writeJsonFile(path: string, data: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(`${path}.tmp`, JSON.stringify(data, null, 2))
+  await rename(`${path}.tmp`, path)
+}
@@ -0,0 +1,78 @@
+import type { Message, UserFromGetMe } from 'grammy/types'
+
+import { describe, expect, it } from 'vitest'
+
+import { isAddressedTo, routeOf, speakableTextOf, telegramSourceOf, textOf } from './airi-adapter'
+
+const me = { id: 42, is_bot: true, first_name: 'AIRI', username: 'airi_bot' } as UserFromGetMe
+const alice = { id: 7, is_bot: false, first_name: 'Alice', last_name: 'Liddell', username: 'alice' }
+const group = { id: -100, type: 'supergroup', title: 'Tea Party' } as const
+
+function messageOf(fields: Partial<Message>): Message {
+  return { message_id: 1, date: 0, chat: group, from: alice, ...fields } as Message
+}
+
+describe('telegramSourceOf', () => {
+  it('should describe the chat, the sender and the message replied to', () => {
+    const message = messageOf({
+      message_id: 3,
+      text: 'Indeed',
+      reply_to_message: messageOf({ message_id: 2, text: 'Tea?', from: { ...alice, id: 8, first_name: 'Hatter', last_name: undefined } }) as Message['reply_to_message'],
+    })
+
+    expect(telegramSourceOf(message)).toEqual({
+      chatId: '-100',
+      chatType: 'supergroup',
+      chatTitle: 'Tea Party',
+      messageId: '3',
+      user: { id: '7', username: 'alice', firstName: 'Alice', lastName: 'Liddell' },
+      replyTo: { messageId: '2', text: 'Tea?', fromName: 'Hatter' },
+    })
+  })
+})
+
+describe('isAddressedTo', () => {
+  it('should take private messages, mentions and replies to the bot', () => {
+    expect(isAddressedTo(messageOf({ chat: { id: 7, type: 'private', first_name: 'Alice' }, text: 'hi' }), me)).toBe(true)
+    expect(isAddressedTo(messageOf({ text: 'what do you think, @AIRI_bot?' }), me)).toBe(true)
+    expect(isAddressedTo(messageOf({ text: 'Airi, more tea?' }), me)).toBe(true)
+    expect(isAddressedTo(messageOf({ text: 'ok', reply_to_message: messageOf({ from: { ...me } }) as Message['reply_to_message'] }), me)).toBe(true)
+  })
+
+  it('should leave the rest of a group chat alone', () => {
+    expect(isAddressedTo(messageOf({ text: 'more tea, anyone?' }), me)).toBe(false)
+    // The name only counts as a whole word
+    expect(isAddressedTo(messageOf({ text: 'the fairies are hairier than usual' }), me)).toBe(false)
+    expect(isAddressedTo(messageOf({ text: 'ask @airi_bots instead' }), me)).toBe(false)
+  })
+})
+
+describe('textOf', () => {
+  it('should describe stickers and photos without captions', () => {
+    expect(textOf(messageOf({ sticker: { emoji: '🍵' } as Message['sticker'] }))).toBe('[Sticker 🍵]')
+    expect(textOf(messageOf({ photo: [] }))).toBe('[Photo]')
+    expect(textOf(messageOf({ photo: [], caption: 'my cat' }))).toBe('my cat')
+  })
+})
+
+describe('speakableTextOf', () => {
+  it('should drop the special tokens of the stage', () => {
+    expect(speakableTextOf({ role: 'assistant', content: '<|ACT:{"emotion":"happy"}|> Hello there!' })).toBe('Hello there!')
+    expect(speakableTextOf({ role: 'assistant', content: [{ type: 'text', text: 'Hi ' }, { type: 'text', text: 'again' }] })).toBe('Hi again')
+  })
+})
+
+describe('routeOf', () => {
+  const message = { role: 'assistant', content: 'Hello!' } as const
+  const telegram = { chatId: '-100', chatType: 'supergroup', messageId: '3' } as const
+
+  it('should answer in the chat the input came from', () => {
+    expect(routeOf({ message, telegram }, '42')).toEqual(telegram)
+  })
+
+  it('should speak other replies in the configured chat only', () => {
+    expect(routeOf({ message }, '42')).toEqual({ chatId: '42' })
+    expect(routeOf({ message })).toBeUndefined()
+    expect(routeOf({ message, discord: { channelId: '1' } }, '42')).toBeUndefined()
+  })
+})
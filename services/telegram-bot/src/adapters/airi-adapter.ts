@@ -0,0 +1,174 @@
+import type { Telegram, WebSocketEvents } from '@proj-airi/server-sdk'
+import type { AssistantMessage } from '@xsai/shared-chat'
+import type { Bot, Context } from 'grammy'
+import type { Message, UserFromGetMe } from 'grammy/types'
+
+import { useLogg } from '@guiiai/logg'
+import { Client, ContextUpdateStrategy } from '@proj-airi/server-sdk'
+import { nanoid } from 'nanoid'
+
+const log = useLogg('AiriAdapter').useGlobalConfig()
+
+export interface AiriAdapterConfig {
+  airiUrl?: string
+  airiToken?: string
+  /**
+   * Chat to speak replies in when they don't answer a Telegram message, they're dropped
+   * without one.
+   */
+  speakChatId?: string
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function nameOf(user?: { first_name: string, last_name?: string }) {
+  return user ? [user.first_name, user.last_name].filter(Boolean).join(' ') : undefined
+}
+
+/**
+ * What the message says, stickers and photos without captions are described instead.
+ */
+export function textOf(message: Message): string | undefined {
+  if (message.text || message.caption)
+    return message.text || message.caption
+  if (message.sticker)
+    return `[Sticker ${message.sticker.emoji ?? ''}]`.replace(' ]', ']')
+  if (message.photo)
+    return '[Photo]'
+
+  return undefined
+}
+
+export function telegramSourceOf(message: Message): Telegram {
+  const reply = message.reply_to_message
+
+  return {
+    chatId: message.chat.id.toString(),
+    chatType: message.chat.type,
+    chatTitle: 'title' in message.chat ? message.chat.title : undefined,
+    messageId: message.message_id.toString(),
+    user: message.from && {
+      id: message.from.id.toString(),
+      username: message.from.username,
+      firstName: message.from.first_name,
+      lastName: message.from.last_name,
+    },
+    replyTo: reply && {
+      messageId: reply.message_id.toString(),
+      text: textOf(reply),
+      fromName: nameOf(reply.from),
+    },
+  }
+}
+
+/**
+ * Private messages, mentions and replies to the bot are meant for the character,
+ * the rest of a group chat is only context.
+ */
+export function isAddressedTo(message: Message, me: UserFromGetMe): boolean {
+  if (message.chat.type === 'private')
+    return true
+  if (message.reply_to_message?.from?.id === me.id)
+    return true
+
+  const text = message.text || message.caption || ''
+  return [`@${me.username}`, me.first_name].some(name =>
+    new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`, 'iu').test(text))
+}
+
+/**
+ * Text of a reply as it should be sent, without the special tokens the character
+ * uses to drive the stage (e.g. `<|ACT:...|>`).
+ */
+export function speakableTextOf(message: AssistantMessage): string {
+  const content = typeof message.content === 'string'
+    ? message.content
+    : (message.content ?? []).map(part => part.type === 'text' ? part.text : '').join('')
+
+  return content.replace(/<\|[^|]*\|>/g, '').trim()
+}
+
+/**
+ * Chat the reply goes to: the one its input came from, which the stage sends back along
+ * with it, or else `speakChatId`.
+ */
+export function routeOf(data: WebSocketEvents['output:gen-ai:chat:message'], speakChatId?: string): Pick<Telegram, 'chatId' | 'messageId'> | undefined {
+  if (data.telegram)
+    return data.telegram
+
+  // Replies to other modules' inputs are for them
+  if (data.discord)
+    return undefined
+
+  return speakChatId ? { chatId: speakChatId } : undefined
+}
+
+/**
+ * Connects the bot to the AIRI channel server: messages become `input:text` when they're
+ * meant for the character and `context:update` either way, and the character's replies
+ * are sent back to the chat they answer.
+ */
+export function createAiriAdapter<C extends Context>(bot: Bot<C>, config: AiriAdapterConfig) {
+  const client = new Client({
+    name: 'telegram-bot',
+    url: config.airiUrl,
+    token: config.airiToken,
+    possibleEvents: ['input:text', 'context:update', 'output:gen-ai:chat:message'],
+    consumes: ['output:gen-ai:chat:message'],
+    emits: ['input:text', 'context:update'],
+  })
+
+  client.onEvent('output:gen-ai:chat:message', async (event) => {
+    const text = speakableTextOf(event.data.message)
+    if (!text)
+      return
+
+    const route = routeOf(event.data, config.speakChatId)
+    if (!route) {
+      log.withField('text', text).debug('Reply is not for a Telegram chat, skipping')
+      return
+    }
+
+    try {
+      await bot.api.sendMessage(route.chatId, text, route.messageId
+        ? { reply_parameters: { message_id: Number(route.messageId), allow_sending_without_reply: true } }
+        : undefined)
+    }
+    catch (err) {
+      log.withError(err).withField('chat_id', route.chatId).error('Failed to send reply to Telegram')
+    }
+  })
+
+  function handleMessage(message: Message) {
+    const text = textOf(message)
+    if (!text)
+      return
+
+    const source = telegramSourceOf(message)
+    const sender = nameOf(message.from) ?? source.chatTitle ?? 'Someone'
+
+    client.send({
+      type: 'context:update',
+      data: {
+        id: nanoid(),
+        contextId: `telegram:${source.chatId}`,
+        lane: 'telegram',
+        strategy: ContextUpdateStrategy.AppendSelf,
+        text: `${sender} in ${source.chatTitle ?? 'a private chat'} on Telegram: ${text}`,
+        metadata: { telegram: source },
+      },
+    })
+
+    if (!isAddressedTo(message, bot.botInfo))
+      return
+
+    client.send({ type: 'input:text', data: { text, telegram: source } })
+  }
+
+  return {
+    handleMessage,
+    close: () => client.close(),
+  }
+}
@@ -0,0 +1,32 @@
+import type { AiriAdapterConfig } from '../../adapters/airi-adapter'
+
+import { env } from 'node:process'
+
+import { useLogg } from '@guiiai/logg'
+import { Bot } from 'grammy'
+
+import { createAiriAdapter } from '../../adapters/airi-adapter'
+
+/**
+ * Starts the bot as a channel of the stage character, which does the thinking
+ * instead of the bot's own loop, so neither the database nor an LLM is needed.
+ */
+export async function startTelegramHubBot(config: AiriAdapterConfig) {
+  const log = useLogg('HubBot').useGlobalConfig()
+
+  const telegramBot = new Bot(env.TELEGRAM_BOT_TOKEN!)
+  telegramBot.errorHandler = async err => log.withError(err).log('Error occurred')
+
+  const adapter = createAiriAdapter(telegramBot, config)
+
+  telegramBot.on(['message:text', 'message:photo', 'message:sticker'], async (ctx) => {
+    if (ctx.message.from.id === telegramBot.botInfo.id)
+      return
+
+    adapter.handleMessage(ctx.message)
+  })
+
+  await telegramBot.init()
+  log.withField('bot_username', telegramBot.botInfo.username).log('bot initialized')
+  telegramBot.start({ drop_pending_updates: true })
+}
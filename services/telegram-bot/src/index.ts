@@ -9,6 +9,7 @@ import { NodeSDK } from '@opentelemetry/sdk-node'
 import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions'
 
 import { startTelegramBot } from './bots/telegram'
+import { startTelegramHubBot } from './bots/telegram/hub'
 import { initDb } from './db'
 
 setGlobalFormat(Format.Pretty)
@@ -33,6 +34,16 @@ async function main() {
 
   sdk.start()
 
+  // Hub mode makes the bot a channel of the stage character, otherwise it runs its own LLM loop
+  if (env.TELEGRAM_BOT_MODE === 'hub') {
+    await startTelegramHubBot({
+      airiUrl: env.AIRI_URL || 'ws://localhost:6121/ws',
+      airiToken: env.AIRI_TOKEN,
+      speakChatId: env.TELEGRAM_SPEAK_CHAT_ID || undefined,
+    })
+    return
+  }
+
   await initDb()
   await startTelegramBot()
 }
@@ -6,6 +6,11 @@ export default defineConfig({
       'packages/stage-ui',
       'packages/vite-plugin-warpdrive',
       'packages/audio-pipelines-transcribe',
+      'packages/memory-pgvector',
+      'packages/server-runtime',
+      'packages/server-sdk',
+      'packages/server-shared',
+      'packages/ccc',
     ],
   },
 })